@@ -0,0 +1,95 @@
+import {
+  Body,
+  Controller,
+  Delete,
+  Get,
+  HttpCode,
+  HttpStatus,
+  NotFoundException,
+  Param,
+  Post,
+  UseGuards,
+} from '@nestjs/common';
+import { AuthGuard } from '@nestjs/passport';
+import { Scopes } from '../auth/scopes.decorator';
+import { ScopesGuard } from '../auth/scopes.guard';
+import { BridgeInfo } from '../chat/bridge.service';
+import { ChatGateway } from '../chat/chat.gateway';
+import { ClusterService } from '../state/cluster.service';
+import { BroadcastDto } from './dto/broadcast.dto';
+
+/**
+ * Operator routes for live bridges on every node; require a JWT with the
+ * admin scope
+ */
+@Controller('admin')
+@UseGuards(AuthGuard('jwt'), ScopesGuard)
+@Scopes('admin')
+export class AdminController {
+  constructor(
+    private readonly cluster: ClusterService,
+    private readonly chatGateway: ChatGateway,
+  ) {}
+
+  /**
+   * List active bridges
+   * GET /admin/bridges
+   */
+  @Get('bridges')
+  async listBridges() {
+    const nodes = await this.cluster.gather<BridgeInfo[]>('bridges.list', {});
+    return { bridges: nodes.flat() };
+  }
+
+  /**
+   * Disconnect a client and close its bridge
+   * DELETE /admin/bridges/:clientId
+   */
+  @Delete('bridges/:clientId')
+  @HttpCode(HttpStatus.NO_CONTENT)
+  async closeBridge(@Param('clientId') clientId: string) {
+    if (!(await this.onOwningNode('bridges.close', clientId))) {
+      throw new NotFoundException(`No bridge for client ${clientId}`);
+    }
+  }
+
+  /**
+   * Re-create a client's bridge, keeping the socket connected
+   * POST /admin/bridges/:clientId/reconnect
+   */
+  @Post('bridges/:clientId/reconnect')
+  @HttpCode(HttpStatus.NO_CONTENT)
+  async reconnectBridge(@Param('clientId') clientId: string) {
+    if (!(await this.onOwningNode('bridges.reconnect', clientId))) {
+      throw new NotFoundException(`No bridge for client ${clientId}`);
+    }
+  }
+
+  /**
+   * Send a system notice to every chat socket
+   * POST /admin/broadcast
+   * Body: { "message": "...", "level"?: "info" | "warning" }
+   */
+  @Post('broadcast')
+  @HttpCode(HttpStatus.OK)
+  async broadcast(@Body() dto: BroadcastDto) {
+    return {
+      recipients: await this.chatGateway.broadcastNotice(
+        dto.message,
+        dto.level,
+      ),
+    };
+  }
+
+  /**
+   * Run a bridge command on every node; true if the node holding the
+   * client's bridge handled it
+   */
+  private async onOwningNode(
+    command: string,
+    clientId: string,
+  ): Promise<boolean> {
+    const results = await this.cluster.gather<boolean>(command, { clientId });
+    return results.some(Boolean);
+  }
+}
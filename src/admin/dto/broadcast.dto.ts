@@ -0,0 +1,18 @@
+import {
+  IsIn,
+  IsNotEmpty,
+  IsOptional,
+  IsString,
+  MaxLength,
+} from 'class-validator';
+
+export class BroadcastDto {
+  @IsString()
+  @IsNotEmpty()
+  @MaxLength(1000)
+  message: string;
+
+  @IsOptional()
+  @IsIn(['info', 'warning'])
+  level?: 'info' | 'warning';
+}
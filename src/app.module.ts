@@ -2,9 +2,14 @@ import { Module } from '@nestjs/common';
 import { ConfigModule, ConfigService } from '@nestjs/config';
 import { ThrottlerModule } from '@nestjs/throttler';
 import { JwtModule } from '@nestjs/jwt';
+import { AdminModule } from './admin/admin.module';
+import { AttachmentsModule } from './attachments/attachments.module';
 import { AuthModule } from './auth/auth.module';
 import { ChatModule } from './chat/chat.module';
 import { HealthModule } from './health/health.module';
+import { MetricsModule } from './metrics/metrics.module';
+import { StateModule } from './state/state.module';
+import { TranscriptsModule } from './transcripts/transcripts.module';
 
 @Module({
   imports: [
@@ -33,16 +38,24 @@ import { HealthModule } from './health/health.module';
       useFactory: (config: ConfigService) => ({
         secret: config.get<string>('JWT_SECRET') || 'default-secret',
         signOptions: {
-          expiresIn: (config.get<string>('JWT_EXPIRATION', '30m') || '30m') as any,
+          expiresIn: (config.get<string>('JWT_EXPIRATION', '30m') ||
+            '30m') as any,
         },
       }),
       global: true,
     }),
 
+    // Shared state between nodes
+    StateModule,
+
     // Feature Modules
     AuthModule,
     ChatModule,
     HealthModule,
+    MetricsModule,
+    AdminModule,
+    AttachmentsModule,
+    TranscriptsModule,
   ],
 })
 export class AppModule {}
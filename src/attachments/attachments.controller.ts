@@ -0,0 +1,46 @@
+import {
+  BadRequestException,
+  Controller,
+  Post,
+  Req,
+  UploadedFile,
+  UseGuards,
+  UseInterceptors,
+} from '@nestjs/common';
+import { AuthGuard } from '@nestjs/passport';
+import { FileInterceptor } from '@nestjs/platform-express';
+import { TokenPayload } from '../auth/interfaces/token-payload.interface';
+import { Scopes } from '../auth/scopes.decorator';
+import { ScopesGuard } from '../auth/scopes.guard';
+import { AttachmentsService } from './attachments.service';
+
+/**
+ * Uploads for chat messages; require a JWT with the chat scope
+ */
+@Controller('attachments')
+@UseGuards(AuthGuard('jwt'), ScopesGuard)
+@Scopes('chat')
+export class AttachmentsController {
+  constructor(private readonly attachmentsService: AttachmentsService) {}
+
+  /**
+   * Store a file to reference from chat messages
+   * POST /attachments (multipart/form-data, field "file")
+   */
+  @Post()
+  @UseInterceptors(FileInterceptor('file'))
+  upload(
+    @UploadedFile() file: Express.Multer.File | undefined,
+    @Req() req: { user: TokenPayload },
+  ) {
+    if (!file) {
+      throw new BadRequestException('Missing "file" field');
+    }
+
+    return this.attachmentsService.save(
+      file.buffer,
+      { fileName: file.originalname, mimeType: file.mimetype },
+      req.user.sub,
+    );
+  }
+}
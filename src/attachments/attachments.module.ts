@@ -0,0 +1,24 @@
+import { Module } from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import { MulterModule } from '@nestjs/platform-express';
+import { AttachmentsController } from './attachments.controller';
+import { AttachmentsService } from './attachments.service';
+
+@Module({
+  imports: [
+    MulterModule.registerAsync({
+      inject: [ConfigService],
+      // Without a destination, uploads are buffered in memory
+      useFactory: (config: ConfigService) => ({
+        limits: {
+          files: 1,
+          fileSize: Number(config.get('ATTACHMENT_MAX_BYTES', 10485760)),
+        },
+      }),
+    }),
+  ],
+  controllers: [AttachmentsController],
+  providers: [AttachmentsService],
+  exports: [AttachmentsService],
+})
+export class AttachmentsModule {}
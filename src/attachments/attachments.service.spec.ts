@@ -0,0 +1,183 @@
+import {
+  BadRequestException,
+  PayloadTooLargeException,
+  UnsupportedMediaTypeException,
+} from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import { createHash } from 'crypto';
+import { existsSync, mkdtempSync, rmSync } from 'fs';
+import { tmpdir } from 'os';
+import { join } from 'path';
+import { AttachmentsService } from './attachments.service';
+
+const PNG = Buffer.concat([
+  Buffer.from([0x89, 0x50, 0x4e, 0x47, 0x0d, 0x0a, 0x1a, 0x0a]),
+  Buffer.from('image data'),
+]);
+
+describe('AttachmentsService', () => {
+  let dir: string;
+  let attachments: AttachmentsService;
+
+  async function createService(
+    env: Record<string, unknown> = {},
+  ): Promise<AttachmentsService> {
+    const service = new AttachmentsService(
+      new ConfigService({
+        ATTACHMENTS_DIR: dir,
+        ATTACHMENT_TTL: 60000,
+        ATTACHMENT_MAX_BYTES: 64,
+        ATTACHMENT_MIME_TYPES: 'image/png,text/*',
+        ...env,
+      }),
+    );
+    await service.onModuleInit();
+    return service;
+  }
+
+  beforeEach(async () => {
+    dir = mkdtempSync(join(tmpdir(), 'attachments-'));
+    attachments = await createService();
+  });
+
+  afterEach(() => {
+    attachments.onModuleDestroy();
+    rmSync(dir, { recursive: true, force: true });
+  });
+
+  describe('save', () => {
+    it('stores an upload with its size and hash', async () => {
+      const saved = await attachments.save(
+        PNG,
+        { fileName: 'photo.png', mimeType: 'image/png' },
+        'alice',
+      );
+
+      expect(saved).toMatchObject({
+        fileName: 'photo.png',
+        mimeType: 'image/png',
+        size: PNG.length,
+        sha256: createHash('sha256').update(PNG).digest('hex'),
+      });
+      expect(saved.expiresAt - saved.createdAt).toBe(60000);
+      expect(saved).not.toHaveProperty('owner');
+      expect(existsSync(join(dir, saved.id))).toBe(true);
+    });
+
+    it('normalizes the type and keeps the file name out of other paths', async () => {
+      const saved = await attachments.save(
+        Buffer.from('notes'),
+        { fileName: '../../etc/passwd', mimeType: 'Text/Plain; charset=utf-8' },
+        'alice',
+      );
+
+      expect(saved).toMatchObject({
+        fileName: '.._.._etc_passwd',
+        mimeType: 'text/plain',
+      });
+    });
+
+    it('refuses types that are not allowed', async () => {
+      await expect(
+        attachments.save(
+          Buffer.from('%PDF-1.7'),
+          { fileName: 'doc.pdf', mimeType: 'application/pdf' },
+          'alice',
+        ),
+      ).rejects.toThrow(UnsupportedMediaTypeException);
+    });
+
+    it('refuses content that does not match its claimed type', async () => {
+      await expect(
+        attachments.save(
+          Buffer.from('not a png'),
+          { fileName: 'photo.png', mimeType: 'image/png' },
+          'alice',
+        ),
+      ).rejects.toThrow('Attachment content is not image/png');
+    });
+
+    it('refuses empty and oversized uploads', async () => {
+      const upload = { fileName: 'a.txt', mimeType: 'text/plain' };
+
+      await expect(
+        attachments.save(Buffer.alloc(0), upload, 'alice'),
+      ).rejects.toThrow(BadRequestException);
+      await expect(
+        attachments.save(Buffer.alloc(65, 'a'), upload, 'alice'),
+      ).rejects.toThrow(PayloadTooLargeException);
+    });
+  });
+
+  describe('find', () => {
+    it("returns only the owner's unexpired attachments", async () => {
+      const { id } = await attachments.save(
+        PNG,
+        { fileName: 'photo.png', mimeType: 'image/png' },
+        'alice',
+      );
+
+      expect(await attachments.find(id, 'alice')).toMatchObject({
+        id,
+        owner: 'alice',
+      });
+      expect(await attachments.find(id, 'bob')).toBeNull();
+
+      jest.spyOn(Date, 'now').mockReturnValue(Date.now() + 60000);
+      try {
+        expect(await attachments.find(id, 'alice')).toBeNull();
+      } finally {
+        jest.restoreAllMocks();
+      }
+    });
+
+    it('refuses ids that could name other files', async () => {
+      expect(await attachments.find('../secrets', 'alice')).toBeNull();
+      expect(
+        await attachments.find('00000000-0000-0000-0000-000000000000', 'alice'),
+      ).toBeNull();
+    });
+  });
+
+  it('loads content in the gateway format', async () => {
+    const image = await attachments.save(
+      PNG,
+      { fileName: 'photo.png', mimeType: 'image/png' },
+      'alice',
+    );
+    const text = await attachments.save(
+      Buffer.from('notes'),
+      { fileName: 'notes.txt', mimeType: 'text/plain' },
+      'alice',
+    );
+
+    await expect(
+      attachments.toGateway((await attachments.find(image.id, 'alice'))!),
+    ).resolves.toEqual({
+      type: 'image',
+      mimeType: 'image/png',
+      fileName: 'photo.png',
+      content: PNG.toString('base64'),
+    });
+    await expect(
+      attachments.toGateway((await attachments.find(text.id, 'alice'))!),
+    ).resolves.toMatchObject({ type: 'file', content: 'bm90ZXM=' });
+  });
+
+  it('removes expired attachments when it starts', async () => {
+    const short = await createService({ ATTACHMENT_TTL: 1 });
+    const { id } = await short.save(
+      Buffer.from('notes'),
+      { fileName: 'notes.txt', mimeType: 'text/plain' },
+      'alice',
+    );
+    short.onModuleDestroy();
+    await new Promise((resolve) => setTimeout(resolve, 5));
+
+    const restarted = await createService();
+    restarted.onModuleDestroy();
+
+    expect(existsSync(join(dir, id))).toBe(false);
+    expect(existsSync(join(dir, `${id}.json`))).toBe(false);
+  });
+});
@@ -0,0 +1,243 @@
+import {
+  BadRequestException,
+  Injectable,
+  Logger,
+  OnModuleDestroy,
+  OnModuleInit,
+  PayloadTooLargeException,
+  UnsupportedMediaTypeException,
+} from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import { createHash } from 'crypto';
+import { mkdir, readdir, readFile, rm, writeFile } from 'fs/promises';
+import { join } from 'path';
+import { v4 as uuidv4 } from 'uuid';
+
+export const MAX_ATTACHMENTS_PER_MESSAGE = 10;
+
+/**
+ * A stored upload, as kept next to its content
+ */
+export interface AttachmentRecord {
+  id: string;
+  /** Subject of the token that uploaded it */
+  owner: string;
+  fileName: string;
+  mimeType: string;
+  size: number;
+  sha256: string;
+  createdAt: number;
+  expiresAt: number;
+}
+
+export type AttachmentInfo = Omit<AttachmentRecord, 'owner'>;
+
+/**
+ * An attachment in the gateway's `agent` request format
+ */
+export interface GatewayAttachment {
+  type: 'image' | 'file';
+  mimeType: string;
+  fileName: string;
+  /** Base64 file content */
+  content: string;
+}
+
+/**
+ * Leading bytes of the types we can recognize, so an upload can't claim
+ * to be an image it isn't
+ */
+const SIGNATURES: Record<string, (content: Buffer) => boolean> = {
+  'image/png': (content) =>
+    content
+      .subarray(0, 8)
+      .equals(Buffer.from([0x89, 0x50, 0x4e, 0x47, 0x0d, 0x0a, 0x1a, 0x0a])),
+  'image/jpeg': (content) =>
+    content[0] === 0xff && content[1] === 0xd8 && content[2] === 0xff,
+  'image/gif': (content) =>
+    /^GIF8[79]a$/.test(content.subarray(0, 6).toString('latin1')),
+  'image/webp': (content) =>
+    content.subarray(0, 4).toString('latin1') === 'RIFF' &&
+    content.subarray(8, 12).toString('latin1') === 'WEBP',
+  'application/pdf': (content) =>
+    content.subarray(0, 5).toString('latin1') === '%PDF-',
+};
+
+/**
+ * Local content store for files uploaded to attach to chat messages.
+ * Each attachment is a content file plus a JSON record in ATTACHMENTS_DIR,
+ * removed ATTACHMENT_TTL ms after upload. With several nodes the directory
+ * must be shared storage, or uploads and sockets routed to the same node.
+ */
+@Injectable()
+export class AttachmentsService implements OnModuleInit, OnModuleDestroy {
+  private readonly logger = new Logger(AttachmentsService.name);
+  private readonly dir: string;
+  private readonly ttl: number;
+  private readonly mimeTypes: string[];
+  readonly maxBytes: number;
+  /** Total size of the attachments one message may carry */
+  readonly maxMessageBytes: number;
+  private pruneTimer?: NodeJS.Timeout;
+
+  constructor(private readonly configService: ConfigService) {
+    this.dir = this.configService.get<string>(
+      'ATTACHMENTS_DIR',
+      './data/attachments',
+    );
+    this.ttl = Number(this.configService.get('ATTACHMENT_TTL', 86400000));
+    this.maxBytes = Number(
+      this.configService.get('ATTACHMENT_MAX_BYTES', 10485760),
+    );
+    this.maxMessageBytes = Number(
+      this.configService.get('ATTACHMENT_MAX_MESSAGE_BYTES', 20971520),
+    );
+    this.mimeTypes = this.configService
+      .get<string>(
+        'ATTACHMENT_MIME_TYPES',
+        'image/png,image/jpeg,image/gif,image/webp,application/pdf,text/plain',
+      )
+      .split(',')
+      .map((type) => type.trim().toLowerCase())
+      .filter(Boolean);
+  }
+
+  async onModuleInit(): Promise<void> {
+    await mkdir(this.dir, { recursive: true });
+    await this.prune();
+    this.pruneTimer = setInterval(
+      () => void this.prune(),
+      Math.min(this.ttl, 3600000),
+    );
+  }
+
+  onModuleDestroy(): void {
+    clearInterval(this.pruneTimer);
+  }
+
+  /**
+   * Validate and store an upload for its owner
+   */
+  async save(
+    content: Buffer,
+    upload: { fileName: string; mimeType: string },
+    owner: string,
+  ): Promise<AttachmentInfo> {
+    const mimeType = upload.mimeType.split(';')[0].trim().toLowerCase();
+    if (!this.isAllowed(mimeType)) {
+      throw new UnsupportedMediaTypeException(
+        `Attachments of type ${mimeType} are not allowed`,
+      );
+    }
+    if (content.length === 0) {
+      throw new BadRequestException('Attachment is empty');
+    }
+    if (content.length > this.maxBytes) {
+      throw new PayloadTooLargeException(
+        `Attachments are limited to ${this.maxBytes} bytes`,
+      );
+    }
+    if (SIGNATURES[mimeType] && !SIGNATURES[mimeType](content)) {
+      throw new UnsupportedMediaTypeException(
+        `Attachment content is not ${mimeType}`,
+      );
+    }
+
+    const now = Date.now();
+    const record: AttachmentRecord = {
+      id: uuidv4(),
+      owner,
+      fileName: upload.fileName.replace(/[/\\]/g, '_').slice(0, 255),
+      mimeType,
+      size: content.length,
+      sha256: createHash('sha256').update(content).digest('hex'),
+      createdAt: now,
+      expiresAt: now + this.ttl,
+    };
+
+    await writeFile(this.contentPath(record.id), content);
+    await writeFile(this.recordPath(record.id), JSON.stringify(record));
+    this.logger.log(
+      `[${owner}] Stored attachment ${record.id} (${mimeType}, ${record.size} bytes)`,
+    );
+    return info(record);
+  }
+
+  /**
+   * An unexpired attachment uploaded by the owner, or null
+   */
+  async find(id: string, owner: string): Promise<AttachmentRecord | null> {
+    const record = await this.readRecord(id);
+    if (!record || record.owner !== owner || record.expiresAt <= Date.now()) {
+      return null;
+    }
+    return record;
+  }
+
+  /**
+   * Load an attachment's content for an `agent` request
+   */
+  async toGateway(record: AttachmentRecord): Promise<GatewayAttachment> {
+    const content = await readFile(this.contentPath(record.id));
+    return {
+      type: record.mimeType.startsWith('image/') ? 'image' : 'file',
+      mimeType: record.mimeType,
+      fileName: record.fileName,
+      content: content.toString('base64'),
+    };
+  }
+
+  private isAllowed(mimeType: string): boolean {
+    return this.mimeTypes.some((allowed) =>
+      allowed.endsWith('/*')
+        ? mimeType.startsWith(allowed.slice(0, -1))
+        : mimeType === allowed,
+    );
+  }
+
+  private async readRecord(id: string): Promise<AttachmentRecord | null> {
+    // Ids are generated by save(); anything else can't name a file here
+    if (!/^[0-9a-f-]{36}$/.test(id)) return null;
+
+    try {
+      return JSON.parse(
+        await readFile(this.recordPath(id), 'utf-8'),
+      ) as AttachmentRecord;
+    } catch {
+      return null;
+    }
+  }
+
+  private async prune(): Promise<void> {
+    try {
+      const now = Date.now();
+      for (const file of await readdir(this.dir)) {
+        if (!file.endsWith('.json')) continue;
+
+        const id = file.slice(0, -'.json'.length);
+        const record = await this.readRecord(id);
+        if (record && record.expiresAt > now) continue;
+
+        await rm(this.contentPath(id), { force: true });
+        await rm(this.recordPath(id), { force: true });
+      }
+    } catch (error) {
+      this.logger.warn(
+        `Failed to prune attachments: ${(error as Error).message}`,
+      );
+    }
+  }
+
+  private contentPath(id: string): string {
+    return join(this.dir, id);
+  }
+
+  private recordPath(id: string): string {
+    return join(this.dir, `${id}.json`);
+  }
+}
+
+function info(record: AttachmentRecord): AttachmentInfo {
+  const { id, fileName, mimeType, size, sha256, createdAt, expiresAt } = record;
+  return { id, fileName, mimeType, size, sha256, createdAt, expiresAt };
+}
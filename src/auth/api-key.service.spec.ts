@@ -0,0 +1,164 @@
+import { ConfigService } from '@nestjs/config';
+import { createHash } from 'crypto';
+import { mkdtempSync, rmSync, writeFileSync } from 'fs';
+import { tmpdir } from 'os';
+import { join } from 'path';
+import { ApiKeyService } from './api-key.service';
+
+function sha256(value: string): string {
+  return createHash('sha256').update(value).digest('hex');
+}
+
+describe('ApiKeyService', () => {
+  let dir: string;
+
+  /**
+   * A service loaded from a keys file holding the given entries
+   */
+  function fromFile(entries: unknown): ApiKeyService {
+    const file = join(dir, 'api-keys.json');
+    writeFileSync(file, JSON.stringify(entries));
+    const service = new ApiKeyService(
+      new ConfigService({ API_KEYS_FILE: file }),
+    );
+    service.onModuleInit();
+    return service;
+  }
+
+  beforeEach(() => {
+    dir = mkdtempSync(join(tmpdir(), 'api-keys-'));
+  });
+
+  afterEach(() => {
+    rmSync(dir, { recursive: true, force: true });
+  });
+
+  it('seeds a default key from API_KEY', () => {
+    const service = new ApiKeyService(new ConfigService({ API_KEY: 'secret' }));
+    service.onModuleInit();
+
+    expect(service.authenticate('secret')).toEqual({
+      id: 'default',
+      label: 'default',
+      keyHash: sha256('secret'),
+      scopes: ['chat', 'history'],
+    });
+  });
+
+  describe('authenticate', () => {
+    let service: ApiKeyService;
+
+    beforeEach(() => {
+      service = fromFile([
+        { id: 'plain', key: 'plain-secret' },
+        { id: 'hashed', keyHash: sha256('hashed-secret').toUpperCase() },
+      ]);
+    });
+
+    it('matches keys by their SHA-256 hash', () => {
+      expect(service.authenticate('plain-secret')?.id).toBe('plain');
+      expect(service.authenticate('hashed-secret')?.id).toBe('hashed');
+    });
+
+    it('keeps only the hash of plain keys', () => {
+      const record = service.authenticate('plain-secret');
+
+      expect(record?.keyHash).toBe(sha256('plain-secret'));
+      expect(JSON.stringify(record)).not.toContain('plain-secret');
+    });
+
+    it('refuses unknown, empty and hash-as-key values', () => {
+      expect(service.authenticate('other')).toBeNull();
+      expect(service.authenticate('')).toBeNull();
+      expect(service.authenticate(sha256('hashed-secret'))).toBeNull();
+    });
+  });
+
+  describe('expiry', () => {
+    const past = new Date(Date.now() - 1000).toISOString();
+    const future = new Date(Date.now() + 60000).toISOString();
+
+    it('refuses keys past their expiry', () => {
+      const service = fromFile([
+        { id: 'expired', key: 'old', expiresAt: past },
+      ]);
+
+      expect(service.authenticate('old')).toBeNull();
+      expect(service.findActive('expired')).toBeNull();
+    });
+
+    it('accepts keys until their expiry', () => {
+      const service = fromFile([
+        { id: 'current', key: 'new', expiresAt: future },
+      ]);
+
+      expect(service.authenticate('new')?.expiresAt).toEqual(new Date(future));
+      expect(service.findActive('current')?.id).toBe('current');
+      expect(service.findActive('unknown')).toBeNull();
+    });
+  });
+
+  describe('keys file', () => {
+    it('reads the claims of an entry', () => {
+      const service = fromFile([
+        {
+          id: 'ops',
+          label: 'Operations',
+          key: 'ops-secret',
+          scopes: ['chat', 'admin'],
+          sessionPrefix: 'ops',
+          gateways: ['staging', 'production'],
+          filters: 'strict',
+        },
+      ]);
+
+      expect(service.findActive('ops')).toEqual({
+        id: 'ops',
+        label: 'Operations',
+        keyHash: sha256('ops-secret'),
+        scopes: ['chat', 'admin'],
+        sessionPrefix: 'ops',
+        gateways: ['staging', 'production'],
+        filters: 'strict',
+        expiresAt: undefined,
+      });
+    });
+
+    it('defaults the label to the id and the scopes to chat and history', () => {
+      const record = fromFile([{ id: 'web', key: 'k' }]).findActive('web');
+
+      expect(record).toMatchObject({
+        label: 'web',
+        scopes: ['chat', 'history'],
+      });
+    });
+
+    it('refuses a file that is not a list', () => {
+      expect(() => fromFile({ id: 'web', key: 'k' })).toThrow(
+        'must contain a JSON array of API keys',
+      );
+    });
+
+    it.each([
+      [{ key: 'k' }, '"id" is required'],
+      [{ id: 'web' }, '"key" or a SHA-256 hex "keyHash" is required'],
+      [
+        { id: 'web', keyHash: 'abc' },
+        '"key" or a SHA-256 hex "keyHash" is required',
+      ],
+      [
+        { id: 'web', key: 'k', scopes: ['chat', 'root'] },
+        '"scopes" must be a list of chat, history, admin',
+      ],
+      [{ id: 'web', key: 'k', sessionPrefix: 1 }, '"sessionPrefix" must be'],
+      [{ id: 'web', key: 'k', gateways: [] }, '"gateways" must be a list'],
+      [{ id: 'web', key: 'k', gateways: [''] }, '"gateways" must be a list'],
+      [{ id: 'web', key: 'k', filters: '' }, '"filters" must be a filter'],
+      [{ id: 'web', key: 'k', expiresAt: 'soon' }, '"expiresAt" must be'],
+    ])('refuses %j', (entry, message) => {
+      expect(() => fromFile([{ id: 'ok', key: 'ok' }, entry])).toThrow(
+        `api-keys.json[1]: ${message}`,
+      );
+    });
+  });
+});
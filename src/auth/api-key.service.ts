@@ -0,0 +1,175 @@
+import { Injectable, Logger, OnModuleInit } from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import { createHash, timingSafeEqual } from 'crypto';
+import { readFileSync } from 'fs';
+import {
+  API_KEY_SCOPES,
+  ApiKeyRecord,
+  ApiKeyScope,
+} from './interfaces/api-key.interface';
+
+interface ApiKeyFileEntry {
+  id?: unknown;
+  label?: unknown;
+  key?: unknown;
+  keyHash?: unknown;
+  scopes?: unknown;
+  sessionPrefix?: unknown;
+  gateways?: unknown;
+  filters?: unknown;
+  expiresAt?: unknown;
+}
+
+/**
+ * API keys loaded from API_KEYS_FILE, or seeded in memory from API_KEY
+ */
+@Injectable()
+export class ApiKeyService implements OnModuleInit {
+  private readonly logger = new Logger(ApiKeyService.name);
+  private readonly keys = new Map<string, ApiKeyRecord>();
+
+  constructor(private readonly configService: ConfigService) {}
+
+  onModuleInit() {
+    const keysFile = this.configService.get<string>('API_KEYS_FILE', '');
+    const records = keysFile ? this.loadFile(keysFile) : this.seedFromEnv();
+
+    records.forEach((record) => this.keys.set(record.id, record));
+    this.logger.log(
+      `Loaded ${this.keys.size} API key(s) from ${keysFile || 'API_KEY'}`,
+    );
+    if (this.keys.size === 0) {
+      this.logger.warn('No API keys configured - token requests will fail');
+    }
+  }
+
+  /**
+   * Find the record for a raw API key, ignoring expired keys
+   */
+  authenticate(apiKey: string): ApiKeyRecord | null {
+    if (!apiKey) return null;
+
+    const hash = Buffer.from(hashKey(apiKey), 'hex');
+    for (const record of this.keys.values()) {
+      const candidate = Buffer.from(record.keyHash, 'hex');
+      if (
+        candidate.length === hash.length &&
+        timingSafeEqual(candidate, hash)
+      ) {
+        return this.isActive(record) ? record : null;
+      }
+    }
+    return null;
+  }
+
+  /**
+   * Look up an active key by id (used to re-check issued tokens)
+   */
+  findActive(id: string): ApiKeyRecord | null {
+    const record = this.keys.get(id);
+    return record && this.isActive(record) ? record : null;
+  }
+
+  private isActive(record: ApiKeyRecord): boolean {
+    return !record.expiresAt || record.expiresAt.getTime() > Date.now();
+  }
+
+  private seedFromEnv(): ApiKeyRecord[] {
+    const apiKey = this.configService.get<string>('API_KEY', '');
+    if (!apiKey) return [];
+
+    return [
+      {
+        id: 'default',
+        label: 'default',
+        keyHash: hashKey(apiKey),
+        scopes: ['chat', 'history'],
+      },
+    ];
+  }
+
+  private loadFile(path: string): ApiKeyRecord[] {
+    const entries = JSON.parse(readFileSync(path, 'utf-8')) as unknown;
+    if (!Array.isArray(entries)) {
+      throw new Error(`${path} must contain a JSON array of API keys`);
+    }
+
+    return entries.map((entry: ApiKeyFileEntry, index) =>
+      this.parseEntry(entry, `${path}[${index}]`),
+    );
+  }
+
+  private parseEntry(entry: ApiKeyFileEntry, where: string): ApiKeyRecord {
+    if (typeof entry.id !== 'string' || !entry.id) {
+      throw new Error(`${where}: "id" is required`);
+    }
+
+    let keyHash: string;
+    if (
+      typeof entry.keyHash === 'string' &&
+      /^[0-9a-f]{64}$/i.test(entry.keyHash)
+    ) {
+      keyHash = entry.keyHash.toLowerCase();
+    } else if (typeof entry.key === 'string' && entry.key) {
+      keyHash = hashKey(entry.key);
+    } else {
+      throw new Error(`${where}: "key" or a SHA-256 hex "keyHash" is required`);
+    }
+
+    const scopes = entry.scopes ?? ['chat', 'history'];
+    if (
+      !Array.isArray(scopes) ||
+      !scopes.every((scope) => API_KEY_SCOPES.includes(scope as ApiKeyScope))
+    ) {
+      throw new Error(
+        `${where}: "scopes" must be a list of ${API_KEY_SCOPES.join(', ')}`,
+      );
+    }
+
+    if (
+      entry.sessionPrefix !== undefined &&
+      typeof entry.sessionPrefix !== 'string'
+    ) {
+      throw new Error(`${where}: "sessionPrefix" must be a string`);
+    }
+
+    if (
+      entry.gateways !== undefined &&
+      (!Array.isArray(entry.gateways) ||
+        entry.gateways.length === 0 ||
+        !entry.gateways.every((name) => typeof name === 'string' && name))
+    ) {
+      throw new Error(`${where}: "gateways" must be a list of gateway names`);
+    }
+
+    if (
+      entry.filters !== undefined &&
+      (typeof entry.filters !== 'string' || !entry.filters)
+    ) {
+      throw new Error(`${where}: "filters" must be a filter policy name`);
+    }
+
+    let expiresAt: Date | undefined;
+    if (entry.expiresAt !== undefined) {
+      expiresAt = new Date(entry.expiresAt as string);
+      if (Number.isNaN(expiresAt.getTime())) {
+        throw new Error(`${where}: "expiresAt" must be an ISO date`);
+      }
+    }
+
+    return {
+      id: entry.id,
+      label: typeof entry.label === 'string' ? entry.label : entry.id,
+      keyHash,
+      scopes: scopes as ApiKeyScope[],
+      sessionPrefix: entry.sessionPrefix,
+      gateways: entry.gateways as string[] | undefined,
+      filters: entry.filters,
+      expiresAt,
+    };
+  }
+}
+
+function hashKey(apiKey: string): string {
+  return createHash('sha256').update(apiKey).digest('hex');
+}
@@ -1,6 +1,8 @@
 import { Controller, Post, Body, HttpCode, HttpStatus } from '@nestjs/common';
 import { AuthService } from './auth.service';
 import { GetTokenDto } from './dto/get-token.dto';
+import { RefreshTokenDto } from './dto/refresh-token.dto';
+import { RevokeTokenDto } from './dto/revoke-token.dto';
 
 @Controller('auth')
 export class AuthController {
@@ -16,4 +18,26 @@ export class AuthController {
   async getToken(@Body() dto: GetTokenDto) {
     return this.authService.getToken(dto.apiKey);
   }
+
+  /**
+   * Rotate a refresh token for a new token pair
+   * POST /auth/refresh
+   * Body: { "refreshToken": "..." }
+   */
+  @Post('refresh')
+  @HttpCode(HttpStatus.OK)
+  async refresh(@Body() dto: RefreshTokenDto) {
+    return this.authService.refresh(dto.refreshToken);
+  }
+
+  /**
+   * Revoke an access or refresh token
+   * POST /auth/revoke
+   * Body: { "token": "..." }
+   */
+  @Post('revoke')
+  @HttpCode(HttpStatus.OK)
+  async revoke(@Body() dto: RevokeTokenDto) {
+    return this.authService.revoke(dto.token);
+  }
 }
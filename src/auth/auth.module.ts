@@ -1,11 +1,13 @@
 import { Module } from '@nestjs/common';
 import { AuthController } from './auth.controller';
+import { ApiKeyService } from './api-key.service';
 import { AuthService } from './auth.service';
 import { JwtStrategy } from './jwt.strategy';
+import { RevocationService } from './revocation.service';
 
 @Module({
   controllers: [AuthController],
-  providers: [AuthService, JwtStrategy],
+  providers: [AuthService, ApiKeyService, RevocationService, JwtStrategy],
   exports: [AuthService],
 })
 export class AuthModule {}
@@ -0,0 +1,173 @@
+import { UnauthorizedException } from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import { JwtService } from '@nestjs/jwt';
+import { MemoryStateStore } from '../state/memory-state-store';
+import { ApiKeyService } from './api-key.service';
+import { AuthService, parseDuration } from './auth.service';
+import { RevocationService } from './revocation.service';
+import {
+  IssuedTokens,
+  TokenPayload,
+} from './interfaces/token-payload.interface';
+
+describe('parseDuration', () => {
+  it.each([
+    ['90', 90],
+    ['45s', 45],
+    ['30m', 1800],
+    ['12h', 43200],
+    [' 7d ', 604800],
+    ['0', 0],
+  ])('reads %j as %d seconds', (value, seconds) => {
+    expect(parseDuration(value)).toBe(seconds);
+  });
+
+  it.each(['', '1.5h', '-5m', '2w', 'soon'])('rejects %j', (value) => {
+    expect(() => parseDuration(value)).toThrow(`Invalid duration: ${value}`);
+  });
+});
+
+describe('AuthService', () => {
+  const jwtService = new JwtService({ secret: 'test-secret' });
+  let store: MemoryStateStore;
+  let apiKeys: ApiKeyService;
+  let revocations: RevocationService;
+  let auth: AuthService;
+
+  beforeEach(async () => {
+    const config = new ConfigService({ API_KEY: 'test-key' });
+    store = new MemoryStateStore('a');
+    apiKeys = new ApiKeyService(config);
+    apiKeys.onModuleInit();
+    revocations = new RevocationService(store);
+    await revocations.onModuleInit();
+    auth = new AuthService(jwtService, config, apiKeys, revocations);
+  });
+
+  afterEach(async () => {
+    await store.close();
+  });
+
+  it('issues a token pair for a valid API key', async () => {
+    const tokens = await auth.getToken('test-key');
+
+    expect(tokens).toMatchObject({ expiresIn: '30m', refreshExpiresIn: '7d' });
+    await expect(auth.verifyToken(tokens.accessToken)).resolves.toMatchObject({
+      sub: 'default',
+      type: 'access',
+      scopes: ['chat', 'history'],
+    });
+    await expect(auth.getToken('wrong-key')).rejects.toThrow(
+      UnauthorizedException,
+    );
+  });
+
+  describe('refresh', () => {
+    it('exchanges a refresh token for a new pair', async () => {
+      const { refreshToken } = await auth.getToken('test-key');
+
+      const tokens = await auth.refresh(refreshToken);
+
+      expect(tokens.refreshToken).not.toBe(refreshToken);
+      await expect(auth.validateToken(tokens.accessToken)).resolves.toBe(true);
+      await expect(auth.refresh(tokens.refreshToken)).resolves.toBeDefined();
+    });
+
+    it('ends the family when a spent refresh token is replayed', async () => {
+      const { refreshToken } = await auth.getToken('test-key');
+      const rotated = await auth.refresh(refreshToken);
+
+      await expect(auth.refresh(refreshToken)).rejects.toThrow(
+        'Refresh token reuse detected',
+      );
+      // The thief's replay also locks out whoever holds the rotated token
+      await expect(auth.refresh(rotated.refreshToken)).rejects.toThrow(
+        'Refresh token reuse detected',
+      );
+    });
+
+    it('lets only one of two concurrent refreshes succeed', async () => {
+      const { refreshToken } = await auth.getToken('test-key');
+
+      const results = await Promise.allSettled([
+        auth.refresh(refreshToken),
+        auth.refresh(refreshToken),
+      ]);
+
+      expect(results.map(({ status }) => status).sort()).toEqual([
+        'fulfilled',
+        'rejected',
+      ]);
+      const [winner] = results.filter(
+        (result): result is PromiseFulfilledResult<IssuedTokens> =>
+          result.status === 'fulfilled',
+      );
+      await expect(auth.refresh(winner.value.refreshToken)).rejects.toThrow(
+        'Refresh token reuse detected',
+      );
+    });
+
+    it('refuses access tokens and tampered tokens', async () => {
+      const { accessToken, refreshToken } = await auth.getToken('test-key');
+
+      await expect(auth.refresh(accessToken)).rejects.toThrow(
+        'Invalid or expired refresh token',
+      );
+      await expect(auth.refresh(`${refreshToken}x`)).rejects.toThrow(
+        'Invalid or expired refresh token',
+      );
+    });
+
+    it('ends the family once the API key is gone', async () => {
+      const { refreshToken } = await auth.getToken('test-key');
+      const family = jwtService.decode<{ family: string }>(refreshToken).family;
+      jest.spyOn(apiKeys, 'findActive').mockReturnValue(null);
+
+      await expect(auth.refresh(refreshToken)).rejects.toThrow(
+        'API key is no longer valid',
+      );
+      await expect(
+        store.get(`refresh-family:${family}`),
+      ).resolves.toBeUndefined();
+    });
+  });
+
+  describe('revoke', () => {
+    it('denies a revoked access token', async () => {
+      const { accessToken } = await auth.getToken('test-key');
+
+      await expect(auth.revoke(accessToken)).resolves.toEqual({
+        revoked: true,
+      });
+
+      await expect(auth.verifyToken(accessToken)).resolves.toBeNull();
+      const { jti } = jwtService.decode<TokenPayload>(accessToken);
+      expect(revocations.isRevoked(jti)).toBe(true);
+    });
+
+    it('ends the family of a revoked refresh token', async () => {
+      const { refreshToken } = await auth.getToken('test-key');
+
+      await auth.revoke(refreshToken);
+
+      await expect(auth.refresh(refreshToken)).rejects.toThrow(
+        UnauthorizedException,
+      );
+    });
+
+    it('revokes tokens that have already expired', async () => {
+      const expired = jwtService.sign(
+        { sub: 'default', type: 'access', jti: 'old', scopes: [] },
+        { expiresIn: -10 },
+      );
+
+      await expect(auth.revoke(expired)).resolves.toEqual({ revoked: true });
+    });
+
+    it('refuses tokens it did not sign', async () => {
+      const forged = new JwtService({ secret: 'other' }).sign({ jti: 'x' });
+
+      await expect(auth.revoke(forged)).rejects.toThrow('Invalid token');
+    });
+  });
+});
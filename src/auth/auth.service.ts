@@ -1,47 +1,248 @@
 import { Injectable, UnauthorizedException } from '@nestjs/common';
 import { JwtService } from '@nestjs/jwt';
 import { ConfigService } from '@nestjs/config';
+import { v4 as uuidv4 } from 'uuid';
+import { ApiKeyService } from './api-key.service';
+import { RevocationService } from './revocation.service';
+import { ApiKeyRecord, ApiKeyScope } from './interfaces/api-key.interface';
+import {
+  IssuedTokens,
+  RefreshTokenPayload,
+  TokenPayload,
+} from './interfaces/token-payload.interface';
 
 @Injectable()
 export class AuthService {
-  private readonly apiKey: string;
-
   constructor(
     private readonly jwtService: JwtService,
     private readonly configService: ConfigService,
-  ) {
-    this.apiKey = this.configService.get<string>('API_KEY', '');
-  }
+    private readonly apiKeyService: ApiKeyService,
+    private readonly revocationService: RevocationService,
+  ) {}
 
   /**
-   * Validate API key and issue JWT token
+   * Validate API key and issue access and refresh tokens carrying the
+   * key's claims
    */
-  async getToken(apiKey: string): Promise<{ accessToken: string; expiresIn: string }> {
-    if (!apiKey || apiKey !== this.apiKey) {
+  async getToken(apiKey: string): Promise<IssuedTokens> {
+    const record = this.apiKeyService.authenticate(apiKey);
+    if (!record) {
       throw new UnauthorizedException('Invalid API key');
     }
 
-    const payload = {
-      sub: 'chat-client',
-      type: 'access',
-      iat: Math.floor(Date.now() / 1000),
-    };
+    return this.issueTokens(record, uuidv4());
+  }
+
+  /**
+   * Exchange a refresh token for a new token pair. The presented refresh
+   * token is spent; replaying it revokes every token in its family.
+   */
+  async refresh(refreshToken: string): Promise<IssuedTokens> {
+    let payload: RefreshTokenPayload;
+    try {
+      payload =
+        await this.jwtService.verifyAsync<RefreshTokenPayload>(refreshToken);
+    } catch {
+      throw new UnauthorizedException('Invalid or expired refresh token');
+    }
 
-    const accessToken = this.jwtService.sign(payload);
-    const expiresIn = this.configService.get<string>('JWT_EXPIRATION', '30m');
+    if (payload.type !== 'refresh') {
+      throw new UnauthorizedException('Invalid or expired refresh token');
+    }
 
-    return { accessToken, expiresIn };
+    if (this.revocationService.isRevoked(payload.jti)) {
+      await this.revocationService.endFamily(payload.family);
+      throw new UnauthorizedException('Refresh token reuse detected');
+    }
+
+    const record = this.apiKeyService.findActive(payload.sub);
+    if (!record) {
+      await this.revocationService.endFamily(payload.family);
+      throw new UnauthorizedException('API key is no longer valid');
+    }
+
+    const tokens = await this.issueTokens(record, payload.family, payload.jti);
+    await this.revokePayload(payload);
+    return tokens;
+  }
+
+  /**
+   * Revoke an access or refresh token (revoking a refresh token also
+   * ends its family, so it can no longer be rotated)
+   */
+  async revoke(token: string): Promise<{ revoked: boolean }> {
+    let payload: TokenPayload | RefreshTokenPayload;
+    try {
+      payload = await this.jwtService.verifyAsync(token, {
+        ignoreExpiration: true,
+      });
+    } catch {
+      throw new UnauthorizedException('Invalid token');
+    }
+
+    if (!payload.jti) {
+      return { revoked: false };
+    }
+
+    await this.revokePayload(payload);
+    if (payload.type === 'refresh') {
+      await this.revocationService.endFamily(payload.family);
+    }
+
+    return { revoked: true };
   }
 
   /**
    * Validate JWT token (used by WebSocket gateway)
    */
   async validateToken(token: string): Promise<boolean> {
+    return (await this.verifyToken(token)) !== null;
+  }
+
+  /**
+   * Verify JWT token and return its claims, or null if invalid, revoked,
+   * or if the issuing API key has since expired or been removed
+   */
+  async verifyToken(token: string): Promise<TokenPayload | null> {
     try {
-      const payload = this.jwtService.verify(token);
-      return payload && payload.sub === 'chat-client';
+      const payload = await this.jwtService.verifyAsync<TokenPayload>(token);
+      if (
+        payload?.type !== 'access' ||
+        !Array.isArray(payload.scopes) ||
+        !this.isActive(payload)
+      ) {
+        return null;
+      }
+      return payload;
     } catch {
-      return false;
+      return null;
     }
   }
+
+  /**
+   * Whether already-verified claims are still honoured (not revoked and
+   * the issuing API key still active)
+   */
+  isActive(claims: TokenPayload): boolean {
+    return (
+      !this.revocationService.isRevoked(claims.jti) &&
+      this.apiKeyService.findActive(claims.sub) !== null
+    );
+  }
+
+  /**
+   * Whether token claims grant a scope
+   */
+  hasScope(claims: TokenPayload, scope: ApiKeyScope): boolean {
+    return claims.scopes.includes(scope);
+  }
+
+  /**
+   * Sign a new token pair, making its refresh token the current one of the
+   * family (in place of `spent`, the refresh token being exchanged)
+   */
+  private async issueTokens(
+    record: ApiKeyRecord,
+    family: string,
+    spent?: string,
+  ): Promise<IssuedTokens> {
+    const access = this.lifetime(record, 'JWT_EXPIRATION', '30m');
+    const accessPayload: TokenPayload = {
+      sub: record.id,
+      type: 'access',
+      jti: uuidv4(),
+      label: record.label,
+      scopes: record.scopes,
+      sessionPrefix: record.sessionPrefix,
+      gateways: record.gateways,
+      filters: record.filters,
+      iat: Math.floor(Date.now() / 1000),
+    };
+
+    const refresh = this.lifetime(record, 'REFRESH_TOKEN_EXPIRATION', '7d');
+    const refreshPayload: RefreshTokenPayload = {
+      sub: record.id,
+      type: 'refresh',
+      jti: uuidv4(),
+      family,
+      iat: Math.floor(Date.now() / 1000),
+    };
+
+    const accessToken = this.jwtService.sign(accessPayload, {
+      expiresIn: access.seconds,
+    });
+    const refreshToken = this.jwtService.sign(refreshPayload, {
+      expiresIn: refresh.seconds,
+    });
+
+    const refreshExpiresAt = Date.now() + refresh.seconds * 1000;
+    if (spent === undefined) {
+      await this.revocationService.setCurrentRefresh(
+        family,
+        refreshPayload.jti,
+        refreshExpiresAt,
+      );
+    } else if (
+      !(await this.revocationService.rotateRefresh(
+        family,
+        spent,
+        refreshPayload.jti,
+        refreshExpiresAt,
+      ))
+    ) {
+      await this.revocationService.endFamily(family);
+      throw new UnauthorizedException('Refresh token reuse detected');
+    }
+
+    return {
+      accessToken,
+      expiresIn: access.label,
+      refreshToken,
+      refreshExpiresIn: refresh.label,
+    };
+  }
+
+  /**
+   * Configured token lifetime, capped so it never outlives the API key
+   */
+  private lifetime(
+    record: ApiKeyRecord,
+    configKey: string,
+    fallback: string,
+  ): { seconds: number; label: string } {
+    const label = this.configService.get<string>(configKey, fallback);
+    const seconds = parseDuration(label);
+
+    if (record.expiresAt) {
+      const remaining = Math.floor(
+        (record.expiresAt.getTime() - Date.now()) / 1000,
+      );
+      if (remaining < seconds) {
+        return { seconds: remaining, label: `${remaining}s` };
+      }
+    }
+
+    return { seconds, label };
+  }
+
+  private async revokePayload(payload: {
+    jti: string;
+    exp?: number;
+  }): Promise<void> {
+    const expiresAt = payload.exp ? payload.exp * 1000 : Date.now();
+    await this.revocationService.revoke(payload.jti, expiresAt);
+  }
+}
+
+/**
+ * Parse a JWT-style duration ("90", "45s", "30m", "12h", "7d") into seconds
+ */
+export function parseDuration(value: string): number {
+  const match = /^(\d+)\s*([smhd]?)$/.exec(value.trim());
+  if (!match) {
+    throw new Error(`Invalid duration: ${value}`);
+  }
+
+  const units = { '': 1, s: 1, m: 60, h: 3600, d: 86400 };
+  return Number(match[1]) * units[match[2] as keyof typeof units];
 }
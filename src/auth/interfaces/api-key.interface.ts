@@ -0,0 +1,20 @@
+export type ApiKeyScope = 'chat' | 'history' | 'admin';
+
+export const API_KEY_SCOPES: readonly ApiKeyScope[] = [
+  'chat',
+  'history',
+  'admin',
+];
+
+export interface ApiKeyRecord {
+  id: string;
+  label: string;
+  keyHash: string;
+  scopes: ApiKeyScope[];
+  sessionPrefix?: string;
+  /** Gateway targets the key may use, the first being its default */
+  gateways?: string[];
+  /** Content filter policy applied to the key's messages */
+  filters?: string;
+  expiresAt?: Date;
+}
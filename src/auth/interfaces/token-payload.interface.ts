@@ -0,0 +1,30 @@
+import { ApiKeyScope } from './api-key.interface';
+
+export interface TokenPayload {
+  sub: string;
+  type: 'access';
+  jti: string;
+  label: string;
+  scopes: ApiKeyScope[];
+  sessionPrefix?: string;
+  gateways?: string[];
+  filters?: string;
+  iat?: number;
+  exp?: number;
+}
+
+export interface RefreshTokenPayload {
+  sub: string;
+  type: 'refresh';
+  jti: string;
+  family: string;
+  iat?: number;
+  exp?: number;
+}
+
+export interface IssuedTokens {
+  accessToken: string;
+  expiresIn: string;
+  refreshToken: string;
+  refreshExpiresIn: string;
+}
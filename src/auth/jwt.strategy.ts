@@ -1,11 +1,16 @@
-import { Injectable } from '@nestjs/common';
+import { Injectable, UnauthorizedException } from '@nestjs/common';
 import { PassportStrategy } from '@nestjs/passport';
 import { ExtractJwt, Strategy } from 'passport-jwt';
 import { ConfigService } from '@nestjs/config';
+import { AuthService } from './auth.service';
+import { TokenPayload } from './interfaces/token-payload.interface';
 
 @Injectable()
 export class JwtStrategy extends PassportStrategy(Strategy) {
-  constructor(configService: ConfigService) {
+  constructor(
+    configService: ConfigService,
+    private readonly authService: AuthService,
+  ) {
     const secret = configService.get<string>('JWT_SECRET') || 'default-secret';
     super({
       jwtFromRequest: ExtractJwt.fromAuthHeaderAsBearerToken(),
@@ -14,7 +19,19 @@ export class JwtStrategy extends PassportStrategy(Strategy) {
     });
   }
 
-  async validate(payload: any) {
-    return { sub: payload.sub, type: payload.type };
+  validate(payload: TokenPayload) {
+    if (payload.type !== 'access' || !this.authService.isActive(payload)) {
+      throw new UnauthorizedException('Token revoked or invalid');
+    }
+
+    return {
+      sub: payload.sub,
+      type: payload.type,
+      label: payload.label,
+      scopes: payload.scopes,
+      sessionPrefix: payload.sessionPrefix,
+      gateways: payload.gateways,
+      filters: payload.filters,
+    };
   }
 }
@@ -0,0 +1,110 @@
+import { MemoryStateStore } from '../state/memory-state-store';
+import { RevocationService } from './revocation.service';
+
+/**
+ * Let published revocations reach their subscribers
+ */
+async function settle(): Promise<void> {
+  for (let i = 0; i < 3; i++) {
+    await new Promise((resolve) => setImmediate(resolve));
+  }
+}
+
+describe('RevocationService', () => {
+  let store: MemoryStateStore;
+  let revocations: RevocationService;
+
+  beforeEach(async () => {
+    store = new MemoryStateStore('a');
+    revocations = new RevocationService(store);
+    await revocations.onModuleInit();
+  });
+
+  afterEach(async () => {
+    await store.close();
+  });
+
+  describe('denylist', () => {
+    it('denies a token id until it would have expired', async () => {
+      const now = Date.now();
+      jest.useFakeTimers({ now, doNotFake: ['setImmediate'] });
+      try {
+        await revocations.revoke('jti-1', now + 1000);
+        expect(revocations.isRevoked('jti-1')).toBe(true);
+        expect(revocations.isRevoked('jti-2')).toBe(false);
+
+        jest.setSystemTime(now + 1000);
+        expect(revocations.isRevoked('jti-1')).toBe(false);
+      } finally {
+        jest.useRealTimers();
+      }
+    });
+
+    it('does not store tokens that have already expired', async () => {
+      await revocations.revoke('jti-1', Date.now() - 1);
+
+      expect(revocations.isRevoked('jti-1')).toBe(false);
+      expect(await store.entries('revoked:')).toEqual([]);
+    });
+
+    it('shares revocations with the other nodes', async () => {
+      const other = new RevocationService(store);
+      await other.onModuleInit();
+
+      await revocations.revoke('jti-1', Date.now() + 60000);
+      await settle();
+
+      expect(other.isRevoked('jti-1')).toBe(true);
+    });
+
+    it('loads the revocations made before it started', async () => {
+      await revocations.revoke('jti-1', Date.now() + 60000);
+
+      const restarted = new RevocationService(store);
+      await restarted.onModuleInit();
+
+      expect(restarted.isRevoked('jti-1')).toBe(true);
+    });
+  });
+
+  describe('refresh families', () => {
+    const expiresAt = () => Date.now() + 60000;
+
+    beforeEach(async () => {
+      await revocations.setCurrentRefresh('family', 'jti-1', expiresAt());
+    });
+
+    it('rotates from the current refresh token', async () => {
+      await expect(
+        revocations.rotateRefresh('family', 'jti-1', 'jti-2', expiresAt()),
+      ).resolves.toBe(true);
+      await expect(store.get('refresh-family:family')).resolves.toBe('jti-2');
+    });
+
+    it('refuses to rotate from a spent refresh token', async () => {
+      await revocations.rotateRefresh('family', 'jti-1', 'jti-2', expiresAt());
+
+      await expect(
+        revocations.rotateRefresh('family', 'jti-1', 'jti-3', expiresAt()),
+      ).resolves.toBe(false);
+      await expect(store.get('refresh-family:family')).resolves.toBe('jti-2');
+    });
+
+    it('lets only one of two rotations from the same token win', async () => {
+      const results = await Promise.all([
+        revocations.rotateRefresh('family', 'jti-1', 'jti-2', expiresAt()),
+        revocations.rotateRefresh('family', 'jti-1', 'jti-3', expiresAt()),
+      ]);
+
+      expect(results.sort()).toEqual([false, true]);
+    });
+
+    it('refuses to rotate an ended family', async () => {
+      await revocations.endFamily('family');
+
+      await expect(
+        revocations.rotateRefresh('family', 'jti-1', 'jti-2', expiresAt()),
+      ).resolves.toBe(false);
+    });
+  });
+});
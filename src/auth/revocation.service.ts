@@ -0,0 +1,106 @@
+import { Injectable, Logger, OnModuleInit } from '@nestjs/common';
+import { StateStore } from '../state/state-store';
+
+interface RevokedToken {
+  jti: string;
+  expiresAt: number;
+}
+
+/**
+ * jti denylist and refresh token families, shared through the state store.
+ * Each family tracks the one refresh token that may still be used, so
+ * replaying a rotated token is detected and ends the whole family.
+ * Revocations are mirrored locally so access token checks stay synchronous.
+ */
+@Injectable()
+export class RevocationService implements OnModuleInit {
+  private readonly logger = new Logger(RevocationService.name);
+  private readonly revoked = new Map<string, number>();
+
+  constructor(private readonly store: StateStore) {}
+
+  async onModuleInit(): Promise<void> {
+    await this.store.subscribe('revocations', (message) => {
+      const token = message as RevokedToken;
+      this.remember(token.jti, token.expiresAt);
+    });
+
+    const revoked = await this.store.entries<number>('revoked:');
+    revoked.forEach(([key, expiresAt]) =>
+      this.remember(key.slice('revoked:'.length), expiresAt),
+    );
+    if (revoked.length > 0) {
+      this.logger.log(`Loaded ${revoked.length} revoked tokens`);
+    }
+  }
+
+  /**
+   * Deny a token id until it would have expired anyway
+   */
+  async revoke(jti: string, expiresAt: number): Promise<void> {
+    this.remember(jti, expiresAt);
+
+    const ttl = expiresAt - Date.now();
+    if (ttl <= 0) return;
+
+    await this.store.set(`revoked:${jti}`, expiresAt, ttl);
+    await this.store.publish('revocations', { jti, expiresAt });
+  }
+
+  isRevoked(jti: string): boolean {
+    const expiresAt = this.revoked.get(jti);
+    return expiresAt !== undefined && expiresAt > Date.now();
+  }
+
+  /**
+   * Record the refresh token that is now current for its family
+   */
+  async setCurrentRefresh(
+    family: string,
+    jti: string,
+    expiresAt: number,
+  ): Promise<void> {
+    await this.store.set(
+      `refresh-family:${family}`,
+      jti,
+      Math.max(expiresAt - Date.now(), 1),
+    );
+  }
+
+  /**
+   * Make a refresh token current in place of the spent one, in a single
+   * step so two refreshes with the same token cannot both succeed;
+   * false means the spent token was no longer current (it was reused)
+   */
+  async rotateRefresh(
+    family: string,
+    spent: string,
+    jti: string,
+    expiresAt: number,
+  ): Promise<boolean> {
+    return this.store.compareAndSet(
+      `refresh-family:${family}`,
+      spent,
+      jti,
+      Math.max(expiresAt - Date.now(), 1),
+    );
+  }
+
+  async endFamily(family: string): Promise<void> {
+    await this.store.delete(`refresh-family:${family}`);
+  }
+
+  private remember(jti: string, expiresAt: number): void {
+    this.prune();
+    if (expiresAt > Date.now()) {
+      this.revoked.set(jti, expiresAt);
+    }
+  }
+
+  private prune(): void {
+    const now = Date.now();
+    this.revoked.forEach((expiresAt, jti) => {
+      if (expiresAt <= now) this.revoked.delete(jti);
+    });
+  }
+}
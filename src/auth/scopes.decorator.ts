@@ -0,0 +1,10 @@
+import { SetMetadata } from '@nestjs/common';
+import { ApiKeyScope } from './interfaces/api-key.interface';
+
+export const SCOPES_KEY = 'scopes';
+
+/**
+ * Token scopes a route requires, enforced by ScopesGuard
+ */
+export const Scopes = (...scopes: ApiKeyScope[]) =>
+  SetMetadata(SCOPES_KEY, scopes);
@@ -0,0 +1,36 @@
+import {
+  CanActivate,
+  ExecutionContext,
+  ForbiddenException,
+  Injectable,
+} from '@nestjs/common';
+import { Reflector } from '@nestjs/core';
+import { ApiKeyScope } from './interfaces/api-key.interface';
+import { TokenPayload } from './interfaces/token-payload.interface';
+import { SCOPES_KEY } from './scopes.decorator';
+
+/**
+ * Allows a request only if the JWT (validated by JwtStrategy) holds every
+ * scope named with @Scopes()
+ */
+@Injectable()
+export class ScopesGuard implements CanActivate {
+  constructor(private readonly reflector: Reflector) {}
+
+  canActivate(context: ExecutionContext): boolean {
+    const required =
+      this.reflector.getAllAndOverride<ApiKeyScope[]>(SCOPES_KEY, [
+        context.getHandler(),
+        context.getClass(),
+      ]) ?? [];
+    const { user } = context
+      .switchToHttp()
+      .getRequest<{ user?: Pick<TokenPayload, 'scopes'> }>();
+
+    const missing = required.find((scope) => !user?.scopes.includes(scope));
+    if (missing) {
+      throw new ForbiddenException(`Missing scope: ${missing}`);
+    }
+    return true;
+  }
+}
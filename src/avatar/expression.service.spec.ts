@@ -0,0 +1,91 @@
+import { ConfigService } from '@nestjs/config';
+import { AgentEventPayload } from '../chat/agent-event';
+import { ExpressionEvent } from '../chat/protocol/chat-protocol';
+import { ExpressionService } from './expression.service';
+
+describe('ExpressionService', () => {
+  let expressions: ExpressionService;
+  let sent: ExpressionEvent[];
+
+  const observe = (payload: Omit<AgentEventPayload, 'runId'>) =>
+    expressions.observe('client-1', { runId: 'run-1', ...payload });
+  const shown = () => sent.map(({ expression }) => expression);
+
+  beforeEach(() => {
+    jest.useFakeTimers();
+    expressions = new ExpressionService(
+      new ConfigService({ EXPRESSION_ERROR_HOLD: 1000 }),
+    );
+    sent = [];
+    expressions.register('client-1', (event) => sent.push(event));
+  });
+
+  afterEach(() => {
+    expressions.release('client-1');
+    jest.useRealTimers();
+  });
+
+  it('starts clients idle', () => {
+    expect(sent).toEqual([{ expression: 'idle', at: Date.now() }]);
+  });
+
+  it('follows a run from thinking through speaking back to idle', () => {
+    observe({ stream: 'lifecycle', data: { phase: 'start' } });
+    observe({ stream: 'assistant', data: { delta: 'Hel' } });
+    observe({ stream: 'assistant', data: { delta: 'lo' } });
+    observe({ stream: 'lifecycle', data: { phase: 'end' } });
+
+    expect(shown()).toEqual(['idle', 'thinking', 'speaking', 'idle']);
+    expect(sent[2]).toMatchObject({ runId: 'run-1' });
+  });
+
+  it('shows tool use by tool, then thinking once it returns', () => {
+    observe({ stream: 'tool', data: { phase: 'start', name: 'search' } });
+    observe({ stream: 'tool', data: { phase: 'update', name: 'search' } });
+    observe({ stream: 'tool', data: { phase: 'start', name: 'fetch' } });
+    observe({ stream: 'tool', data: { phase: 'result', name: 'fetch' } });
+
+    expect(sent.slice(1)).toEqual([
+      expect.objectContaining({ expression: 'tool_using', tool: 'search' }),
+      expect.objectContaining({ expression: 'tool_using', tool: 'fetch' }),
+      expect.objectContaining({ expression: 'thinking' }),
+    ]);
+  });
+
+  it('treats reasoning as thinking and ignores empty deltas', () => {
+    observe({ stream: 'reasoning', data: { delta: 'hmm' } });
+    observe({ stream: 'assistant', data: { delta: '' } });
+    observe({ stream: 'compaction', data: { phase: 'start' } });
+
+    expect(shown()).toEqual(['idle', 'thinking']);
+  });
+
+  it('holds an error before going idle', () => {
+    observe({ stream: 'lifecycle', data: { phase: 'error' } });
+    expect(shown()).toEqual(['idle', 'error']);
+
+    jest.advanceTimersByTime(999);
+    expect(shown()).toEqual(['idle', 'error']);
+
+    jest.advanceTimersByTime(1);
+    expect(shown()).toEqual(['idle', 'error', 'idle']);
+  });
+
+  it('drops the pending idle when the next run starts', () => {
+    observe({ stream: 'lifecycle', data: { phase: 'error' } });
+    expressions.set('client-1', 'thinking');
+
+    jest.advanceTimersByTime(1000);
+    expect(shown()).toEqual(['idle', 'error', 'thinking']);
+  });
+
+  it('ignores clients it does not track', () => {
+    expressions.release('client-1');
+
+    observe({ stream: 'lifecycle', data: { phase: 'error' } });
+    expressions.set('client-2', 'speaking');
+
+    expect(shown()).toEqual(['idle']);
+    expect(jest.getTimerCount()).toBe(0);
+  });
+});
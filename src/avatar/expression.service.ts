@@ -0,0 +1,102 @@
+import { Injectable } from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import { AgentEventPayload } from '../chat/agent-event';
+import { Expression, ExpressionEvent } from '../chat/protocol/chat-protocol';
+
+interface ExpressionClient {
+  send: (event: ExpressionEvent) => void;
+  current: ExpressionEvent;
+  errorTimeout?: NodeJS.Timeout;
+}
+
+/**
+ * Tracks what each client's face should show, so every frontend animates
+ * the same way: thinking until the first delta, speaking while deltas
+ * flow, tool_using during tool calls, then idle (or error, held for
+ * EXPRESSION_ERROR_HOLD ms) when the run ends. Clients are only sent
+ * changes.
+ */
+@Injectable()
+export class ExpressionService {
+  private readonly clients = new Map<string, ExpressionClient>();
+  private readonly errorHold: number;
+
+  constructor(configService: ConfigService) {
+    this.errorHold = Number(configService.get('EXPRESSION_ERROR_HOLD', 3000));
+  }
+
+  /**
+   * Start tracking a client, sending it the idle expression
+   */
+  register(clientId: string, send: (event: ExpressionEvent) => void): void {
+    const current: ExpressionEvent = { expression: 'idle', at: Date.now() };
+    this.clients.set(clientId, { send, current });
+    send(current);
+  }
+
+  release(clientId: string): void {
+    clearTimeout(this.clients.get(clientId)?.errorTimeout);
+    this.clients.delete(clientId);
+  }
+
+  set(
+    clientId: string,
+    expression: Expression,
+    details: { runId?: string; tool?: string } = {},
+  ): void {
+    const client = this.clients.get(clientId);
+    if (!client) return;
+
+    const { current } = client;
+    if (current.expression === expression && current.tool === details.tool) {
+      return;
+    }
+
+    clearTimeout(client.errorTimeout);
+    client.errorTimeout = undefined;
+    if (expression === 'error') {
+      client.errorTimeout = setTimeout(
+        () => this.set(clientId, 'idle'),
+        this.errorHold,
+      );
+    }
+
+    client.current = {
+      expression,
+      ...(details.runId && { runId: details.runId }),
+      ...(details.tool && { tool: details.tool }),
+      at: Date.now(),
+    };
+    client.send(client.current);
+  }
+
+  /**
+   * Follow an agent event of one of the client's runs
+   */
+  observe(clientId: string, payload: AgentEventPayload): void {
+    const { runId, data } = payload;
+
+    switch (payload.stream) {
+      case 'assistant':
+        if (data?.delta || data?.text)
+          this.set(clientId, 'speaking', { runId });
+        break;
+      case 'tool':
+        if (data?.phase === 'start' || data?.phase === 'update') {
+          this.set(clientId, 'tool_using', { runId, tool: String(data.name) });
+        } else if (data?.phase === 'result') {
+          this.set(clientId, 'thinking', { runId });
+        }
+        break;
+      case 'thinking':
+      case 'reasoning':
+        this.set(clientId, 'thinking', { runId });
+        break;
+      case 'lifecycle':
+        if (data?.phase === 'start') this.set(clientId, 'thinking', { runId });
+        if (data?.phase === 'end') this.set(clientId, 'idle');
+        if (data?.phase === 'error') this.set(clientId, 'error', { runId });
+        break;
+    }
+  }
+}
@@ -0,0 +1,31 @@
+/**
+ * Payload of a gateway `agent` event: one step of a run's output on one
+ * of its streams (assistant, thinking, tool, lifecycle, ...)
+ */
+export interface AgentEventPayload {
+  runId?: string;
+  sessionKey?: string;
+  stream?: string;
+  data?: AgentEventData;
+}
+
+/**
+ * Fields of an agent event's `data`, depending on its stream; other
+ * streams carry fields of their own
+ */
+export interface AgentEventData {
+  phase?: string;
+  /** Text streams: the new text, and the text so far */
+  delta?: string;
+  text?: string;
+  /** Lifecycle errors */
+  error?: unknown;
+  /** Tool calls */
+  name?: string;
+  toolCallId?: string;
+  args?: unknown;
+  partialResult?: unknown;
+  result?: unknown;
+  isError?: boolean;
+  [field: string]: unknown;
+}
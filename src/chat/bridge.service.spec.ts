@@ -0,0 +1,792 @@
+import { ConfigService } from '@nestjs/config';
+import { ExpressionService } from '../avatar/expression.service';
+import { DeviceIdentityService } from '../device/device-identity.service';
+import { ContentFilterService } from '../filters/content-filter.service';
+import { MetricsService } from '../metrics/metrics.service';
+import { MemoryStateStore } from '../state/memory-state-store';
+import { TranscriptsService } from '../transcripts/transcripts.service';
+import { AgentEventPayload } from './agent-event';
+import { BridgeClient, BridgeService, ClientMessage } from './bridge.service';
+import { GatewayRequestError } from './gateway-request.error';
+import { GatewayTargetService } from './gateway-target.service';
+import { ResponseBufferService } from './response-buffer.service';
+import {
+  GatewayConnection,
+  GatewayConnectionOptions,
+  GatewayMessage,
+  GatewayRequest,
+} from './gateway-connection';
+import {
+  BridgeMessage,
+  MessageStatusEvent,
+  ResponseMessage,
+  StatusEvent,
+} from './protocol/chat-protocol';
+
+jest.mock('./gateway-connection', () => ({ GatewayConnection: jest.fn() }));
+
+/**
+ * Stands in for a pooled gateway socket: records the frames it is given
+ * and lets a test play the gateway's side
+ */
+class FakeConnection {
+  readonly id: string;
+  readonly gateway: string;
+  readonly clients = new Set<string>();
+  readonly sent: GatewayRequest[] = [];
+  idleTimeout?: NodeJS.Timeout;
+  isReady = false;
+  isClosed = false;
+  pendingRetry = undefined;
+
+  constructor(private readonly options: GatewayConnectionOptions) {
+    this.id = options.id;
+    this.gateway = options.gateway;
+  }
+
+  connect(): void {
+    connections.push(this);
+  }
+
+  close(): void {
+    this.isClosed = true;
+  }
+
+  send(message: GatewayRequest): boolean {
+    if (!this.isReady) return false;
+    this.sent.push(message);
+    return true;
+  }
+
+  ready(): void {
+    this.isReady = true;
+    this.options.onReady(this.asConnection());
+  }
+
+  drop(): void {
+    this.isReady = false;
+    this.options.onDisconnect(this.asConnection());
+  }
+
+  /**
+   * The gateway refused the handshake, which the connection retries
+   */
+  reject(error: string): void {
+    this.options.breaker.recordFailure(true);
+    this.options.onError(this.asConnection(), error);
+    this.options.onReconnecting(this.asConnection(), {
+      attempt: 1,
+      maxAttempts: 0,
+      nextRetryAt: Date.now() + this.options.breaker.retryIn(),
+      reason: 'handshake_rejected',
+    });
+  }
+
+  receive(message: GatewayMessage): void {
+    this.options.onMessage(this.asConnection(), message);
+  }
+
+  reply(request: GatewayRequest, payload: unknown, ok = true): void {
+    this.receive({
+      type: 'res',
+      id: request.id,
+      ok,
+      ...(ok ? { payload } : { error: payload }),
+    });
+  }
+
+  agent(payload: AgentEventPayload): void {
+    this.receive({ type: 'event', event: 'agent', payload });
+  }
+
+  /**
+   * Latest frame sent for a method
+   */
+  last(method: string): GatewayRequest {
+    const request = this.sent.filter((sent) => sent.method === method).pop();
+    if (!request) throw new Error(`No ${method} request sent`);
+    return request;
+  }
+
+  private asConnection(): GatewayConnection {
+    return this as unknown as GatewayConnection;
+  }
+}
+
+let connections: FakeConnection[];
+
+/**
+ * A chat client recording what its bridge tells it
+ */
+function recorder() {
+  const messages: BridgeMessage[] = [];
+  const statuses: MessageStatusEvent[] = [];
+  const gateway: StatusEvent[] = [];
+  const client: BridgeClient = {
+    onMessage: (message) => messages.push(message),
+    onStatus: (status) => statuses.push(status),
+    onGatewayStatus: (status) => gateway.push(status),
+    onFiltered: () => undefined,
+    onGatewayPresence: () => undefined,
+  };
+  return { client, messages, statuses, gateway };
+}
+
+function message(id: string, text = 'hello'): ClientMessage {
+  return { type: 'message', id, text };
+}
+
+function delta(runId: string, text: string): AgentEventPayload {
+  return { runId, stream: 'assistant', data: { delta: text } };
+}
+
+function end(runId: string): AgentEventPayload {
+  return { runId, stream: 'lifecycle', data: { phase: 'end' } };
+}
+
+/**
+ * Let promise callbacks run
+ */
+async function settle(): Promise<void> {
+  for (let i = 0; i < 5; i++) {
+    await Promise.resolve();
+  }
+}
+
+describe('BridgeService', () => {
+  let store: MemoryStateStore;
+  let responseBuffer: ResponseBufferService;
+  let transcripts: { record: jest.Mock };
+  let bridge: BridgeService;
+
+  function createService(env: Record<string, unknown> = {}): BridgeService {
+    const config = new ConfigService({
+      GATEWAY_WS_URL: 'ws://gateway.test',
+      GATEWAY_POOL_SIZE: 2,
+      GATEWAY_POOL_FANOUT: 2,
+      GATEWAY_POOL_IDLE_TIMEOUT: 1000,
+      ...env,
+    });
+    const metrics = new MetricsService();
+    responseBuffer = new ResponseBufferService(config, store);
+    return new BridgeService(
+      config,
+      {} as DeviceIdentityService,
+      metrics,
+      responseBuffer,
+      new GatewayTargetService(config),
+      transcripts as unknown as TranscriptsService,
+      new ExpressionService(config),
+      new ContentFilterService(config, metrics),
+    );
+  }
+
+  beforeEach(() => {
+    jest.useFakeTimers();
+    connections = [];
+    jest
+      .mocked(GatewayConnection)
+      .mockImplementation(
+        (options) =>
+          new FakeConnection(options) as unknown as GatewayConnection,
+      );
+    store = new MemoryStateStore('a');
+    transcripts = { record: jest.fn() };
+    bridge = createService();
+  });
+
+  afterEach(async () => {
+    bridge.onModuleDestroy();
+    await store.close();
+    jest.useRealTimers();
+  });
+
+  describe('connection pool', () => {
+    it('spreads clients over the pool before sharing a connection', () => {
+      ['a', 'b', 'c', 'd'].forEach((clientId) =>
+        bridge.createBridge(clientId, recorder().client, {
+          sessionKey: 'main',
+        }),
+      );
+
+      expect(connections).toHaveLength(2);
+      expect(
+        bridge.listBridges().map(({ connectionId }) => connectionId),
+      ).toEqual(['gw-1', 'gw-2', 'gw-1', 'gw-2']);
+    });
+
+    it('turns clients away once every connection is full', () => {
+      ['a', 'b', 'c', 'd'].forEach((clientId) =>
+        bridge.createBridge(clientId, recorder().client, {
+          sessionKey: 'main',
+        }),
+      );
+      const late = recorder();
+
+      bridge.createBridge('e', late.client, { sessionKey: 'main' });
+
+      expect(late.messages).toEqual([
+        {
+          type: 'error',
+          error: { message: 'Gateway capacity reached, try again later' },
+        },
+      ]);
+      expect(bridge.listBridges()).toHaveLength(4);
+    });
+
+    it('tells the clients of a connection once it is ready', () => {
+      const a = recorder();
+      const b = recorder();
+      bridge.createBridge('a', a.client, { sessionKey: 'main' });
+      bridge.createBridge('b', b.client, { sessionKey: 'main' });
+      bridge.createBridge('c', recorder().client, { sessionKey: 'main' });
+
+      connections[0].ready();
+
+      expect(a.gateway).toEqual([{ isConnected: true, state: 'connected' }]);
+      expect(b.gateway).toEqual([]);
+    });
+
+    it('closes a connection left idle', () => {
+      bridge.createBridge('a', recorder().client, { sessionKey: 'main' });
+      bridge.closeBridge('a');
+
+      jest.advanceTimersByTime(1000);
+
+      expect(connections[0].isClosed).toBe(true);
+      expect(bridge.getStats().connections).toBe(0);
+    });
+
+    it('keeps an idle connection a new client attaches to', () => {
+      bridge.createBridge('a', recorder().client, { sessionKey: 'main' });
+      bridge.closeBridge('a');
+      bridge.createBridge('b', recorder().client, { sessionKey: 'main' });
+
+      jest.advanceTimersByTime(1000);
+
+      expect(connections).toHaveLength(1);
+      expect(connections[0].isClosed).toBe(false);
+    });
+  });
+
+  describe('routing', () => {
+    let a: ReturnType<typeof recorder>;
+    let b: ReturnType<typeof recorder>;
+    let connection: FakeConnection;
+
+    beforeEach(() => {
+      bridge = createService({ GATEWAY_POOL_SIZE: 1 });
+      a = recorder();
+      b = recorder();
+      bridge.createBridge('a', a.client, { sessionKey: 'main' });
+      bridge.createBridge('b', b.client, { sessionKey: 'other' });
+      [connection] = connections;
+      connection.ready();
+    });
+
+    it('sends chat messages as agent requests keyed by message', () => {
+      bridge.sendMessage('a', message('m1'));
+
+      expect(connection.last('agent').params).toEqual({
+        message: 'hello',
+        sessionKey: 'main',
+        idempotencyKey: 'main:m1',
+      });
+      expect(a.statuses).toEqual([{ id: 'm1', status: 'sent' }]);
+    });
+
+    it('acknowledges a message by its request id', () => {
+      bridge.sendMessage('a', message('m1'));
+      connection.reply(connection.last('agent'), {
+        status: 'accepted',
+        runId: 'main:m1',
+      });
+
+      expect(a.statuses).toContainEqual({
+        id: 'm1',
+        status: 'accepted',
+        runId: 'main:m1',
+      });
+      expect(b.statuses).toEqual([]);
+    });
+
+    it('delivers run events to the client that started the run', () => {
+      bridge.sendMessage('a', message('m1'));
+      connection.reply(connection.last('agent'), { status: 'accepted' });
+
+      connection.agent(delta('main:m1', 'Hi'));
+      connection.agent(end('main:m1'));
+
+      expect(a.messages).toContainEqual(
+        expect.objectContaining({ type: 'response', delta: 'Hi', seq: 1 }),
+      );
+      expect(a.messages).toContainEqual({
+        type: 'response_complete',
+        runId: 'main:m1',
+      });
+      expect(
+        b.messages.filter((sent) => sent.type !== 'gateway_connected'),
+      ).toEqual([]);
+    });
+
+    it("follows a run under the gateway's runId", () => {
+      bridge.sendMessage('a', message('m1'));
+      connection.reply(connection.last('agent'), {
+        status: 'accepted',
+        runId: 'run-1',
+      });
+
+      connection.agent(delta('run-1', 'Hi'));
+
+      expect(a.messages).toContainEqual(
+        expect.objectContaining({ type: 'response', runId: 'run-1' }),
+      );
+      expect(responseBuffer.get('run-1')?.text).toBe('Hi');
+      expect(responseBuffer.get('main:m1')).toBeUndefined();
+    });
+
+    it('delivers events of runs started elsewhere by session', () => {
+      connection.receive({
+        type: 'event',
+        event: 'chat',
+        payload: { runId: 'elsewhere', sessionKey: 'agent:main:other' },
+      });
+
+      expect(b.messages).toContainEqual({
+        runId: 'elsewhere',
+        sessionKey: 'agent:main:other',
+      });
+      expect(a.messages).not.toContainEqual(
+        expect.objectContaining({ runId: 'elsewhere' }),
+      );
+    });
+
+    it('resolves a call with the payload of its response', async () => {
+      const result = bridge.call('a', 'sessions.list', {});
+      connection.reply(connection.last('sessions.list'), { sessions: [] });
+
+      await expect(result).resolves.toEqual({ sessions: [] });
+    });
+
+    it('rejects a call the gateway fails', async () => {
+      const result = bridge.call('a', 'sessions.list', {});
+      connection.reply(
+        connection.last('sessions.list'),
+        { message: 'nope' },
+        false,
+      );
+
+      await expect(result).rejects.toMatchObject({
+        method: 'sessions.list',
+        reason: 'gateway_error',
+        error: { message: 'nope' },
+      });
+    });
+
+    it('ignores responses to unknown requests', () => {
+      connection.receive({ type: 'res', id: 'unknown', ok: true });
+
+      expect(a.messages.map(({ type }) => type)).toEqual(['gateway_connected']);
+    });
+  });
+
+  describe('message queue', () => {
+    let a: ReturnType<typeof recorder>;
+    let connection: FakeConnection;
+
+    beforeEach(() => {
+      bridge = createService({
+        MESSAGE_QUEUE_MAX_DEPTH: 2,
+        MESSAGE_QUEUE_TTL: 5000,
+        MESSAGE_QUEUE_MAX_BYTES: 10,
+      });
+      a = recorder();
+      bridge.createBridge('a', a.client, { sessionKey: 'main' });
+      [connection] = connections;
+    });
+
+    it('holds messages until the connection is ready', () => {
+      bridge.sendMessage('a', message('m1'));
+
+      expect(a.statuses).toEqual([{ id: 'm1', status: 'queued' }]);
+      expect(bridge.getStats().queuedMessages).toBe(1);
+      expect(bridge.activeRuns('main')).toBe(1);
+
+      connection.ready();
+
+      expect(connection.last('agent').params.idempotencyKey).toBe('main:m1');
+      expect(a.statuses).toContainEqual({ id: 'm1', status: 'sent' });
+      expect(bridge.getStats().queuedMessages).toBe(0);
+    });
+
+    it('rejects messages beyond the queue depth', () => {
+      ['m1', 'm2', 'm3'].forEach((id) => bridge.sendMessage('a', message(id)));
+
+      expect(a.statuses).toContainEqual({
+        id: 'm3',
+        status: 'rejected',
+        reason: 'queue_full',
+      });
+      expect(bridge.getStats().queuedMessages).toBe(2);
+    });
+
+    it('rejects attachments beyond the bytes the queues may hold', () => {
+      const attach = (id: string, content: string): ClientMessage => ({
+        ...message(id),
+        attachments: [
+          { type: 'file', mimeType: 'text/plain', fileName: 'a.txt', content },
+        ],
+      });
+      bridge.createBridge('b', recorder().client, { sessionKey: 'main' });
+
+      bridge.sendMessage('b', attach('m1', 'aaaaaa'));
+      bridge.sendMessage('a', attach('m2', 'bbbbbb'));
+      bridge.sendMessage('a', message('m3'));
+
+      expect(a.statuses).toEqual([
+        { id: 'm2', status: 'rejected', reason: 'queue_full' },
+        { id: 'm3', status: 'queued' },
+      ]);
+    });
+
+    it('transcribes the names of accepted attachments', () => {
+      connection.ready();
+      bridge.sendMessage('a', {
+        ...message('m1'),
+        attachments: [
+          {
+            type: 'file',
+            mimeType: 'text/plain',
+            fileName: 'a.txt',
+            content: 'x',
+          },
+        ],
+      });
+      connection.reply(connection.last('agent'), { status: 'accepted' });
+
+      expect(transcripts.record).toHaveBeenCalledWith(
+        expect.objectContaining({
+          role: 'user',
+          attachments: [{ fileName: 'a.txt', mimeType: 'text/plain' }],
+        }),
+      );
+    });
+
+    it('expires messages queued longer than the TTL', () => {
+      bridge.sendMessage('a', message('m1'));
+
+      jest.advanceTimersByTime(5000);
+      connection.ready();
+
+      expect(a.statuses).toContainEqual({
+        id: 'm1',
+        status: 'rejected',
+        reason: 'expired',
+      });
+      expect(connection.sent).toEqual([]);
+    });
+
+    it('retries a message the gateway had not accepted with the same key', () => {
+      connection.ready();
+      bridge.sendMessage('a', message('m1'));
+      const first = connection.last('agent');
+
+      connection.drop();
+      expect(a.statuses).toContainEqual({ id: 'm1', status: 'queued' });
+      connection.ready();
+
+      const retry = connection.last('agent');
+      expect(retry.id).not.toBe(first.id);
+      expect(retry.params).toEqual(first.params);
+    });
+
+    it('ends an accepted run lost with the connection', () => {
+      connection.ready();
+      bridge.sendMessage('a', message('m1'));
+      connection.reply(connection.last('agent'), { status: 'accepted' });
+
+      connection.drop();
+
+      expect(a.messages).toContainEqual({
+        type: 'error',
+        error: { message: 'Gateway connection lost' },
+        runId: 'main:m1',
+        reason: 'connection_lost',
+      });
+      expect(responseBuffer.get('main:m1')).toMatchObject({
+        state: 'error',
+        error: 'connection_lost',
+      });
+      expect(bridge.getStats().queuedMessages).toBe(0);
+    });
+
+    it('carries queued messages over a bridge reset', () => {
+      bridge.sendMessage('a', message('m1'));
+
+      expect(bridge.reconnectBridge('a')).toBe(true);
+      connection.ready();
+
+      expect(connection.last('agent').params.idempotencyKey).toBe('main:m1');
+    });
+  });
+
+  describe('cancelRun', () => {
+    let a: ReturnType<typeof recorder>;
+    let connection: FakeConnection;
+
+    beforeEach(() => {
+      a = recorder();
+      bridge.createBridge('a', a.client, { sessionKey: 'main' });
+      [connection] = connections;
+      connection.ready();
+      bridge.sendMessage('a', message('m1'));
+      connection.reply(connection.last('agent'), { status: 'accepted' });
+    });
+
+    it("aborts the client's latest run", async () => {
+      const cancelled = bridge.cancelRun('a');
+      expect(connection.last('chat.abort').params).toEqual({
+        sessionKey: 'main',
+        runId: 'main:m1',
+      });
+
+      // Output still in flight is dropped straight away
+      connection.agent(delta('main:m1', 'late'));
+      connection.reply(connection.last('chat.abort'), {});
+
+      await expect(cancelled).resolves.toBe('main:m1');
+      expect(a.messages).not.toContainEqual(
+        expect.objectContaining({ type: 'response' }),
+      );
+      expect(a.messages).toContainEqual({
+        type: 'response_complete',
+        runId: 'main:m1',
+        reason: 'cancelled',
+      });
+      expect(responseBuffer.get('main:m1')?.state).toBe('cancelled');
+      expect(bridge.activeRuns('main')).toBe(0);
+    });
+
+    it('resolves null when the client has no run', async () => {
+      await expect(bridge.cancelRun('a', 'unknown')).resolves.toBeNull();
+      await expect(bridge.cancelRun('nobody')).resolves.toBeNull();
+    });
+
+    it('keeps forwarding a run the gateway would not abort', async () => {
+      const cancelled = bridge.cancelRun('a');
+      connection.reply(
+        connection.last('chat.abort'),
+        { message: 'busy' },
+        false,
+      );
+
+      await expect(cancelled).rejects.toBeInstanceOf(GatewayRequestError);
+      connection.agent(delta('main:m1', 'more'));
+      expect(a.messages).toContainEqual(
+        expect.objectContaining({ type: 'response', delta: 'more' }),
+      );
+    });
+
+    it('lets the client start another run once the abort is confirmed', async () => {
+      const cancelled = bridge.cancelRun('a');
+      connection.reply(connection.last('chat.abort'), {});
+      await cancelled;
+
+      bridge.sendMessage('a', message('m2'));
+      connection.reply(connection.last('agent'), { status: 'accepted' });
+      connection.agent(delta('main:m2', 'Hi'));
+
+      expect(a.messages).toContainEqual(
+        expect.objectContaining({ type: 'response', runId: 'main:m2' }),
+      );
+      expect(bridge.activeRuns('main')).toBe(1);
+    });
+  });
+
+  describe('resumeRun', () => {
+    let a: ReturnType<typeof recorder>;
+    let b: ReturnType<typeof recorder>;
+    let connection: FakeConnection;
+
+    beforeEach(() => {
+      a = recorder();
+      b = recorder();
+      bridge.createBridge('a', a.client, { sessionKey: 'main' });
+      bridge.createBridge('b', b.client, { sessionKey: 'main' });
+      [connection] = connections;
+      connections.forEach((each) => each.ready());
+      bridge.sendMessage('a', message('m1'));
+      connection.reply(connection.last('agent'), { status: 'accepted' });
+      connection.agent(delta('main:m1', 'Hello'));
+      connection.agent(delta('main:m1', ' there'));
+    });
+
+    it('replays the deltas after a sequence and follows the live run', () => {
+      const run = responseBuffer.get('main:m1');
+      bridge.resumeRun('b', run!, 1);
+      connection.agent(delta('main:m1', '!'));
+
+      expect(
+        b.messages
+          .filter((sent): sent is ResponseMessage => sent.type === 'response')
+          .map((sent) => [sent.seq, sent.delta]),
+      ).toEqual([
+        [2, ' there'],
+        [3, '!'],
+      ]);
+    });
+
+    it('replays the assembled text when the deltas are gone', () => {
+      const run = responseBuffer.get('main:m1');
+      bridge.resumeRun('b', { ...run!, deltas: run!.deltas.slice(1) }, 0);
+
+      expect(b.messages).toContainEqual(
+        expect.objectContaining({
+          type: 'response',
+          text: 'Hello there',
+          seq: 2,
+          resumed: true,
+        }),
+      );
+    });
+
+    it('ends the replay of a finished run', () => {
+      connection.agent(end('main:m1'));
+      bridge.resumeRun('b', responseBuffer.get('main:m1')!);
+
+      expect(b.messages.slice(-2)).toEqual([
+        expect.objectContaining({ type: 'response', text: 'Hello there' }),
+        { type: 'response_complete', runId: 'main:m1' },
+      ]);
+    });
+  });
+
+  describe('checkGateway', () => {
+    beforeEach(() => {
+      bridge = createService({
+        GATEWAY_CIRCUIT_COOLDOWN: 60000,
+        HEALTH_PROBE_CACHE_TTL: 0,
+      });
+      bridge.createBridge('a', recorder().client, { sessionKey: 'main' });
+    });
+
+    it('counts a ready pooled connection', async () => {
+      connections[0].ready();
+
+      await expect(bridge.checkGateway()).resolves.toEqual({
+        ok: true,
+        source: 'pool',
+        circuit: 'closed',
+      });
+      expect(connections).toHaveLength(1);
+    });
+
+    it('probes past an open breaker, reporting it separately', async () => {
+      connections[0].reject('bad token');
+
+      const check = bridge.checkGateway();
+      connections[1].ready();
+
+      await expect(check).resolves.toEqual({
+        ok: true,
+        source: 'probe',
+        circuit: 'open',
+      });
+      expect(connections[1].isClosed).toBe(true);
+    });
+
+    it('fails on a rejected probe without tripping the pool breaker', async () => {
+      const check = bridge.checkGateway();
+      connections[1].reject('bad token');
+
+      await expect(check).resolves.toEqual({
+        ok: false,
+        source: 'probe',
+        error: 'bad token',
+        circuit: 'closed',
+      });
+    });
+  });
+
+  describe('request timeouts', () => {
+    let a: ReturnType<typeof recorder>;
+    let connection: FakeConnection;
+
+    beforeEach(() => {
+      bridge = createService({
+        GATEWAY_REQUEST_TIMEOUT: 1000,
+        GATEWAY_REQUEST_TIMEOUTS: 'sessions.history=5000, agent=2000',
+      });
+      a = recorder();
+      bridge.createBridge('a', a.client, { sessionKey: 'main' });
+      [connection] = connections;
+    });
+
+    it('fails calls after the default timeout', async () => {
+      connection.ready();
+      const result = bridge.call('a', 'sessions.list', {});
+
+      jest.advanceTimersByTime(1000);
+
+      await expect(result).rejects.toMatchObject({ reason: 'timeout' });
+    });
+
+    it('gives methods their own timeout', async () => {
+      connection.ready();
+      const result = bridge.call('a', 'sessions.history', {});
+      let failed = false;
+      result.catch(() => (failed = true));
+
+      jest.advanceTimersByTime(4999);
+      await settle();
+      expect(failed).toBe(false);
+
+      jest.advanceTimersByTime(1);
+      await expect(result).rejects.toMatchObject({ reason: 'timeout' });
+    });
+
+    it('counts the time a call waits for the connection', async () => {
+      const result = bridge.call('a', 'sessions.list', {});
+
+      jest.advanceTimersByTime(1000);
+      connection.ready();
+
+      await expect(result).rejects.toMatchObject({ reason: 'timeout' });
+      expect(connection.sent).toEqual([]);
+    });
+
+    it('sends deferred calls once the connection is ready', async () => {
+      const result = bridge.call('a', 'sessions.list', {});
+      connection.ready();
+      connection.reply(connection.last('sessions.list'), 'ok');
+
+      await expect(result).resolves.toBe('ok');
+    });
+
+    it('rejects a message the gateway never acknowledges', () => {
+      connection.ready();
+      bridge.sendMessage('a', message('m1'));
+
+      jest.advanceTimersByTime(2000);
+
+      expect(a.statuses).toContainEqual({
+        id: 'm1',
+        status: 'rejected',
+        reason: 'timeout',
+      });
+      expect(bridge.activeRuns('main')).toBe(0);
+    });
+
+    it('stops the timeout once the gateway answers', () => {
+      connection.ready();
+      bridge.sendMessage('a', message('m1'));
+      connection.reply(connection.last('agent'), { status: 'accepted' });
+
+      jest.advanceTimersByTime(2000);
+
+      expect(a.statuses).not.toContainEqual(
+        expect.objectContaining({ status: 'rejected' }),
+      );
+    });
+  });
+});
@@ -1,504 +1,2110 @@
-import { Injectable, Logger, OnModuleInit, OnModuleDestroy } from '@nestjs/common';
+import { Injectable, Logger, OnModuleDestroy } from '@nestjs/common';
 import { ConfigService } from '@nestjs/config';
-import WebSocket from 'ws';
 import { v4 as uuidv4 } from 'uuid';
-import { generateKeyPairSync, sign, createHash } from 'crypto';
+import { GatewayAttachment } from '../attachments/attachments.service';
+import { ExpressionService } from '../avatar/expression.service';
+import { DeviceIdentityService } from '../device/device-identity.service';
+import { ContentFilterService } from '../filters/content-filter.service';
+import { FilterStream } from '../filters/filter-stream';
+import { MetricsService } from '../metrics/metrics.service';
+import { TranscriptsService } from '../transcripts/transcripts.service';
+import { AgentEventData, AgentEventPayload } from './agent-event';
+import { buildHistoryPage } from './chat-history';
+import { CircuitBreaker, CircuitState } from './circuit-breaker';
+import { GatewayRequestError } from './gateway-request.error';
+import { GatewayTarget, GatewayTargetService } from './gateway-target.service';
+import { BufferedRun, ResponseBufferService } from './response-buffer.service';
+import {
+  GatewayConnection,
+  GatewayConnectionOptions,
+  GatewayMessage,
+  ReconnectBackoff,
+  ReconnectSchedule,
+} from './gateway-connection';
+import {
+  AgentStream,
+  AppliedFilter,
+  BridgeMessage,
+  FilteredEvent,
+  GatewayChatMessage,
+  GatewayPresenceEntry,
+  GatewayPresenceEvent,
+  GatewayRequestFailure,
+  GatewayResponseMessage,
+  HistoryEvent,
+  MessageStatusEvent,
+  ResponseMessage,
+  StatusEvent,
+} from './protocol/chat-protocol';
+
+/**
+ * Messages a chat client sends through its bridge
+ */
+export type ClientMessage = {
+  type: 'message';
+  id: string;
+  text: string;
+  attachments?: GatewayAttachment[];
+  sessionKey?: string;
+  /** Sockets following the run the message starts */
+  followers?: RunFollower[];
+};
+
+/**
+ * Callbacks a bridge uses to reach its chat client
+ */
+export interface BridgeClient {
+  onMessage: (message: BridgeMessage) => void;
+  onStatus: (status: MessageStatusEvent) => void;
+  onGatewayStatus: (status: StatusEvent) => void;
+  onFiltered: (event: FilteredEvent) => void;
+  onGatewayPresence: (event: GatewayPresenceEvent) => void;
+}
 
-interface BridgeConnection {
-  ws: WebSocket | null;
-  onMessage: (message: any) => void;
-  reconnectTimeout?: NodeJS.Timeout;
+/**
+ * Who a bridge belongs to and where it points
+ */
+export interface BridgeOptions {
+  sessionKey: string;
+  /** Token subject, for the admin API */
+  subject?: string;
+  streams?: AgentStream[];
+  /** Gateway target name; the default target when omitted */
+  gateway?: string;
+  /** Content filter policy name; the default policy when omitted */
+  filters?: string;
+}
+
+/**
+ * An active bridge, as listed by the admin API
+ */
+export interface BridgeInfo {
+  clientId: string;
+  subject: string | null;
+  sessionKey: string;
+  gateway: string;
+  connectionId: string;
   authenticated: boolean;
-  messageQueue: any[];
+  queueLength: number;
+  connectedAt: string;
+  lastActivityAt: string;
+}
+
+export interface GatewayError {
+  gateway: string;
+  connectionId: string;
+  message: string;
+  at: string;
+}
+
+/**
+ * Connection pool of one gateway target
+ */
+export interface GatewayPoolStats {
+  url: string;
+  connections: number;
+  readyConnections: number;
+  circuit: CircuitState;
+  lastError: GatewayError | null;
+}
+
+/**
+ * Point-in-time view of the bridges and the gateway pools; the top-level
+ * gateway fields sum up (or take the worst of) every target
+ */
+export interface BridgeStats {
+  activeBridges: number;
+  authenticatedBridges: number;
+  queuedMessages: number;
+  connections: number;
+  readyConnections: number;
+  circuit: CircuitState;
+  lastGatewayError: GatewayError | null;
+  gateways: Record<string, GatewayPoolStats>;
+}
+
+/**
+ * Outcome of checking that the gateway accepts our handshake, either
+ * taken from a ready pooled connection or from a probe
+ */
+export interface GatewayCheck {
+  ok: boolean;
+  source: 'pool' | 'probe';
+  error?: string;
+  /** State of the pool's circuit breaker, which the probe bypasses */
+  circuit?: CircuitState;
+}
+
+/**
+ * A normalized history page and the gateway payload it was built from
+ */
+export interface HistoryResult {
+  history: HistoryEvent;
+  payload: unknown;
+}
+
+interface QueuedMessage {
+  message: ClientMessage;
+  expiryTimeout?: NodeJS.Timeout;
+}
+
+/**
+ * Pooled connections to one gateway target, with their own circuit
+ * breaker and readiness probe
+ */
+interface GatewayPool {
+  target: GatewayTarget;
+  connections: GatewayConnection[];
+  breaker: CircuitBreaker;
+  lastError: GatewayError | null;
+  lastProbe?: { at: number; result: GatewayCheck };
+  probeInFlight?: Promise<GatewayCheck>;
+  /** Latest curated presence the gateway reported */
+  presence?: GatewayPresenceEntry[];
+}
+
+interface BridgeConnection {
+  connection: GatewayConnection;
+  client: BridgeClient;
+  messageQueue: QueuedMessage[];
+  /** RPCs waiting for the connection to become ready */
+  deferredCalls: DeferredCall[];
+  sessionKey: string;
+  subject?: string;
+  streams: Set<AgentStream>;
+  filters?: string;
+  connectedAt: number;
+  /** Last message to or from the client */
+  lastActivityAt: number;
+}
+
+/**
+ * Where a run's events are delivered: a local bridge, or a client on
+ * another node that resumed a run buffered here
+ */
+type RunViewer = Pick<
+  BridgeConnection,
+  'client' | 'streams' | 'lastActivityAt'
+>;
+
+/**
+ * A client on another node resuming a run, reached through its callbacks
+ */
+export interface RemoteViewer {
+  client: BridgeClient;
+  streams: AgentStream[];
+}
+
+/**
+ * Another socket in the sender's session room, viewing the runs its
+ * messages start; one connected to another node comes with its callbacks
+ */
+export interface RunFollower {
+  clientId: string;
+  remote?: RemoteViewer;
+}
+
+interface DeferredCall {
+  id: string;
+  method: string;
+  params: Record<string, unknown>;
+}
+
+/**
+ * The gateway `agent` request starting a run for a chat message
+ */
+interface AgentRequest {
+  type: 'req';
+  id: string;
+  method: 'agent';
+  params: {
+    message: string;
+    attachments?: GatewayAttachment[];
+    sessionKey: string;
+    idempotencyKey: string;
+  };
+}
+
+interface RunOwner {
+  clientId: string;
   sessionKey?: string;
+  /** Set once an abort was requested; later run events are dropped */
+  cancelled?: boolean;
+  /**
+   * Other clients that resumed the run while its owner was connected, or
+   * that share the owner's session
+   */
+  viewers?: Set<string>;
+}
+
+interface RunTiming {
+  startedAt: number;
+  firstDelta: boolean;
+}
+
+/**
+ * Where an accepted run's messages are transcribed, kept until its
+ * response has been recorded
+ */
+interface TranscribedRun {
+  sessionKey: string;
+  subject: string | null;
+  gateway: string;
 }
 
-interface GatewayMessage {
-  type: 'event' | 'res' | 'req';
-  event?: string;
-  id?: string;
-  method?: string;
-  ok?: boolean;
-  payload?: any;
-  error?: any;
+/**
+ * Outbound filtering of a run's output under the policy of the client
+ * that started it, with a stream filter per agent text stream. Kept
+ * until the run has ended and left the response buffer.
+ */
+interface FilteredRun {
+  policy?: string;
+  clientId?: string;
+  streams: Map<string, FilterStream>;
+  ended: boolean;
 }
 
-interface DeviceIdentity {
-  deviceId: string;
-  publicKey: string;
-  privateKey: Buffer;
+/**
+ * An outbound gateway `req` awaiting its `res`; chat messages carry the
+ * message, RPCs made through call() carry the promise callbacks
+ */
+interface PendingRequest {
+  clientId: string;
+  method: string;
+  message?: ClientMessage;
+  /** Run started by a chat message */
+  runId?: string;
+  accepted?: boolean;
+  timeout?: NodeJS.Timeout;
+  resolve?: (payload: unknown) => void;
+  reject?: (error: GatewayRequestError) => void;
 }
 
 @Injectable()
-export class BridgeService implements OnModuleInit, OnModuleDestroy {
+export class BridgeService implements OnModuleDestroy {
   private readonly logger = new Logger(BridgeService.name);
   private readonly bridges = new Map<string, BridgeConnection>();
-  private readonly gatewayUrl: string;
-  private readonly gatewayToken: string;
-  private deviceIdentity: DeviceIdentity | null = null;
-
-  constructor(private readonly configService: ConfigService) {
-    const baseUrl = this.configService.get<string>(
-      'GATEWAY_WS_URL',
-      'ws://localhost:38191',
+  private readonly pools = new Map<string, GatewayPool>();
+  private readonly pendingRequests = new Map<string, PendingRequest>();
+  private readonly runOwners = new Map<string, RunOwner>();
+  private readonly remoteViewers = new Map<string, RunViewer>();
+  private readonly runTimings = new Map<string, RunTiming>();
+  private readonly transcribedRuns = new Map<string, TranscribedRun>();
+  private readonly filteredRuns = new Map<string, FilteredRun>();
+  private readonly poolSize: number;
+  private readonly poolFanout: number;
+  private readonly poolIdleTimeout: number;
+  private readonly queueMaxDepth: number;
+  private readonly queueTtl: number;
+  private readonly queueMaxBytes: number;
+  private readonly backoff: ReconnectBackoff;
+  private readonly probeTimeout: number;
+  private readonly probeCacheTtl: number;
+  private readonly historyMaxFetch: number;
+  private readonly requestTimeout: number;
+  private readonly requestTimeouts: Map<string, number>;
+  private connectionSeq = 0;
+
+  constructor(
+    private readonly configService: ConfigService,
+    private readonly deviceIdentityService: DeviceIdentityService,
+    private readonly metricsService: MetricsService,
+    private readonly responseBuffer: ResponseBufferService,
+    private readonly gatewayTargets: GatewayTargetService,
+    private readonly transcripts: TranscriptsService,
+    private readonly expressions: ExpressionService,
+    private readonly filters: ContentFilterService,
+  ) {
+    this.poolSize = Number(this.configService.get('GATEWAY_POOL_SIZE', 4));
+    this.poolFanout = Number(this.configService.get('GATEWAY_POOL_FANOUT', 50));
+    this.poolIdleTimeout = Number(
+      this.configService.get('GATEWAY_POOL_IDLE_TIMEOUT', 30000),
+    );
+    this.queueMaxDepth = Number(
+      this.configService.get('MESSAGE_QUEUE_MAX_DEPTH', 20),
+    );
+    this.queueTtl = Number(this.configService.get('MESSAGE_QUEUE_TTL', 60000));
+    this.queueMaxBytes = Number(
+      this.configService.get('MESSAGE_QUEUE_MAX_BYTES', 52428800),
+    );
+    this.backoff = {
+      baseDelay: Number(
+        this.configService.get('GATEWAY_RECONNECT_BASE_DELAY', 1000),
+      ),
+      maxDelay: Number(
+        this.configService.get('GATEWAY_RECONNECT_MAX_DELAY', 30000),
+      ),
+      maxAttempts: Number(
+        this.configService.get('GATEWAY_RECONNECT_MAX_ATTEMPTS', 10),
+      ),
+    };
+    this.probeTimeout = Number(
+      this.configService.get('HEALTH_PROBE_TIMEOUT', 5000),
+    );
+    this.probeCacheTtl = Number(
+      this.configService.get('HEALTH_PROBE_CACHE_TTL', 10000),
+    );
+    this.historyMaxFetch = Number(
+      this.configService.get('HISTORY_MAX_FETCH', 1000),
+    );
+    this.requestTimeout = Number(
+      this.configService.get('GATEWAY_REQUEST_TIMEOUT', 15000),
+    );
+    this.requestTimeouts = parseMethodTimeouts(
+      this.configService.get<string>('GATEWAY_REQUEST_TIMEOUTS', ''),
     );
-    this.gatewayUrl = baseUrl.replace(/\/ws\/chat$/, '').replace(/\/$/, '');
-    this.gatewayToken = this.configService.get<string>('GATEWAY_TOKEN', '');
 
-    this.logger.log(`Bridge configured to gateway: ${this.gatewayUrl}`);
-    if (this.gatewayToken) {
-      this.logger.log('Gateway token configured');
-    } else {
-      this.logger.warn('No GATEWAY_TOKEN configured - connection may fail');
-    }
-  }
+    const circuitThreshold = Number(
+      this.configService.get('GATEWAY_CIRCUIT_THRESHOLD', 5),
+    );
+    const circuitCooldown = Number(
+      this.configService.get('GATEWAY_CIRCUIT_COOLDOWN', 60000),
+    );
+    this.gatewayTargets.list().forEach((target) => {
+      // Shared by the whole pool so a dead gateway is not probed per connection
+      this.pools.set(target.name, {
+        target,
+        connections: [],
+        breaker: new CircuitBreaker(circuitThreshold, circuitCooldown),
+        lastError: null,
+      });
+      this.logger.log(
+        `Bridge configured to gateway "${target.name}": ${target.url}`,
+      );
+    });
+    this.logger.log(
+      `Gateway pool: up to ${this.poolSize} connections, ${this.poolFanout} clients each`,
+    );
+    // Agents must not be able to echo the credentials we connect with
+    this.filters.addSecrets(
+      this.gatewayTargets.list().map((target) => target.token),
+    );
 
-  async onModuleInit() {
-    // Generate device identity on startup
-    this.deviceIdentity = this.generateDeviceIdentity();
-    this.logger.log(`Device identity initialized: ${this.deviceIdentity.deviceId}`);
+    this.metricsService.addCollector(() => {
+      const stats = this.getStats();
+      const { gatewaySockets, queueDepth } = this.metricsService;
+      Object.entries(stats.gateways).forEach(([gateway, pool]) => {
+        gatewaySockets.set({ gateway, state: 'ready' }, pool.readyConnections);
+        gatewaySockets.set(
+          { gateway, state: 'connecting' },
+          pool.connections - pool.readyConnections,
+        );
+      });
+      queueDepth.set(stats.queuedMessages);
+    });
   }
 
   onModuleDestroy() {
     this.bridges.forEach((_, clientId) => {
       this.closeBridge(clientId);
     });
+    this.pools.forEach((pool) => {
+      pool.connections.forEach((connection) => connection.close());
+      pool.connections.length = 0;
+    });
+  }
+
+  /**
+   * Create a bridge connection for a client to a gateway target (the
+   * default one unless named)
+   */
+  createBridge(
+    clientId: string,
+    client: BridgeClient,
+    options: BridgeOptions,
+  ): void {
+    if (this.bridges.has(clientId)) {
+      this.closeBridge(clientId);
+    }
+
+    const gateway = options.gateway ?? this.gatewayTargets.defaultTarget.name;
+    const pool = this.pools.get(gateway);
+    if (!pool) {
+      this.logger.warn(`[${clientId}] Unknown gateway "${gateway}"`);
+      client.onMessage({
+        type: 'error',
+        error: { message: `Unknown gateway: ${gateway}` },
+      });
+      return;
+    }
+
+    const connection = this.acquireConnection(pool);
+    if (!connection) {
+      this.logger.warn(`[${clientId}] Gateway pool exhausted`);
+      client.onMessage({
+        type: 'error',
+        error: { message: 'Gateway capacity reached, try again later' },
+      });
+      return;
+    }
+
+    const bridge: BridgeConnection = {
+      connection,
+      client,
+      messageQueue: [],
+      deferredCalls: [],
+      sessionKey: options.sessionKey,
+      subject: options.subject,
+      streams: new Set(options.streams),
+      filters: options.filters,
+      connectedAt: Date.now(),
+      lastActivityAt: Date.now(),
+    };
+
+    this.bridges.set(clientId, bridge);
+    connection.clients.add(clientId);
+    this.logger.log(
+      `[${clientId}] Attached to ${connection.id} on "${gateway}" (${connection.clients.size}/${this.poolFanout})`,
+    );
+
+    if (connection.isReady) {
+      this.notifyConnected(clientId);
+    } else if (connection.pendingRetry) {
+      this.notifyReconnecting(clientId, connection.pendingRetry);
+    }
+  }
+
+  /**
+   * Pick the least-loaded pooled connection with spare fan-out,
+   * opening a new one while the pool is below its size limit
+   */
+  private acquireConnection(pool: GatewayPool): GatewayConnection | null {
+    const leastLoaded = pool.connections
+      .filter((connection) => connection.clients.size < this.poolFanout)
+      .sort((a, b) => a.clients.size - b.clients.size)[0];
+
+    // Spread clients over the pool before doubling up on a connection
+    const busy = !leastLoaded || leastLoaded.clients.size > 0;
+    if (busy && pool.connections.length < this.poolSize) {
+      const connection = this.newConnection(
+        pool,
+        `gw-${++this.connectionSeq}`,
+        {
+          onReady: (conn) => this.handleConnectionReady(conn),
+          onMessage: (conn, message) =>
+            this.handleGatewayMessage(conn, message),
+          onDisconnect: (conn) => this.handleConnectionLost(conn),
+          onReconnecting: (conn, schedule) =>
+            conn.clients.forEach((clientId) =>
+              this.notifyReconnecting(clientId, schedule),
+            ),
+          onGiveUp: (conn) => this.handleConnectionFailed(pool, conn),
+        },
+      );
+      pool.connections.push(connection);
+      connection.connect();
+      return connection;
+    }
+
+    if (!leastLoaded) return null;
+
+    this.cancelIdleTimeout(leastLoaded);
+    return leastLoaded;
+  }
+
+  private newConnection(
+    pool: GatewayPool,
+    id: string,
+    handlers: Pick<
+      GatewayConnectionOptions,
+      'onReady' | 'onMessage' | 'onDisconnect' | 'onReconnecting' | 'onGiveUp'
+    >,
+    breaker = pool.breaker,
+  ): GatewayConnection {
+    const { handshakes, reconnects } = this.metricsService;
+    const { target } = pool;
+    const gateway = target.name;
+
+    return new GatewayConnection({
+      ...handlers,
+      id,
+      gateway,
+      url: target.url,
+      token: target.token,
+      scopes: target.scopes,
+      deviceIdentityService: this.deviceIdentityService,
+      breaker,
+      backoff: this.backoff,
+      onError: (connection, message) => {
+        pool.lastError = {
+          gateway,
+          connectionId: connection.id,
+          message,
+          at: new Date().toISOString(),
+        };
+      },
+      onReady: (connection) => {
+        handshakes.inc({ gateway, result: 'success' });
+        handlers.onReady(connection);
+      },
+      onReconnecting: (connection, schedule) => {
+        if (schedule.reason === 'handshake_rejected') {
+          handshakes.inc({ gateway, result: 'rejected' });
+        } else if (schedule.reason === 'connect_failed') {
+          handshakes.inc({ gateway, result: 'failed' });
+        }
+        reconnects.inc({ gateway, reason: schedule.reason });
+        handlers.onReconnecting(connection, schedule);
+      },
+    });
+  }
+
+  /**
+   * Counts for the health endpoint
+   */
+  getStats(): BridgeStats {
+    let authenticatedBridges = 0;
+    let queuedMessages = 0;
+    this.bridges.forEach((bridge) => {
+      if (bridge.connection.isReady) authenticatedBridges++;
+      queuedMessages += bridge.messageQueue.length;
+    });
+
+    const gateways: Record<string, GatewayPoolStats> = {};
+    this.pools.forEach((pool, name) => {
+      gateways[name] = {
+        url: pool.target.url,
+        connections: pool.connections.length,
+        readyConnections: pool.connections.filter((c) => c.isReady).length,
+        circuit: pool.breaker.state,
+        lastError: pool.lastError,
+      };
+    });
+    const pools = Object.values(gateways);
+    const circuits = pools.map((pool) => pool.circuit);
+
+    return {
+      activeBridges: this.bridges.size,
+      authenticatedBridges,
+      queuedMessages,
+      connections: pools.reduce((sum, pool) => sum + pool.connections, 0),
+      readyConnections: pools.reduce(
+        (sum, pool) => sum + pool.readyConnections,
+        0,
+      ),
+      circuit: circuits.includes('open')
+        ? 'open'
+        : circuits.includes('half-open')
+          ? 'half-open'
+          : 'closed',
+      lastGatewayError: pools.reduce<GatewayError | null>(
+        (latest, pool) =>
+          pool.lastError && (!latest || pool.lastError.at > latest.at)
+            ? pool.lastError
+            : latest,
+        null,
+      ),
+      gateways,
+    };
+  }
+
+  /**
+   * Check every gateway target, by name
+   */
+  async checkGateways(): Promise<Record<string, GatewayCheck>> {
+    const names = [...this.pools.keys()];
+    const checks = await Promise.all(
+      names.map((name) => this.checkGateway(name)),
+    );
+    return Object.fromEntries(
+      names.map((name, index) => [name, checks[index]]),
+    );
+  }
+
+  /**
+   * Check a gateway target (the default one unless named) accepts our
+   * token and device signature, reusing a ready pooled connection when
+   * there is one and otherwise running (and briefly caching) a one-off
+   * probe handshake. The pool's breaker state is reported alongside, not
+   * folded into the result.
+   */
+  checkGateway(
+    gateway = this.gatewayTargets.defaultTarget.name,
+  ): Promise<GatewayCheck> {
+    const pool = this.pools.get(gateway);
+    if (!pool) {
+      return Promise.resolve({
+        ok: false,
+        source: 'probe',
+        error: `Unknown gateway: ${gateway}`,
+      });
+    }
+
+    const circuit = pool.breaker.state;
+    if (pool.connections.some((connection) => connection.isReady)) {
+      return Promise.resolve({ ok: true, source: 'pool', circuit });
+    }
+
+    if (pool.lastProbe && Date.now() - pool.lastProbe.at < this.probeCacheTtl) {
+      return Promise.resolve({ ...pool.lastProbe.result, circuit });
+    }
+
+    pool.probeInFlight ??= this.probe(pool).then((result) => {
+      pool.lastProbe = { at: Date.now(), result };
+      pool.probeInFlight = undefined;
+      return result;
+    });
+    return pool.probeInFlight.then((result) => ({
+      ...result,
+      circuit: pool.breaker.state,
+    }));
+  }
+
+  /**
+   * One-off handshake with a breaker of its own, so an open pool breaker
+   * neither fails the probe nor is fed by it
+   */
+  private probe(pool: GatewayPool): Promise<GatewayCheck> {
+    return new Promise((resolve) => {
+      let settled = false;
+      const finish = (error?: string) => {
+        if (settled) return;
+        settled = true;
+        clearTimeout(timeout);
+        connection.close();
+        resolve({ ok: !error, source: 'probe', error });
+      };
+
+      // Any retry means the handshake failed
+      const connection = this.newConnection(
+        pool,
+        `probe-${++this.connectionSeq}`,
+        {
+          onReady: () => finish(),
+          onMessage: () => undefined,
+          onDisconnect: () => undefined,
+          onReconnecting: (_, schedule) =>
+            finish(pool.lastError?.message ?? schedule.reason),
+          onGiveUp: () => finish('Gateway unavailable'),
+        },
+        new CircuitBreaker(1, this.probeTimeout),
+      );
+      const timeout = setTimeout(
+        () => finish('Probe handshake timed out'),
+        this.probeTimeout,
+      );
+
+      connection.connect();
+    });
+  }
+
+  /**
+   * Drop a client from its pooled connection, releasing idle connections
+   */
+  private releaseConnection(clientId: string, connection: GatewayConnection) {
+    connection.clients.delete(clientId);
+    if (connection.clients.size > 0) return;
+
+    this.cancelIdleTimeout(connection);
+    connection.idleTimeout = setTimeout(() => {
+      if (connection.clients.size > 0) return;
+
+      connection.close();
+      const pool = this.pools.get(connection.gateway);
+      const index = pool?.connections.indexOf(connection) ?? -1;
+      if (index !== -1) {
+        pool?.connections.splice(index, 1);
+      }
+    }, this.poolIdleTimeout);
+  }
+
+  private cancelIdleTimeout(connection: GatewayConnection) {
+    if (connection.idleTimeout) {
+      clearTimeout(connection.idleTimeout);
+      connection.idleTimeout = undefined;
+    }
+  }
+
+  /**
+   * Handle successful connection (hello-ok) of a pooled connection
+   */
+  private handleConnectionReady(connection: GatewayConnection): void {
+    connection.clients.forEach((clientId) => {
+      const bridge = this.bridges.get(clientId);
+      if (!bridge) return;
+
+      // Process any queued messages
+      const queued = bridge.messageQueue.splice(0);
+      queued.forEach((entry) => {
+        clearTimeout(entry.expiryTimeout);
+        this.dispatch(clientId, bridge, entry.message);
+      });
+      bridge.deferredCalls
+        .splice(0)
+        .forEach((call) => this.sendCall(clientId, bridge, call));
+
+      this.notifyConnected(clientId);
+    });
+  }
+
+  /**
+   * Forget runs and requests that were in flight on a dropped connection,
+   * re-queueing chat messages the gateway had not yet accepted (they are
+   * retried with the same idempotency key, so they never run twice),
+   * failing calls that were already sent and ending accepted runs with a
+   * `connection_lost` error for their owner and viewers
+   */
+  private handleConnectionLost(connection: GatewayConnection): void {
+    const clients = connection.clients;
+    const requeued = new Set<string>();
+    this.pendingRequests.forEach((pending, reqId) => {
+      if (!clients.has(pending.clientId)) return;
+
+      const bridge = this.bridges.get(pending.clientId);
+      if (bridge?.deferredCalls.some((call) => call.id === reqId)) return;
+
+      this.settle(reqId);
+      pending.reject?.(
+        new GatewayRequestError(pending.method, 'connection_lost'),
+      );
+      if (bridge && pending.message && !pending.accepted) {
+        if (pending.runId) requeued.add(pending.runId);
+        this.enqueue(pending.clientId, bridge, pending.message);
+      }
+    });
+    this.runOwners.forEach((owner, runId) => {
+      if (!clients.has(owner.clientId)) return;
+      if (requeued.has(runId)) {
+        this.dropRun(runId);
+        this.runTimings.delete(runId);
+        return;
+      }
+
+      this.logger.warn(
+        `[${owner.clientId}] Run ${runId} lost with the gateway connection`,
+      );
+      [owner.clientId, ...(owner.viewers ?? [])].forEach((clientId) =>
+        this.viewer(clientId)?.client.onMessage({
+          type: 'error',
+          error: { message: 'Gateway connection lost' },
+          runId,
+          reason: 'connection_lost',
+        }),
+      );
+      this.responseBuffer.finish(runId, 'error', 'connection_lost');
+      this.transcribeResponse(runId);
+      this.abandonRun(runId);
+    });
+  }
+
+  /**
+   * Take a connection that gave up reconnecting out of the pool and reject
+   * whatever its clients still had queued; they must reconnect to retry
+   */
+  private handleConnectionFailed(
+    pool: GatewayPool,
+    connection: GatewayConnection,
+  ): void {
+    this.cancelIdleTimeout(connection);
+    const index = pool.connections.indexOf(connection);
+    if (index !== -1) {
+      pool.connections.splice(index, 1);
+    }
+
+    connection.clients.forEach((clientId) => {
+      const bridge = this.bridges.get(clientId);
+      if (!bridge) return;
+
+      bridge.messageQueue.splice(0).forEach((entry) => {
+        clearTimeout(entry.expiryTimeout);
+        if (entry.message.type === 'message') {
+          bridge.client.onStatus({
+            id: entry.message.id,
+            status: 'rejected',
+            reason: 'gateway_unavailable',
+          });
+        }
+      });
+      this.failDeferredCalls(bridge, 'not_connected');
+      bridge.client.onGatewayStatus({
+        isConnected: false,
+        state: 'unavailable',
+      });
+    });
+  }
+
+  /**
+   * Notify client of successful connection
+   */
+  private notifyConnected(clientId: string): void {
+    const bridge = this.bridges.get(clientId);
+    if (!bridge) return;
+
+    bridge.client.onMessage({
+      type: 'gateway_connected',
+      payload: { status: 'connected', gateway: bridge.connection.gateway },
+    });
+    bridge.client.onGatewayStatus({ isConnected: true, state: 'connected' });
+
+    const presence = this.pools.get(bridge.connection.gateway)?.presence;
+    if (presence) {
+      bridge.client.onGatewayPresence({
+        gateway: bridge.connection.gateway,
+        entries: presence,
+      });
+    }
+  }
+
+  /**
+   * Tell a client when the gateway connection will be retried
+   */
+  private notifyReconnecting(
+    clientId: string,
+    schedule: ReconnectSchedule,
+  ): void {
+    this.bridges.get(clientId)?.client.onGatewayStatus({
+      isConnected: false,
+      state: 'reconnecting',
+      ...schedule,
+    });
+  }
+
+  /**
+   * Handle messages from a pooled gateway connection, routing replies
+   * back to the owning client by request id and runId
+   */
+  private handleGatewayMessage(
+    connection: GatewayConnection,
+    message: GatewayMessage,
+  ): void {
+    if (message.type === 'res') {
+      this.handleGatewayResponse(connection, message);
+      return;
+    }
+
+    if (message.type !== 'event') return;
+
+    // Handle agent events (streaming responses)
+    if (message.event === 'agent') {
+      const agentEvent = message.payload as AgentEventPayload | undefined;
+      if (!agentEvent) return;
+      this.filterAgentEvent(agentEvent).forEach(({ payload, applied }) =>
+        this.relayAgentEvent(connection, payload, applied),
+      );
+      return;
+    }
+
+    // Handle chat events
+    if (message.event === 'chat') {
+      const chatEvent = message.payload as GatewayChatMessage | undefined;
+      if (!chatEvent) return;
+      const payload =
+        chatEvent.message !== undefined
+          ? {
+              ...chatEvent,
+              message: this.filterRunOutput(chatEvent.runId, chatEvent.message),
+            }
+          : chatEvent;
+      this.routeRunEvent(connection, payload, (clientId) =>
+        this.viewer(clientId)?.client.onMessage(payload),
+      );
+      return;
+    }
+
+    if (message.event === 'presence') {
+      this.relayPresence(connection, message.payload);
+      return;
+    }
+
+    // Ignore internal gateway events (tick, health, etc.)
+    // These should not be forwarded to the chat client
+    this.logger.debug(
+      `[${connection.id}] Ignoring internal event: ${message.event}`,
+    );
+  }
+
+  /**
+   * Pass the gateway's presence, curated, to the clients on the connection
+   * and keep it for clients attaching later
+   */
+  private relayPresence(connection: GatewayConnection, payload: unknown): void {
+    const entries = curatePresence(payload);
+    const pool = this.pools.get(connection.gateway);
+    if (!entries || !pool) return;
+
+    pool.presence = entries;
+    connection.clients.forEach((clientId) =>
+      this.bridges.get(clientId)?.client.onGatewayPresence({
+        gateway: connection.gateway,
+        entries,
+      }),
+    );
+  }
+
+  /**
+   * Buffer an agent event and deliver it, telling clients when the content
+   * filter altered it
+   */
+  private relayAgentEvent(
+    connection: GatewayConnection,
+    payload: AgentEventPayload,
+    applied: AppliedFilter[],
+  ): void {
+    // Buffer before routing, so output is kept even if the owner left
+    const seq = this.responseBuffer.record(payload);
+    this.routeRunEvent(connection, payload, (clientId) => {
+      this.handleAgentEvent(clientId, payload, seq);
+      if (applied.length) this.notifyFiltered(clientId, payload, seq, applied);
+    });
+    this.recordRunTiming(payload);
+
+    const phase = payload.data?.phase;
+    if (
+      payload.runId &&
+      payload.stream === 'lifecycle' &&
+      (phase === 'end' || phase === 'error')
+    ) {
+      this.transcribeResponse(payload.runId);
+      this.dropRun(payload.runId);
+    }
+  }
+
+  /**
+   * Apply the outbound content policy of the client that started a run
+   * (the default policy for runs started elsewhere) to an agent event.
+   * Streamed text is released a sentence at a time, so an event may give
+   * way to none, and the event ending the run is preceded by whatever was
+   * still held back.
+   */
+  private filterAgentEvent(
+    payload: AgentEventPayload,
+  ): { payload: AgentEventPayload; applied: AppliedFilter[] }[] {
+    const { runId, stream, data } = payload;
+    const run = runId ? this.filteredRun(runId) : undefined;
+    if (!runId || !run || !stream || !data) return [{ payload, applied: [] }];
+
+    const context = { clientId: run.clientId, runId };
+    if (
+      stream === 'assistant' ||
+      stream === 'thinking' ||
+      stream === 'reasoning'
+    ) {
+      const filter =
+        run.streams.get(stream) ??
+        this.filters.outboundStream(run.policy, context);
+      if (!filter) return [{ payload, applied: [] }];
+      run.streams.set(stream, filter);
+
+      const delta = data.delta || (data.text || '').slice(filter.received);
+      const { text, applied } = filter.push(delta);
+      if (!text) return [];
+      return [
+        {
+          payload: {
+            ...payload,
+            data: { ...data, delta: text, text: filter.text },
+          },
+          applied,
+        },
+      ];
+    }
+
+    if (stream === 'tool') {
+      const { value, applied } = this.filters.outbound(
+        run.policy,
+        {
+          args: data.args,
+          partialResult: data.partialResult,
+          result: data.result,
+        },
+        context,
+      );
+      return [
+        { payload: { ...payload, data: { ...data, ...value } }, applied },
+      ];
+    }
+
+    if (
+      stream === 'lifecycle' &&
+      (data.phase === 'end' || data.phase === 'error')
+    ) {
+      const held = [...run.streams].flatMap(([name, filter]) => {
+        const { text, applied } = filter.flush();
+        if (!text) return [];
+        return [
+          {
+            payload: {
+              runId,
+              sessionKey: payload.sessionKey,
+              stream: name,
+              data: { delta: text, text: filter.text },
+            },
+            applied,
+          },
+        ];
+      });
+      run.streams.clear();
+      run.ended = true;
+      return [...held, { payload, applied: [] }];
+    }
+
+    return [{ payload, applied: [] }];
+  }
+
+  /**
+   * Filtering state of a run, or undefined when its policy leaves output
+   * as it is
+   */
+  private filteredRun(runId: string): FilteredRun | undefined {
+    let run = this.filteredRuns.get(runId);
+    if (!run && this.filters.filtersOutbound(undefined)) {
+      run = { streams: new Map(), ended: false };
+      this.filteredRuns.set(runId, run);
+    }
+    return run && this.filters.filtersOutbound(run.policy) ? run : undefined;
+  }
+
+  /**
+   * Apply the outbound content policy of a run to a whole value
+   */
+  private filterRunOutput<T>(runId: string | undefined, value: T): T {
+    const run = runId ? this.filteredRuns.get(runId) : undefined;
+    return this.filters.outbound(run?.policy, value, {
+      clientId: run?.clientId,
+      runId,
+    }).value;
+  }
+
+  /**
+   * Tell a client part of a run's output was altered, unless it is a
+   * stream the client did not opt in to
+   */
+  private notifyFiltered(
+    clientId: string,
+    payload: AgentEventPayload,
+    seq: number | undefined,
+    applied: AppliedFilter[],
+  ): void {
+    const viewer = this.viewer(clientId);
+    const optIn: AgentStream | undefined =
+      payload.stream === 'tool'
+        ? 'tools'
+        : payload.stream === 'assistant'
+          ? undefined
+          : 'thinking';
+    if (!viewer || (optIn && !viewer.streams.has(optIn))) return;
+
+    viewer.client.onFiltered({
+      direction: 'outbound',
+      runId: payload.runId,
+      ...(seq !== undefined && { seq }),
+      rules: applied,
+    });
+  }
+
+  /**
+   * Route a response frame to the request it answers: settling calls,
+   * acknowledging chat messages and relaying final agent replies
+   */
+  private handleGatewayResponse(
+    connection: GatewayConnection,
+    message: GatewayMessage,
+  ): void {
+    const pending = message.id
+      ? this.pendingRequests.get(message.id)
+      : undefined;
+    if (!message.id || !pending) {
+      // Late replies to requests that timed out or whose client left
+      this.logger.debug(
+        `[${connection.id}] Dropping response to unknown request ${message.id}`,
+      );
+      return;
+    }
+
+    const { clientId } = pending;
+    // Any reply means the gateway has the request; stop its timeout
+    clearTimeout(pending.timeout);
+
+    // Track the run under the gateway's runId, should it differ from ours
+    const reply = message.payload as
+      | { status?: string; runId?: string }
+      | undefined;
+    if (
+      reply?.status === 'accepted' &&
+      reply.runId &&
+      pending.runId &&
+      reply.runId !== pending.runId
+    ) {
+      this.rekeyRun(pending.runId, reply.runId);
+      pending.runId = reply.runId;
+    }
+
+    // Acknowledge (or reject) chat messages on the first response
+    if (pending.message?.type === 'message' && !pending.accepted) {
+      pending.accepted = true;
+      if (message.ok && pending.runId) {
+        this.transcribeMessage(
+          clientId,
+          connection,
+          pending.message,
+          pending.runId,
+        );
+      }
+      // Only a retry before acceptance needs the content again
+      if (pending.message.attachments) {
+        pending.message = { ...pending.message, attachments: undefined };
+      }
+      this.bridges.get(clientId)?.client.onStatus(
+        message.ok
+          ? {
+              id: pending.message.id,
+              status: 'accepted',
+              runId: reply?.runId,
+            }
+          : {
+              id: pending.message.id,
+              status: 'rejected',
+              reason: 'gateway_error',
+              error: message.error,
+            },
+      );
+    }
+
+    // The agent method acknowledges with "accepted" before its final response
+    if (reply?.status !== 'accepted') {
+      this.pendingRequests.delete(message.id);
+    }
+
+    if (!message.ok) {
+      this.logger.error(
+        `[${clientId}] Gateway request ${pending.method} failed: ${JSON.stringify(message.error)}`,
+      );
+      if (pending.runId) this.abandonRun(pending.runId);
+    }
+
+    if (pending.resolve && pending.reject) {
+      if (message.ok) {
+        pending.resolve(message.payload);
+      } else {
+        pending.reject(
+          new GatewayRequestError(
+            pending.method,
+            'gateway_error',
+            message.error,
+          ),
+        );
+      }
+      return;
+    }
+
+    const bridge = this.bridges.get(clientId);
+    if (!message.ok) {
+      bridge?.client.onMessage({ type: 'error', error: message.error });
+      return;
+    }
+    bridge?.client.onMessage({
+      ...(message as GatewayResponseMessage),
+      payload: this.filters.outbound(bridge.filters, message.payload, {
+        clientId,
+        runId: pending.runId,
+      }).value,
+    });
+  }
+
+  /**
+   * Fetch one normalized page of the client's session history; throws a
+   * HistoryCursorError when `before` is not a known message id
+   */
+  async fetchHistory(
+    clientId: string,
+    request: { limit?: number; before?: string },
+  ): Promise<HistoryResult> {
+    const fetched = this.historyFetchSize(request);
+    const raw = await this.call<unknown>(clientId, 'sessions.history', {
+      sessionKey: this.getSessionKey(clientId),
+      limit: fetched,
+    });
+    // Earlier output is subject to the same policy as live output
+    const { value: payload } = this.filters.outbound(
+      this.bridges.get(clientId)?.filters,
+      raw,
+      { clientId },
+    );
+
+    return {
+      history: buildHistoryPage(
+        payload,
+        request.limit || 50,
+        fetched,
+        request.before,
+      ),
+      payload,
+    };
+  }
+
+  /**
+   * Messages to ask the gateway for: one extra to detect more pages, or a
+   * wide window to find an older page's cursor in
+   */
+  private historyFetchSize(request: { limit?: number; before?: string }) {
+    return request.before ? this.historyMaxFetch : (request.limit || 50) + 1;
+  }
+
+  /**
+   * Deliver a run-scoped event to the client that started the run, or to
+   * every client on the connection viewing the same session
+   */
+  private routeRunEvent(
+    connection: GatewayConnection,
+    payload: { runId?: string; sessionKey?: string },
+    deliver: (clientId: string) => void,
+  ): void {
+    const owner = payload.runId ? this.runOwners.get(payload.runId) : undefined;
+    if (owner) {
+      if (!owner.cancelled) {
+        deliver(owner.clientId);
+        owner.viewers?.forEach(deliver);
+      }
+      return;
+    }
+
+    const { sessionKey } = payload;
+    if (!sessionKey) return;
+
+    // The gateway may report keys in canonical "agent:<id>:<key>" form
+    connection.clients.forEach((clientId) => {
+      const bridge = this.bridges.get(clientId);
+      if (
+        bridge &&
+        (sessionKey === bridge.sessionKey ||
+          sessionKey.endsWith(`:${bridge.sessionKey}`))
+      ) {
+        deliver(clientId);
+      }
+    });
+  }
+
+  /**
+   * Observe time to first delta and run duration for runs we started
+   */
+  private recordRunTiming(payload: AgentEventPayload): void {
+    const { runId } = payload;
+    const timing = runId ? this.runTimings.get(runId) : undefined;
+    if (!runId || !timing) return;
+
+    const elapsed = (Date.now() - timing.startedAt) / 1000;
+    if (payload.stream === 'assistant' && !timing.firstDelta) {
+      timing.firstDelta = true;
+      this.metricsService.firstDelta.observe(elapsed);
+    }
+
+    const phase = payload.data?.phase;
+    if (
+      payload.stream === 'lifecycle' &&
+      (phase === 'end' || phase === 'error')
+    ) {
+      const outcome = this.runOwners.get(runId)?.cancelled
+        ? 'cancelled'
+        : phase;
+      this.metricsService.runDuration.observe({ outcome }, elapsed);
+      this.runTimings.delete(runId);
+    }
+  }
+
+  /**
+   * Handle agent events (streaming responses from the AI)
+   */
+  private handleAgentEvent(
+    clientId: string,
+    payload: AgentEventPayload,
+    seq?: number,
+  ): void {
+    const bridge = this.viewer(clientId);
+    if (!bridge) return;
+    bridge.lastActivityAt = Date.now();
+    // Whatever streams the client opted in to, its face follows the run
+    this.expressions.observe(clientId, payload);
+
+    // Log for debugging
+    this.logger.debug(
+      `[${clientId}] Agent event: stream=${payload.stream}, phase=${payload.data?.phase}`,
+    );
+
+    // Handle streaming assistant text (the actual response)
+    if (payload.stream === 'assistant' && payload.data) {
+      const delta = payload.data.delta || '';
+      const fullText = payload.data.text || '';
+
+      if (delta || fullText) {
+        this.logger.log(
+          `[${clientId}] Forwarding response: "${(delta || fullText).substring(0, 50)}..."`,
+        );
+        bridge.client.onMessage({
+          type: 'response',
+          text: fullText,
+          delta: delta,
+          content: delta || fullText, // For backward compat
+          streaming: true,
+          runId: payload.runId,
+          seq,
+          isBot: true,
+        });
+      }
+    }
+
+    // Handle lifecycle events (start, end, error)
+    else if (payload.stream === 'lifecycle' && payload.data) {
+      if (payload.data.phase === 'end') {
+        this.logger.log(`[${clientId}] Response complete`);
+        bridge.client.onMessage({
+          type: 'response_complete',
+          runId: payload.runId,
+        });
+      } else if (payload.data.phase === 'error') {
+        this.logger.error(
+          `[${clientId}] Agent error: ${JSON.stringify(payload.data.error)}`,
+        );
+        bridge.client.onMessage({
+          type: 'error',
+          error: payload.data.error,
+          runId: payload.runId,
+        });
+      } else if (bridge.streams.has('status')) {
+        bridge.client.onMessage({
+          type: 'status',
+          runId: payload.runId,
+          stream: 'lifecycle',
+          phase: payload.data.phase,
+        });
+      }
+    }
+
+    // Handle tool calls (start, partial updates, result)
+    else if (payload.stream === 'tool' && payload.data) {
+      if (bridge.streams.has('tools')) {
+        this.forwardToolEvent(bridge, payload.runId, payload.data);
+      }
+    }
+
+    // Handle reasoning text
+    else if (payload.stream === 'thinking' || payload.stream === 'reasoning') {
+      const delta = payload.data?.delta || '';
+      const text = payload.data?.text || '';
+      if (bridge.streams.has('thinking') && (delta || text)) {
+        bridge.client.onMessage({
+          type: 'thinking',
+          runId: payload.runId,
+          text,
+          delta,
+        });
+      }
+    }
+
+    // Anything else (compaction, retries, ...) is an intermediate status
+    else if (payload.stream && bridge.streams.has('status')) {
+      bridge.client.onMessage({
+        type: 'status',
+        runId: payload.runId,
+        stream: payload.stream,
+        phase: payload.data?.phase,
+        data: payload.data,
+      });
+    }
+  }
+
+  private forwardToolEvent(
+    bridge: RunViewer,
+    runId: string | undefined,
+    data: AgentEventData,
+  ): void {
+    const { phase, name, toolCallId } = data;
+    const base = { runId, toolCallId, name: String(name) };
+
+    if (phase === 'start') {
+      bridge.client.onMessage({ type: 'tool_start', ...base, args: data.args });
+    } else if (phase === 'update') {
+      bridge.client.onMessage({
+        type: 'tool_update',
+        ...base,
+        partialResult: data.partialResult,
+      });
+    } else if (phase === 'result') {
+      bridge.client.onMessage({
+        type: 'tool_result',
+        ...base,
+        result: data.result,
+        isError: Boolean(data.isError),
+      });
+    }
+  }
+
+  /**
+   * Send a message through the bridge to the gateway, queueing it while
+   * the gateway connection is not ready
+   */
+  sendMessage(clientId: string, message: ClientMessage): void {
+    const bridge = this.bridges.get(clientId);
+    if (!bridge) {
+      this.logger.warn(`[${clientId}] No bridge found`);
+      return;
+    }
+    bridge.lastActivityAt = Date.now();
+
+    // Pin chat messages to the session they were written in
+    if (message.type === 'message' && !message.sessionKey) {
+      message = { ...message, sessionKey: bridge.sessionKey };
+    }
+
+    if (bridge.connection.isClosed) {
+      this.logger.warn(`[${clientId}] Gateway unavailable, rejecting message`);
+      if (message.type === 'message') {
+        bridge.client.onStatus({
+          id: message.id,
+          status: 'rejected',
+          reason: 'gateway_unavailable',
+        });
+      }
+      return;
+    }
+
+    if (!bridge.connection.isReady) {
+      this.enqueue(clientId, bridge, message);
+      return;
+    }
+
+    this.dispatch(clientId, bridge, message);
+  }
+
+  /**
+   * Convert and send a message on the bridge's connection
+   */
+  private dispatch(
+    clientId: string,
+    bridge: BridgeConnection,
+    message: ClientMessage,
+  ): void {
+    const gatewayMessage = this.convertToGatewayFormat(bridge, message);
+    const { idempotencyKey: runId, sessionKey } = gatewayMessage.params;
+
+    this.track(gatewayMessage.id, {
+      clientId,
+      method: gatewayMessage.method,
+      message,
+      runId,
+    });
+    // The gateway uses the idempotency key as the runId
+    this.runOwners.set(runId, {
+      clientId,
+      sessionKey,
+      viewers: this.follow(message.followers),
+    });
+    this.responseBuffer.start(runId, sessionKey);
+    this.runTimings.set(runId, { startedAt: Date.now(), firstDelta: false });
+    this.trackFiltering(clientId, bridge, runId);
+
+    if (!bridge.connection.send(gatewayMessage)) {
+      this.logger.warn(`[${clientId}] Gateway not connected, queueing message`);
+      this.settle(gatewayMessage.id);
+      this.enqueue(clientId, bridge, message);
+      return;
+    }
+
+    if (message.type === 'message') {
+      bridge.client.onStatus({ id: message.id, status: 'sent' });
+    }
+  }
+
+  /**
+   * Move everything tracked for a run to the runId the gateway accepted it
+   * under, so its events find the owner, filters, timing and buffer
+   */
+  private rekeyRun(runId: string, gatewayRunId: string): void {
+    [
+      this.runOwners,
+      this.runTimings,
+      this.transcribedRuns,
+      this.filteredRuns,
+    ].forEach((runs: Map<string, unknown>) => {
+      const entry = runs.get(runId);
+      if (entry === undefined || runs.has(gatewayRunId)) return;
+      runs.delete(runId);
+      runs.set(gatewayRunId, entry);
+    });
+    this.responseBuffer.rename(runId, gatewayRunId);
+  }
+
+  /**
+   * Viewers of a new run: the followers still connected here, and those on
+   * other nodes
+   */
+  private follow(followers: RunFollower[] = []): Set<string> | undefined {
+    const viewers = followers.filter(({ clientId, remote }) => {
+      if (!remote) return this.bridges.has(clientId);
+
+      this.remoteViewers.set(clientId, {
+        client: remote.client,
+        streams: new Set(remote.streams),
+        lastActivityAt: Date.now(),
+      });
+      return true;
+    });
+    return viewers.length
+      ? new Set(viewers.map(({ clientId }) => clientId))
+      : undefined;
   }
 
   /**
-   * Generate Ed25519 keypair for device identity using Node's crypto
+   * Filter a run's output under the policy of the client starting it,
+   * forgetting ended runs the response buffer no longer holds
    */
-  private generateDeviceIdentity(): DeviceIdentity {
-    const { publicKey, privateKey } = generateKeyPairSync('ed25519', {
-      publicKeyEncoding: { type: 'spki', format: 'der' },
-      privateKeyEncoding: { type: 'pkcs8', format: 'der' },
+  private trackFiltering(
+    clientId: string,
+    bridge: BridgeConnection,
+    runId: string,
+  ): void {
+    this.filteredRuns.forEach((run, filtered) => {
+      if ((run.ended || run.clientId) && !this.responseBuffer.get(filtered)) {
+        this.filteredRuns.delete(filtered);
+      }
+    });
+    this.filteredRuns.set(runId, {
+      policy: bridge.filters,
+      clientId,
+      streams: new Map(),
+      ended: false,
     });
+  }
 
-    // Extract the raw 32-byte public key from SPKI format
-    // SPKI for Ed25519 has a 12-byte header
-    const rawPublicKey = publicKey.slice(12);
+  /**
+   * Hold a message until the gateway is ready, rejecting it when the queue
+   * is full (or the node's queues hold too much attachment content) or
+   * once it has waited longer than the queue TTL
+   */
+  private enqueue(
+    clientId: string,
+    bridge: BridgeConnection,
+    message: ClientMessage,
+  ): void {
+    const id = message.type === 'message' ? message.id : undefined;
 
-    // Device ID is SHA-256 hash of raw public key (hex)
-    const deviceId = createHash('sha256')
-      .update(rawPublicKey)
-      .digest('hex');
+    const bytes = attachmentBytes(message);
+    if (
+      bridge.messageQueue.length >= this.queueMaxDepth ||
+      (bytes > 0 && this.queuedAttachmentBytes() + bytes > this.queueMaxBytes)
+    ) {
+      this.logger.warn(`[${clientId}] Message queue full, rejecting message`);
+      if (id) {
+        bridge.client.onStatus({
+          id,
+          status: 'rejected',
+          reason: 'queue_full',
+        });
+      }
+      return;
+    }
 
-    // Base64url encode the raw public key
-    const publicKeyB64 = rawPublicKey
-      .toString('base64')
-      .replace(/\+/g, '-')
-      .replace(/\//g, '_')
-      .replace(/=+$/, '');
+    const entry: QueuedMessage = { message };
+    entry.expiryTimeout = setTimeout(() => {
+      const index = bridge.messageQueue.indexOf(entry);
+      if (index === -1) return;
 
-    return {
-      deviceId,
-      publicKey: publicKeyB64,
-      privateKey,
-    };
+      bridge.messageQueue.splice(index, 1);
+      this.logger.warn(`[${clientId}] Queued message expired`);
+      if (id) {
+        bridge.client.onStatus({ id, status: 'rejected', reason: 'expired' });
+      }
+    }, this.queueTtl);
+
+    bridge.messageQueue.push(entry);
+    this.logger.debug(`[${clientId}] Queueing message (gateway not ready)`);
+    if (id) {
+      bridge.client.onStatus({ id, status: 'queued' });
+    }
   }
 
   /**
-   * Sign a message with the device private key
+   * Attachment content held by the messages queued on this node
    */
-  private signMessage(message: string): string {
-    if (!this.deviceIdentity) {
-      throw new Error('Device identity not initialized');
-    }
+  private queuedAttachmentBytes(): number {
+    let bytes = 0;
+    this.bridges.forEach((bridge) =>
+      bridge.messageQueue.forEach(({ message }) => {
+        bytes += attachmentBytes(message);
+      }),
+    );
+    return bytes;
+  }
+
+  /**
+   * Call a gateway method on behalf of a client, resolving with the
+   * response payload. Calls made while the connection is (re)connecting
+   * are sent once it is ready; all of them are subject to the method's
+   * timeout (GATEWAY_REQUEST_TIMEOUT, or its GATEWAY_REQUEST_TIMEOUTS entry).
+   */
+  call<T = unknown>(
+    clientId: string,
+    method: string,
+    params: Record<string, unknown>,
+  ): Promise<T> {
+    return new Promise<T>((resolve, reject) => {
+      const bridge = this.bridges.get(clientId);
+      if (!bridge || bridge.connection.isClosed) {
+        this.logger.warn(`[${clientId}] Cannot call ${method} - no gateway`);
+        reject(new GatewayRequestError(method, 'not_connected'));
+        return;
+      }
+
+      bridge.lastActivityAt = Date.now();
+      const call: DeferredCall = { id: uuidv4(), method, params };
+      this.track(call.id, { clientId, method, resolve, reject });
 
-    const messageBuffer = Buffer.from(message, 'utf-8');
-    
-    // Import the private key from DER format
-    const privateKeyObject = require('crypto').createPrivateKey({
-      key: this.deviceIdentity.privateKey,
-      format: 'der',
-      type: 'pkcs8',
+      if (!bridge.connection.isReady) {
+        this.logger.debug(
+          `[${clientId}] Deferring ${method} (gateway not ready)`,
+        );
+        bridge.deferredCalls.push(call);
+        return;
+      }
+      this.sendCall(clientId, bridge, call);
     });
+  }
+
+  private sendCall(
+    clientId: string,
+    bridge: BridgeConnection,
+    call: DeferredCall,
+  ): void {
+    // Deferred calls may have timed out in the meantime
+    if (!this.pendingRequests.has(call.id)) return;
 
-    const signature = sign(null, messageBuffer, privateKeyObject);
-    
-    // Base64url encode the signature
-    return signature
-      .toString('base64')
-      .replace(/\+/g, '-')
-      .replace(/\//g, '_')
-      .replace(/=+$/, '');
+    if (!bridge.connection.send({ type: 'req', ...call })) {
+      this.logger.debug(`[${clientId}] Deferring ${call.method} (send failed)`);
+      bridge.deferredCalls.push(call);
+    }
   }
 
   /**
-   * Create a bridge connection for a client
+   * Register an outbound request and start its timeout
    */
-  createBridge(clientId: string, onMessage: (message: any) => void): void {
-    if (this.bridges.has(clientId)) {
-      this.closeBridge(clientId);
+  private track(reqId: string, pending: PendingRequest): void {
+    const timeout =
+      this.requestTimeouts.get(pending.method) ?? this.requestTimeout;
+    if (timeout > 0) {
+      pending.timeout = setTimeout(() => this.expire(reqId), timeout);
     }
-
-    const bridge: BridgeConnection = {
-      ws: null,
-      onMessage,
-      authenticated: false,
-      messageQueue: [],
-    };
-
-    this.bridges.set(clientId, bridge);
-    this.connectToGateway(clientId);
+    this.pendingRequests.set(reqId, pending);
   }
 
   /**
-   * Connect to the OpenClaw gateway WebSocket
+   * Forget a request, stopping its timeout
    */
-  private connectToGateway(clientId: string): void {
-    const bridge = this.bridges.get(clientId);
-    if (!bridge) return;
+  private settle(reqId: string): PendingRequest | undefined {
+    const pending = this.pendingRequests.get(reqId);
+    clearTimeout(pending?.timeout);
+    this.pendingRequests.delete(reqId);
+    return pending;
+  }
 
-    try {
-      this.logger.log(`[${clientId}] Connecting to gateway: ${this.gatewayUrl}`);
-      const ws = new WebSocket(this.gatewayUrl);
+  /**
+   * Fail a request the gateway did not answer in time
+   */
+  private expire(reqId: string): void {
+    const pending = this.settle(reqId);
+    if (!pending) return;
 
-      ws.on('open', () => {
-        this.logger.log(`[${clientId}] WebSocket connected, awaiting challenge...`);
-        bridge.ws = ws;
-      });
+    this.logger.warn(
+      `[${pending.clientId}] Gateway request ${pending.method} timed out`,
+    );
+    const bridge = this.bridges.get(pending.clientId);
+    if (bridge) {
+      bridge.deferredCalls = bridge.deferredCalls.filter(
+        (call) => call.id !== reqId,
+      );
+    }
 
-      ws.on('message', (data: WebSocket.Data) => {
-        try {
-          const message: GatewayMessage = JSON.parse(data.toString());
-          this.handleGatewayMessage(clientId, message);
-        } catch (err) {
-          this.logger.error(
-            `[${clientId}] Failed to parse gateway message: ${err}`,
-          );
-        }
+    if (pending.message?.type === 'message') {
+      bridge?.client.onStatus({
+        id: pending.message.id,
+        status: 'rejected',
+        reason: 'timeout',
       });
+    }
+    if (pending.runId) this.abandonRun(pending.runId);
+    pending.reject?.(new GatewayRequestError(pending.method, 'timeout'));
+  }
 
-      ws.on('close', () => {
-        this.logger.log(`[${clientId}] Gateway connection closed`);
-        bridge.ws = null;
-        bridge.authenticated = false;
+  private failDeferredCalls(
+    bridge: BridgeConnection,
+    reason: GatewayRequestFailure,
+  ): void {
+    bridge.deferredCalls.splice(0).forEach((call) => {
+      this.settle(call.id)?.reject?.(
+        new GatewayRequestError(call.method, reason),
+      );
+    });
+  }
 
-        if (this.bridges.has(clientId)) {
-          bridge.reconnectTimeout = setTimeout(() => {
-            if (this.bridges.has(clientId)) {
-              this.connectToGateway(clientId);
-            }
-          }, 5000);
-        }
-      });
+  /**
+   * Ask the gateway to abort one of the client's runs, or one it views
+   * (its latest own run when no runId is given), resolving with its runId
+   * once confirmed, or null if the client has no such run. The owner and
+   * viewers then get a final response_complete with reason "cancelled".
+   */
+  async cancelRun(clientId: string, runId?: string): Promise<string | null> {
+    const target = runId ?? this.currentRun(clientId);
+    const owner = target ? this.runOwners.get(target) : undefined;
+    if (
+      !target ||
+      !owner ||
+      (owner.clientId !== clientId && !owner.viewers?.has(clientId)) ||
+      owner.cancelled
+    ) {
+      return null;
+    }
 
-      ws.on('error', (error) => {
-        this.logger.error(
-          `[${clientId}] Gateway connection error: ${error.message}`,
-        );
+    // Stop forwarding the run's output straight away
+    owner.cancelled = true;
+    try {
+      // Through the owner's gateway, which a viewer may not share
+      await this.call(owner.clientId, 'chat.abort', {
+        sessionKey: owner.sessionKey,
+        runId: target,
       });
-
-      bridge.ws = ws;
     } catch (error) {
-      this.logger.error(
-        `[${clientId}] Failed to create gateway connection: ${error}`,
+      this.logger.warn(
+        `[${clientId}] Failed to cancel run ${target}: ${(error as Error).message}`,
       );
+      owner.cancelled = false;
+
+      // The run may have finished while the abort was in flight
+      if (this.runOwners.has(target)) throw error;
+      [owner.clientId, ...(owner.viewers ?? [])].forEach((viewer) =>
+        this.viewer(viewer)?.client.onMessage({
+          type: 'response_complete',
+          runId: target,
+        }),
+      );
+      return target;
     }
+
+    this.logger.log(`[${clientId}] Run ${target} cancelled`);
+    this.responseBuffer.finish(target, 'cancelled');
+    this.transcribeResponse(target);
+    [owner.clientId, ...(owner.viewers ?? [])].forEach((viewer) =>
+      this.viewer(viewer)?.client.onMessage({
+        type: 'response_complete',
+        runId: target,
+        reason: 'cancelled',
+      }),
+    );
+    return target;
   }
 
   /**
-   * Handle messages from the gateway
+   * Replay a buffered run to a client: the deltas after `afterSeq` when
+   * they are still buffered, otherwise the assembled text. A run that is
+   * still streaming is then handed to the client for the live remainder.
+   * A remote viewer stands in for a client connected to another node.
    */
-  private handleGatewayMessage(
+  resumeRun(
     clientId: string,
-    message: GatewayMessage,
+    run: BufferedRun,
+    afterSeq?: number,
+    remote?: RemoteViewer,
   ): void {
-    const bridge = this.bridges.get(clientId);
+    const bridge: RunViewer | undefined = remote
+      ? {
+          client: remote.client,
+          streams: new Set(remote.streams),
+          lastActivityAt: Date.now(),
+        }
+      : this.bridges.get(clientId);
     if (!bridge) return;
 
-    this.logger.debug(
-      `[${clientId}] Received: ${JSON.stringify(message).substring(0, 200)}`,
-    );
-
-    // Handle connect.challenge event
-    if (message.type === 'event' && message.event === 'connect.challenge') {
-      this.handleConnectChallenge(clientId, message.payload);
-      return;
+    const base: Pick<
+      ResponseMessage,
+      'type' | 'streaming' | 'runId' | 'isBot'
+    > = { type: 'response', streaming: true, runId: run.runId, isBot: true };
+    const firstBuffered = run.deltas[0]?.seq ?? run.seq + 1;
+
+    if (afterSeq !== undefined && afterSeq + 1 >= firstBuffered) {
+      run.deltas
+        .filter((entry) => entry.seq > afterSeq)
+        .forEach((entry) =>
+          bridge.client.onMessage({
+            ...base,
+            text: run.text.slice(0, entry.length),
+            delta: entry.delta,
+            content: entry.delta,
+            seq: entry.seq,
+          }),
+        );
+    } else if (run.text) {
+      bridge.client.onMessage({
+        ...base,
+        text: run.text,
+        delta: '',
+        content: run.text,
+        seq: run.seq,
+        resumed: true,
+      });
     }
 
-    // Handle connect response
-    if (
-      message.type === 'res' &&
-      message.ok &&
-      message.payload?.type === 'hello-ok'
-    ) {
-      this.handleConnectSuccess(clientId, message.payload);
-      return;
-    }
+    this.logger.log(
+      `[${clientId}] Resumed run ${run.runId} (${run.state}) after seq ${afterSeq ?? '-'}`,
+    );
 
-    // Handle connect failure
-    if (message.type === 'res' && !message.ok) {
-      this.logger.error(
-        `[${clientId}] Gateway request failed: ${JSON.stringify(message.error)}`,
-      );
-      bridge.onMessage({
+    if (run.state === 'streaming') {
+      if (remote) {
+        this.remoteViewers.set(clientId, bridge);
+      }
+      const owner = this.runOwners.get(run.runId);
+      if (owner && owner.clientId !== clientId) {
+        owner.viewers = (owner.viewers ?? new Set()).add(clientId);
+      } else if (!owner) {
+        this.runOwners.set(run.runId, {
+          clientId,
+          sessionKey: run.sessionKey,
+        });
+      }
+    } else if (run.state === 'error') {
+      bridge.client.onMessage({
         type: 'error',
-        error: message.error,
+        error: run.error,
+        runId: run.runId,
+      });
+    } else {
+      bridge.client.onMessage({
+        type: 'response_complete',
+        runId: run.runId,
+        ...(run.state === 'cancelled' && { reason: 'cancelled' as const }),
       });
-      return;
-    }
-
-    // Handle agent events (streaming responses)
-    if (message.type === 'event' && message.event === 'agent') {
-      this.handleAgentEvent(clientId, message.payload);
-      return;
     }
+  }
 
-    // Handle chat events
-    if (message.type === 'event' && message.event === 'chat') {
-      bridge.onMessage(message.payload);
-      return;
-    }
+  private viewer(clientId: string): RunViewer | undefined {
+    return this.bridges.get(clientId) ?? this.remoteViewers.get(clientId);
+  }
 
-    // Ignore internal gateway events (tick, health, presence, etc.)
-    // These should not be forwarded to the chat client
-    if (message.type === 'event') {
-      const ignoredEvents = ['tick', 'health', 'presence', 'heartbeat', 'shutdown'];
-      if (ignoredEvents.includes(message.event || '')) {
-        this.logger.debug(`[${clientId}] Ignoring internal event: ${message.event}`);
-        return;
-      }
-    }
+  /**
+   * Forget a run's owner, and remote viewers left watching nothing
+   */
+  private dropRun(runId: string): void {
+    const owner = this.runOwners.get(runId);
+    this.runOwners.delete(runId);
+    if (!owner) return;
+
+    [owner.clientId, ...(owner.viewers ?? [])].forEach((clientId) => {
+      const watching = [...this.runOwners.values()].some(
+        (other) => other.clientId === clientId || other.viewers?.has(clientId),
+      );
+      if (!watching) this.remoteViewers.delete(clientId);
+    });
+  }
 
-    // Only forward response messages, not all events
-    if (message.type === 'res') {
-      bridge.onMessage(message);
-    }
+  /**
+   * Forget a run the gateway refused or never accepted
+   */
+  private abandonRun(runId: string): void {
+    this.dropRun(runId);
+    this.runTimings.delete(runId);
+    this.transcribedRuns.delete(runId);
+    this.filteredRuns.delete(runId);
+    this.responseBuffer.finish(runId, 'error');
   }
 
   /**
-   * Handle the connect.challenge from gateway
+   * Record a chat message the gateway accepted, and remember its run so
+   * the response can be recorded once it ends
    */
-  private handleConnectChallenge(
+  private transcribeMessage(
     clientId: string,
-    payload: { nonce: string; ts: number },
+    connection: GatewayConnection,
+    message: Extract<ClientMessage, { type: 'message' }>,
+    runId: string,
   ): void {
-    const bridge = this.bridges.get(clientId);
-    if (!bridge?.ws || !this.deviceIdentity) return;
+    const run = this.responseBuffer.get(runId);
+    if (!run) return;
 
-    this.logger.log(
-      `[${clientId}] Received connect.challenge, signing and sending connect request...`,
-    );
-
-    const signedAt = Date.now();
-    const scopes = ['operator.read', 'operator.write'];
-    
-    // Build the message to sign (matches gateway's expected format)
-    // Format: "v2|deviceId|clientId|clientMode|role|scopes|signedAt|token|nonce"
-    const signaturePayload = [
-      'v2',
-      this.deviceIdentity.deviceId,
-      'cli',         // Must match client.id
-      'cli',         // Must match client.mode
-      'operator',
-      scopes.join(','),
-      String(signedAt),
-      this.gatewayToken || '',
-      payload.nonce,
-    ].join('|');
-
-    try {
-      const signature = this.signMessage(signaturePayload);
-
-      const connectRequest = {
-        type: 'req',
-        id: uuidv4(),
-        method: 'connect',
-        params: {
-          minProtocol: 3,
-          maxProtocol: 3,
-          client: {
-            id: 'cli',        // Use CLI client ID (no origin restrictions)
-            version: '1.0.0',
-            platform: 'linux',
-            mode: 'cli',      // CLI mode
-          },
-          role: 'operator',
-          scopes: scopes,
-          caps: [],
-          commands: [],
-          permissions: {},
-          auth: {
-            token: this.gatewayToken,
-          },
-          locale: 'en-US',
-          userAgent: 'openclaw-face-bridge/1.0.0',
-          device: {
-            id: this.deviceIdentity.deviceId,
-            publicKey: this.deviceIdentity.publicKey,
-            signature: signature,
-            signedAt: signedAt,
-            nonce: payload.nonce,
-          },
-        },
-      };
+    // Runs the buffer has forgotten will never have a response to record
+    this.transcribedRuns.forEach((_, transcribed) => {
+      if (!this.responseBuffer.get(transcribed)) {
+        this.transcribedRuns.delete(transcribed);
+      }
+    });
 
-      this.sendRaw(clientId, connectRequest);
-    } catch (error) {
-      this.logger.error(`[${clientId}] Failed to sign challenge: ${error}`);
-    }
+    const transcribed: TranscribedRun = {
+      sessionKey: run.sessionKey,
+      subject: this.bridges.get(clientId)?.subject ?? null,
+      gateway: connection.gateway,
+    };
+    this.transcribedRuns.set(runId, transcribed);
+    this.transcripts.record({
+      ...transcribed,
+      role: 'user',
+      runId,
+      messageId: message.id,
+      text: message.text,
+      ...(message.attachments?.length && {
+        attachments: message.attachments.map(({ fileName, mimeType }) => ({
+          fileName,
+          mimeType,
+        })),
+      }),
+    });
   }
 
   /**
-   * Handle successful connection (hello-ok)
+   * Record the assembled response of a transcribed run that has ended
    */
-  private handleConnectSuccess(clientId: string, payload: any): void {
-    const bridge = this.bridges.get(clientId);
-    if (!bridge) return;
-
-    this.logger.log(`[${clientId}] Gateway authentication successful!`);
-    bridge.authenticated = true;
-
-    // Process any queued messages
-    while (bridge.messageQueue.length > 0) {
-      const queuedMsg = bridge.messageQueue.shift();
-      this.sendMessage(clientId, queuedMsg);
-    }
+  private transcribeResponse(runId: string): void {
+    const transcribed = this.transcribedRuns.get(runId);
+    const run = this.responseBuffer.get(runId);
+    if (!transcribed || !run || run.state === 'streaming') return;
+
+    // The gateway may end an aborted run with an error before confirming
+    const cancelled =
+      run.state === 'cancelled' ||
+      (run.state === 'error' && this.runOwners.get(runId)?.cancelled);
+
+    this.transcribedRuns.delete(runId);
+    this.transcripts.record({
+      ...transcribed,
+      role: 'assistant',
+      runId,
+      text: run.text,
+      outcome: cancelled ? 'cancelled' : run.state,
+      ...(!cancelled && run.error !== undefined && { error: run.error }),
+    });
+  }
 
-    // Notify client of successful connection
-    bridge.onMessage({
-      type: 'gateway_connected',
-      payload: { status: 'connected' },
+  private currentRun(clientId: string): string | undefined {
+    let current: string | undefined;
+    this.runOwners.forEach((owner, runId) => {
+      if (owner.clientId === clientId && !owner.cancelled) current = runId;
     });
+    return current;
   }
 
   /**
-   * Handle agent events (streaming responses from the AI)
+   * Active bridges, for the admin API
    */
-  private handleAgentEvent(clientId: string, payload: any): void {
-    const bridge = this.bridges.get(clientId);
-    if (!bridge) return;
+  listBridges(): BridgeInfo[] {
+    return [...this.bridges].map(([clientId, bridge]) => ({
+      clientId,
+      subject: bridge.subject ?? null,
+      sessionKey: bridge.sessionKey,
+      gateway: bridge.connection.gateway,
+      connectionId: bridge.connection.id,
+      authenticated: bridge.connection.isReady,
+      queueLength: bridge.messageQueue.length,
+      connectedAt: new Date(bridge.connectedAt).toISOString(),
+      lastActivityAt: new Date(bridge.lastActivityAt).toISOString(),
+    }));
+  }
 
-    // Log for debugging
-    this.logger.debug(`[${clientId}] Agent event: stream=${payload.stream}, phase=${payload.data?.phase}`);
+  /**
+   * Tear a client's bridge down and attach it again, keeping its session,
+   * streams, gateway target and queued messages (rejected with
+   * `bridge_reset` if the new bridge cannot be attached); in-flight
+   * requests are dropped as when the client disconnects
+   */
+  reconnectBridge(clientId: string): boolean {
+    const bridge = this.bridges.get(clientId);
+    if (!bridge) return false;
+
+    this.logger.log(`[${clientId}] Reconnecting bridge`);
+    const queued = bridge.messageQueue.splice(0);
+    queued.forEach((entry) => clearTimeout(entry.expiryTimeout));
+    this.closeBridge(clientId);
+    this.createBridge(clientId, bridge.client, {
+      sessionKey: bridge.sessionKey,
+      subject: bridge.subject,
+      streams: [...bridge.streams],
+      gateway: bridge.connection.gateway,
+      filters: bridge.filters,
+    });
 
-    // Handle streaming assistant text (the actual response)
-    if (payload.stream === 'assistant' && payload.data) {
-      const delta = payload.data.delta || '';
-      const fullText = payload.data.text || '';
-      
-      if (delta || fullText) {
-        this.logger.log(`[${clientId}] Forwarding response: "${(delta || fullText).substring(0, 50)}..."`);
-        bridge.onMessage({
-          type: 'response',
-          text: fullText,
-          delta: delta,
-          content: delta || fullText, // For backward compat
-          streaming: true,
-          runId: payload.runId,
-          isBot: true,
-        });
-      }
-    }
-    
-    // Handle lifecycle events (start, end, error)
-    else if (payload.stream === 'lifecycle' && payload.data) {
-      if (payload.data.phase === 'end') {
-        this.logger.log(`[${clientId}] Response complete`);
-        bridge.onMessage({
-          type: 'response_complete',
-          runId: payload.runId,
-        });
-      } else if (payload.data.phase === 'error') {
-        this.logger.error(`[${clientId}] Agent error: ${payload.data.error}`);
-        bridge.onMessage({
-          type: 'error',
-          error: payload.data.error,
-          runId: payload.runId,
+    queued.forEach(({ message }) => {
+      if (this.bridges.has(clientId)) {
+        this.sendMessage(clientId, message);
+      } else if (message.type === 'message') {
+        bridge.client.onStatus({
+          id: message.id,
+          status: 'rejected',
+          reason: 'bridge_reset',
         });
       }
-    }
+    });
+    return true;
   }
 
   /**
-   * Send raw message to gateway (bypasses authentication check)
+   * Runs in a session started through this node and not yet finished or
+   * cancelled, counting messages still queued for it
    */
-  private sendRaw(clientId: string, message: any): void {
-    const bridge = this.bridges.get(clientId);
-    if (!bridge?.ws || bridge.ws.readyState !== WebSocket.OPEN) {
-      this.logger.warn(`[${clientId}] Cannot send - WebSocket not open`);
-      return;
-    }
-
-    try {
-      bridge.ws.send(JSON.stringify(message));
-      this.logger.debug(
-        `[${clientId}] Sent raw: ${JSON.stringify(message).substring(0, 150)}`,
-      );
-    } catch (error) {
-      this.logger.error(`[${clientId}] Failed to send: ${error}`);
-    }
+  activeRuns(sessionKey: string): number {
+    let runs = 0;
+    this.runOwners.forEach((owner) => {
+      if (owner.sessionKey === sessionKey && !owner.cancelled) runs++;
+    });
+    this.bridges.forEach((bridge) =>
+      bridge.messageQueue.forEach(({ message }) => {
+        if (message.type === 'message' && message.sessionKey === sessionKey) {
+          runs++;
+        }
+      }),
+    );
+    return runs;
   }
 
   /**
-   * Send a message through the bridge to the gateway
+   * Session key the client's messages and history requests target
    */
-  sendMessage(clientId: string, message: any): void {
-    const bridge = this.bridges.get(clientId);
-    if (!bridge) {
-      this.logger.warn(`[${clientId}] No bridge found`);
-      return;
-    }
-
-    if (!bridge.authenticated) {
-      this.logger.debug(`[${clientId}] Queueing message (not authenticated)`);
-      bridge.messageQueue.push(message);
-      return;
-    }
+  getSessionKey(clientId: string): string | undefined {
+    return this.bridges.get(clientId)?.sessionKey;
+  }
 
-    if (!bridge.ws || bridge.ws.readyState !== WebSocket.OPEN) {
-      this.logger.warn(`[${clientId}] Gateway not connected, queueing message`);
-      bridge.messageQueue.push(message);
-      return;
-    }
+  /**
+   * Agent stream categories the client opted in to
+   */
+  getStreams(clientId: string): AgentStream[] {
+    return [...(this.bridges.get(clientId)?.streams ?? [])];
+  }
 
-    const gatewayMessage = this.convertToGatewayFormat(clientId, message);
+  /**
+   * Replace the agent stream categories forwarded to a client
+   */
+  setStreams(clientId: string, streams: AgentStream[]): void {
+    const bridge = this.bridges.get(clientId);
+    if (!bridge) return;
 
-    try {
-      bridge.ws.send(JSON.stringify(gatewayMessage));
-      this.logger.debug(
-        `[${clientId}] Sent: ${JSON.stringify(gatewayMessage).substring(0, 150)}`,
-      );
-    } catch (error) {
-      this.logger.error(`[${clientId}] Failed to send message: ${error}`);
-    }
+    bridge.streams = new Set(streams);
   }
 
   /**
-   * Convert frontend message format to gateway protocol format
+   * Point a client's bridge at another session
    */
-  private convertToGatewayFormat(clientId: string, message: any): any {
+  setSessionKey(clientId: string, sessionKey: string): void {
     const bridge = this.bridges.get(clientId);
+    if (!bridge) return;
 
-    if (message.type === 'message' && message.text) {
-      const reqId = uuidv4();
-      return {
-        type: 'req',
-        id: reqId,
-        method: 'agent',
-        params: {
-          message: message.text,
-          sessionKey: bridge?.sessionKey || 'main',
-          idempotencyKey: reqId, // Required by gateway
-        },
-      };
-    }
-
-    if (message.type === 'history') {
-      return {
-        type: 'req',
-        id: uuidv4(),
-        method: 'sessions.history',
-        params: {
-          sessionKey: bridge?.sessionKey || 'main',
-          limit: message.limit || 50,
-        },
-      };
-    }
+    bridge.sessionKey = sessionKey;
+    this.logger.log(`[${clientId}] Session set to ${sessionKey}`);
+  }
 
-    return message;
+  /**
+   * Convert frontend message format to gateway protocol format
+   */
+  private convertToGatewayFormat(
+    bridge: BridgeConnection,
+    message: ClientMessage,
+  ): AgentRequest {
+    const sessionKey = message.sessionKey ?? bridge.sessionKey;
+    return {
+      type: 'req',
+      id: uuidv4(),
+      method: 'agent',
+      params: {
+        message: message.text,
+        ...(message.attachments?.length && {
+          attachments: message.attachments,
+        }),
+        sessionKey,
+        // Required by gateway; stable per message so retries dedupe
+        idempotencyKey: `${sessionKey}:${message.id}`,
+      },
+    };
   }
 
   /**
@@ -508,19 +2114,97 @@ export class BridgeService implements OnModuleInit, OnModuleDestroy {
     const bridge = this.bridges.get(clientId);
     if (!bridge) return;
 
-    if (bridge.reconnectTimeout) {
-      clearTimeout(bridge.reconnectTimeout);
-    }
-
-    if (bridge.ws) {
-      try {
-        bridge.ws.close();
-      } catch (e) {
-        // Ignore close errors
+    this.pendingRequests.forEach((pending, reqId) => {
+      if (pending.clientId !== clientId) return;
+      this.settle(reqId);
+      pending.reject?.(
+        new GatewayRequestError(pending.method, 'connection_lost'),
+      );
+    });
+    bridge.deferredCalls.length = 0;
+    this.runOwners.forEach((owner, runId) => {
+      owner.viewers?.delete(clientId);
+      if (owner.clientId !== clientId) return;
+
+      // Hand the run to a remaining viewer, if any
+      const [viewer] = owner.viewers ?? [];
+      if (viewer) {
+        owner.viewers?.delete(viewer);
+        owner.clientId = viewer;
+        return;
       }
+      this.dropRun(runId);
+      this.runTimings.delete(runId);
+    });
+
+    bridge.messageQueue.forEach((entry) => clearTimeout(entry.expiryTimeout));
+    if (bridge.messageQueue.length > 0) {
+      this.logger.warn(
+        `[${clientId}] Dropping ${bridge.messageQueue.length} queued message(s)`,
+      );
     }
 
     this.bridges.delete(clientId);
+    this.releaseConnection(clientId, bridge.connection);
     this.logger.log(`[${clientId}] Bridge closed`);
   }
 }
+
+/**
+ * Entries of a gateway `presence` event (a list, or `{ presence: [...] }`)
+ * reduced to what chat clients may see, or null if it holds none
+ */
+function curatePresence(payload: unknown): GatewayPresenceEntry[] | null {
+  const entries: unknown = Array.isArray(payload)
+    ? payload
+    : (payload as { presence?: unknown } | null)?.presence;
+  if (!Array.isArray(entries)) return null;
+
+  const text = (value: unknown) =>
+    typeof value === 'string' && value ? value.slice(0, 128) : undefined;
+  const number = (value: unknown) =>
+    typeof value === 'number' && Number.isFinite(value) ? value : undefined;
+
+  return entries
+    .filter(
+      (entry): entry is Record<string, unknown> =>
+        typeof entry === 'object' && entry !== null,
+    )
+    .map((entry) =>
+      Object.fromEntries(
+        Object.entries({
+          instanceId: text(entry.instanceId),
+          host: text(entry.host),
+          platform: text(entry.platform),
+          deviceFamily: text(entry.deviceFamily),
+          mode: text(entry.mode),
+          lastInputSeconds: number(entry.lastInputSeconds),
+          updatedAt: number(entry.ts),
+        }).filter(([, value]) => value !== undefined),
+      ),
+    );
+}
+
+/**
+ * Size of the (base64) attachment content a message carries
+ */
+function attachmentBytes(message: ClientMessage): number {
+  return (message.attachments ?? []).reduce(
+    (sum, attachment) => sum + attachment.content.length,
+    0,
+  );
+}
+
+/**
+ * Per-method timeouts from a "method=ms,method=ms" list
+ */
+function parseMethodTimeouts(value: string): Map<string, number> {
+  const timeouts = new Map<string, number>();
+  value.split(',').forEach((entry) => {
+    const [method, ms] = entry.split('=').map((part) => part.trim());
+    if (method && ms && !Number.isNaN(Number(ms))) {
+      timeouts.set(method, Number(ms));
+    }
+  });
+  return timeouts;
+}
@@ -0,0 +1,93 @@
+import { buildHistoryPage, HistoryCursorError } from './chat-history';
+
+const messages = [
+  { id: 'm1', role: 'user', content: 'Hi', timestamp: 1000 },
+  {
+    id: 'm2',
+    role: 'assistant',
+    content: [
+      { type: 'text', text: 'Let me ' },
+      { type: 'toolCall', id: 't1', name: 'search', arguments: { q: 'x' } },
+      { type: 'text', text: 'look.' },
+    ],
+    timestamp: '1970-01-01T00:00:02.000Z',
+    runId: 'run-1',
+  },
+  {
+    id: 'm3',
+    role: 'toolResult',
+    toolCallId: 't1',
+    toolName: 'search',
+    isError: true,
+    content: 'failed',
+  },
+  { id: 'm4', role: 'assistant', text: 'Done' },
+];
+
+describe('buildHistoryPage', () => {
+  it('normalizes gateway messages', () => {
+    const page = buildHistoryPage({ messages }, 10, 11);
+
+    expect(page.messages).toEqual([
+      { id: 'm1', role: 'user', text: 'Hi', timestamp: 1000 },
+      {
+        id: 'm2',
+        role: 'assistant',
+        text: 'Let me look.',
+        timestamp: 2000,
+        runId: 'run-1',
+        toolCalls: [{ id: 't1', name: 'search', args: { q: 'x' } }],
+      },
+      {
+        id: 'm3',
+        role: 'tool',
+        text: 'failed',
+        timestamp: null,
+        toolResult: { toolCallId: 't1', name: 'search', isError: true },
+      },
+      { id: 'm4', role: 'assistant', text: 'Done', timestamp: null },
+    ]);
+    expect(page.hasMore).toBe(false);
+    expect(page.nextCursor).toBeNull();
+  });
+
+  it('accepts a bare list and ignores malformed payloads', () => {
+    expect(buildHistoryPage(messages, 10, 11).messages).toHaveLength(4);
+    expect(buildHistoryPage(null, 10, 11).messages).toEqual([]);
+    expect(buildHistoryPage({ messages: 'nope' }, 10, 11).messages).toEqual([]);
+  });
+
+  it('derives stable ids for messages without one', () => {
+    const raw = [{ role: 'user', content: 'Hi', timestamp: 5 }, 42];
+    const first = buildHistoryPage(raw, 10, 11).messages;
+    const second = buildHistoryPage(raw, 10, 11).messages;
+
+    expect(first[0].id).toMatch(/^[0-9a-f]{16}$/);
+    expect(first.map(({ id }) => id)).toEqual(second.map(({ id }) => id));
+    expect(first[1]).toMatchObject({ role: 'system', text: '' });
+  });
+
+  it('pages back from the latest messages', () => {
+    const latest = buildHistoryPage({ messages }, 2, 3);
+    expect(latest.messages.map(({ id }) => id)).toEqual(['m3', 'm4']);
+    expect(latest.hasMore).toBe(true);
+    expect(latest.nextCursor).toBe('m3');
+
+    const older = buildHistoryPage({ messages }, 2, 50, 'm3');
+    expect(older.messages.map(({ id }) => id)).toEqual(['m1', 'm2']);
+    expect(older.hasMore).toBe(false);
+    expect(older.nextCursor).toBeNull();
+  });
+
+  it('reports more when the fetched window was full', () => {
+    const page = buildHistoryPage({ messages }, 10, 4);
+    expect(page.hasMore).toBe(true);
+    expect(page.nextCursor).toBe('m1');
+  });
+
+  it('rejects unknown cursors', () => {
+    expect(() => buildHistoryPage({ messages }, 2, 50, 'nope')).toThrow(
+      HistoryCursorError,
+    );
+  });
+});
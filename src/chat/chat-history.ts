@@ -0,0 +1,137 @@
+import { createHash } from 'crypto';
+import {
+  HistoryEvent,
+  HistoryMessage,
+  HistoryRole,
+  HistoryToolCall,
+} from './protocol/chat-protocol';
+
+/**
+ * Thrown when a `before` cursor is not in the fetched history window
+ */
+export class HistoryCursorError extends Error {
+  constructor(cursor: string) {
+    super(`Unknown history cursor: ${cursor}`);
+  }
+}
+
+/**
+ * Content part types the gateway uses for tool calls
+ */
+const TOOL_CALL_TYPES: unknown[] = ['toolCall', 'toolUse', 'tool_use'];
+
+/**
+ * Turn a gateway history payload into one page of normalized messages,
+ * ending just before `before` (a message id) when given. `fetched` is how
+ * many messages were asked of the gateway: a full window may hide older ones.
+ */
+export function buildHistoryPage(
+  payload: unknown,
+  limit: number,
+  fetched: number,
+  before?: string,
+): HistoryEvent {
+  const raw: unknown[] = Array.isArray(payload)
+    ? payload
+    : isRecord(payload) && Array.isArray(payload.messages)
+      ? payload.messages
+      : [];
+  const window = raw.map((entry) =>
+    normalizeMessage(isRecord(entry) ? entry : {}),
+  );
+
+  let end = window.length;
+  if (before) {
+    end = window.map((message) => message.id).lastIndexOf(before);
+    if (end === -1) throw new HistoryCursorError(before);
+  }
+
+  const start = Math.max(0, end - limit);
+  const messages = window.slice(start, end);
+  const hasMore = start > 0 || (messages.length > 0 && raw.length >= fetched);
+
+  return {
+    messages,
+    hasMore,
+    nextCursor: hasMore && messages.length > 0 ? messages[0].id : null,
+  };
+}
+
+function normalizeMessage(raw: Record<string, unknown>): HistoryMessage {
+  const role = normalizeRole(raw.role);
+  const { text, toolCalls } = normalizeContent(raw.content ?? raw.text);
+  const timestamp = normalizeTimestamp(raw.timestamp ?? raw.createdAt);
+  const id = optionalString(raw.id);
+
+  const message: HistoryMessage = {
+    id:
+      id ||
+      createHash('sha1')
+        .update(`${timestamp}|${role}|${text}`)
+        .digest('hex')
+        .slice(0, 16),
+    role,
+    text,
+    timestamp,
+  };
+
+  const runId = optionalString(raw.runId);
+  if (runId !== undefined) message.runId = runId;
+  if (toolCalls.length > 0) message.toolCalls = toolCalls;
+  if (role === 'tool') {
+    message.toolResult = {
+      toolCallId: optionalString(raw.toolCallId),
+      name: optionalString(raw.toolName) ?? optionalString(raw.name),
+      isError: Boolean(raw.isError),
+    };
+  }
+  return message;
+}
+
+function normalizeRole(role: unknown): HistoryRole {
+  if (role === 'user' || role === 'assistant' || role === 'system') {
+    return role;
+  }
+  if (role === 'tool' || role === 'toolResult') return 'tool';
+  return 'system';
+}
+
+function normalizeContent(content: unknown): {
+  text: string;
+  toolCalls: HistoryToolCall[];
+} {
+  if (typeof content === 'string') return { text: content, toolCalls: [] };
+  if (!Array.isArray(content)) return { text: '', toolCalls: [] };
+
+  const text: string[] = [];
+  const toolCalls: HistoryToolCall[] = [];
+  content.filter(isRecord).forEach((part) => {
+    if (part.type === 'text' && typeof part.text === 'string') {
+      text.push(part.text);
+    } else if (TOOL_CALL_TYPES.includes(part.type)) {
+      toolCalls.push({
+        id: optionalString(part.id),
+        name: optionalString(part.name) ?? String(part.name),
+        args: part.arguments ?? part.input,
+      });
+    }
+  });
+  return { text: text.join(''), toolCalls };
+}
+
+function normalizeTimestamp(value: unknown): number | null {
+  if (typeof value === 'number') return value;
+  if (typeof value === 'string') {
+    const parsed = Date.parse(value);
+    return Number.isNaN(parsed) ? null : parsed;
+  }
+  return null;
+}
+
+function isRecord(value: unknown): value is Record<string, unknown> {
+  return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
+
+function optionalString(value: unknown): string | undefined {
+  return typeof value === 'string' ? value : undefined;
+}
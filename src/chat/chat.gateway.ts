@@ -7,11 +7,114 @@ import {
   OnGatewayInit,
   ConnectedSocket,
   MessageBody,
+  WsException,
 } from '@nestjs/websockets';
-import { Server, Socket } from 'socket.io';
-import { Logger } from '@nestjs/common';
+import { DefaultEventsMap, Namespace, Socket } from 'socket.io';
+import {
+  Logger,
+  UseFilters,
+  UseGuards,
+  UseInterceptors,
+  UsePipes,
+} from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import { v4 as uuidv4 } from 'uuid';
+import {
+  AttachmentsService,
+  GatewayAttachment,
+} from '../attachments/attachments.service';
 import { AuthService } from '../auth/auth.service';
-import { BridgeService } from './bridge.service';
+import { ExpressionService } from '../avatar/expression.service';
+import { ApiKeyScope } from '../auth/interfaces/api-key.interface';
+import { TokenPayload } from '../auth/interfaces/token-payload.interface';
+import { ContentFilterService } from '../filters/content-filter.service';
+import { ContentRefusedError } from '../filters/content-refused.error';
+import { FilterOutcome } from '../filters/filter-rules';
+import { MetricsService } from '../metrics/metrics.service';
+import { ClusterService } from '../state/cluster.service';
+import { SpeechError } from '../voice/speech.error';
+import { VoiceService } from '../voice/voice.service';
+import { BridgeClient, BridgeService, RunFollower } from './bridge.service';
+import { HistoryCursorError } from './chat-history';
+import { GatewayRequestError } from './gateway-request.error';
+import { GatewayTargetService } from './gateway-target.service';
+import { RateLimitService } from './rate-limit.service';
+import { RateLimitedException } from './rate-limited.exception';
+import { SessionService } from './session.service';
+import { ResponseBufferService } from './response-buffer.service';
+import { WsExceptionFilter } from './ws-exception.filter';
+import { WsMetricsInterceptor } from './ws-metrics.interceptor';
+import { WsRateLimitGuard } from './ws-rate-limit.guard';
+import { WsValidationPipe } from './ws-validation.pipe';
+import { AudioChunkDto } from './dto/audio-chunk.dto';
+import { AuthenticateDto } from './dto/authenticate.dto';
+import { CancelDto } from './dto/cancel.dto';
+import { ResumeDto } from './dto/resume.dto';
+import { HistoryRequestDto } from './dto/history-request.dto';
+import { SendMessageDto } from './dto/send-message.dto';
+import { OptionalSessionNameDto, SessionNameDto } from './dto/session-name.dto';
+import { StreamsDto } from './dto/streams.dto';
+import { TypingDto } from './dto/typing.dto';
+import { VoiceDto } from './dto/voice.dto';
+import {
+  AGENT_STREAMS,
+  AgentStream,
+  AuthenticatedEvent,
+  ChatAck,
+  ChatErrorEvent,
+  ClientToServerEvents,
+  HistoryEvent,
+  NoticeLevel,
+  PresenceDevice,
+  PROTOCOL_VERSION,
+  SUPPORTED_PROTOCOL_VERSIONS,
+  RunAck,
+  SendMessagePayload,
+  ServerToClientEvents,
+  SessionEvent,
+  SessionResetEvent,
+  SessionSummary,
+  SessionsEvent,
+  StreamsEvent,
+  TranscriptionEvent,
+  VoiceEvent,
+} from './protocol/chat-protocol';
+
+/**
+ * Longest delay setTimeout honours (about 24.8 days); longer ones fire
+ * straight away
+ */
+const MAX_TIMER_DELAY = 2 ** 31 - 1;
+
+/**
+ * Socket state other nodes read through fetchSockets()
+ */
+interface ChatSocketData {
+  /** Room of the subject's sockets on the same session */
+  room?: string;
+  sessionKey?: string;
+  device?: string;
+  connectedAt: number;
+  typing: boolean;
+  streams: AgentStream[];
+}
+
+/**
+ * A run to replay to a client connected to another node
+ */
+interface RemoteResume {
+  clientId: string;
+  runId: string;
+  seq?: number;
+  streams: AgentStream[];
+}
+
+type ChatSocket = Socket<
+  ClientToServerEvents,
+  ServerToClientEvents,
+  DefaultEventsMap,
+  ChatSocketData
+>;
 
 @WebSocketGateway({
   namespace: '/chat',
@@ -20,33 +123,105 @@ import { BridgeService } from './bridge.service';
     credentials: true,
   },
 })
+@UsePipes(WsValidationPipe)
+@UseFilters(WsExceptionFilter)
+@UseInterceptors(WsMetricsInterceptor)
+@UseGuards(WsRateLimitGuard)
 export class ChatGateway
   implements OnGatewayInit, OnGatewayConnection, OnGatewayDisconnect
 {
   @WebSocketServer()
-  server: Server;
+  // The /chat namespace, as the gateway is namespaced
+  server: Namespace<
+    ClientToServerEvents,
+    ServerToClientEvents,
+    DefaultEventsMap,
+    ChatSocketData
+  >;
 
   private readonly logger = new Logger(ChatGateway.name);
-  private authenticatedClients = new Map<string, boolean>();
+  private authenticatedClients = new Map<string, TokenPayload>();
+  private protocolVersions = new Map<string, number>();
+  private expiryTimers = new Map<string, NodeJS.Timeout[]>();
+  private typingTimers = new Map<string, NodeJS.Timeout>();
+  private readonly expiryWarningMs: number;
+  private readonly typingTimeout: number;
+  private readonly defaultStreams: AgentStream[];
+  private readonly interruptOnMessage: boolean;
 
   constructor(
     private readonly authService: AuthService,
     private readonly bridgeService: BridgeService,
-  ) {}
+    private readonly sessionService: SessionService,
+    private readonly metricsService: MetricsService,
+    private readonly responseBuffer: ResponseBufferService,
+    private readonly gatewayTargets: GatewayTargetService,
+    private readonly cluster: ClusterService,
+    private readonly rateLimits: RateLimitService,
+    private readonly attachmentsService: AttachmentsService,
+    private readonly voice: VoiceService,
+    private readonly expressions: ExpressionService,
+    private readonly filters: ContentFilterService,
+    configService: ConfigService,
+  ) {
+    this.expiryWarningMs =
+      Number(configService.get('TOKEN_EXPIRY_WARNING', 60)) * 1000;
+    this.typingTimeout = Number(
+      configService.get('PRESENCE_TYPING_TIMEOUT', 5000),
+    );
+    this.defaultStreams =
+      parseStreams(configService.get<string>('AGENT_STREAMS_DEFAULT', '')) ??
+      [];
+    this.interruptOnMessage =
+      configService.get<string>('INTERRUPT_ON_MESSAGE', 'false') === 'true';
+    this.metricsService.addCollector(() =>
+      this.metricsService.connectedClients.set(this.authenticatedClients.size),
+    );
+  }
 
   afterInit() {
+    // Admin actions and resumes routed here by other nodes
+    this.cluster.on('bridges.list', () =>
+      this.bridgeService
+        .listBridges()
+        .map((bridge) => ({ ...bridge, node: this.cluster.nodeId })),
+    );
+    this.cluster.on('bridges.close', (payload) =>
+      this.closeClient((payload as { clientId: string }).clientId),
+    );
+    this.cluster.on('bridges.reconnect', (payload) =>
+      this.bridgeService.reconnectBridge(
+        (payload as { clientId: string }).clientId,
+      ),
+    );
+    this.cluster.on('runs.resume', (payload) =>
+      this.resumeForRemote(payload as RemoteResume),
+    );
+
     this.logger.log('WebSocket Gateway initialized');
   }
 
-  async handleConnection(client: Socket) {
+  async handleConnection(client: ChatSocket) {
     this.logger.log(`Client connecting: ${client.id}`);
 
     // Extract token from query or auth header
     const token =
       (client.handshake.query.token as string) ||
-      client.handshake.auth?.token ||
+      (client.handshake.auth?.token as string | undefined) ||
       client.handshake.headers.authorization?.replace('Bearer ', '');
 
+    // Negotiate protocol version (clients that don't ask get the current one)
+    const protocolVersion = this.negotiateProtocol(client);
+    if (protocolVersion === null) {
+      this.logger.warn(`Client ${client.id} - Unsupported protocol version`);
+      client.emit('error', {
+        message: 'Unsupported protocol version',
+        supportedVersions: SUPPORTED_PROTOCOL_VERSIONS,
+      });
+      client.disconnect();
+      return;
+    }
+
     if (!token) {
       this.logger.warn(`Client ${client.id} - No token provided`);
       client.emit('error', { message: 'Authentication required' });
@@ -55,87 +230,963 @@ export class ChatGateway
     }
 
     // Validate token
-    const isValid = await this.authService.validateToken(token);
-    if (!isValid) {
+    const claims = await this.authService.verifyToken(token);
+    if (!claims) {
       this.logger.warn(`Client ${client.id} - Invalid token`);
       client.emit('error', { message: 'Invalid or expired token' });
       client.disconnect();
       return;
     }
 
-    this.authenticatedClients.set(client.id, true);
+    if (
+      !this.authService.hasScope(claims, 'chat') &&
+      !this.authService.hasScope(claims, 'history')
+    ) {
+      this.logger.warn(`Client ${client.id} - Token lacks chat scopes`);
+      client.emit('error', { message: 'Token is not allowed to chat' });
+      client.disconnect();
+      return;
+    }
+
+    // Gateway target from `auth.gateway` or the `gateway` query, limited to
+    // those the token allows (its first one being the default)
+    const gateway: unknown =
+      client.handshake.auth?.gateway ??
+      client.handshake.query.gateway ??
+      claims.gateways?.[0] ??
+      this.gatewayTargets.defaultTarget.name;
+    if (typeof gateway !== 'string' || !this.gatewayTargets.get(gateway)) {
+      this.logger.warn(
+        `Client ${client.id} - Unknown gateway ${String(gateway)}`,
+      );
+      client.emit('error', { message: `Unknown gateway: ${String(gateway)}` });
+      client.disconnect();
+      return;
+    }
+    if (claims.gateways && !claims.gateways.includes(gateway)) {
+      this.logger.warn(`Client ${client.id} - Gateway ${gateway} not allowed`);
+      client.emit('error', { message: `Gateway not allowed: ${gateway}` });
+      client.disconnect();
+      return;
+    }
+
+    if (!this.filters.has(claims.filters)) {
+      this.logger.warn(
+        `Client ${client.id} - Unknown filter policy ${claims.filters}`,
+      );
+      client.emit('error', {
+        message: `Unknown filter policy: ${claims.filters}`,
+      });
+      client.disconnect();
+      return;
+    }
+
+    // Resume the subject's current session
+    const sessionName = await this.sessionService.current(claims.sub);
+    const sessionKey = this.sessionService.keyFor(claims, sessionName);
+    if (client.disconnected) return;
+
+    this.authenticatedClients.set(client.id, claims);
+    this.protocolVersions.set(client.id, protocolVersion);
+    this.rateLimits.register(client.id, claims.sub);
+    this.scheduleTokenExpiry(client, claims);
     this.logger.log(`Client ${client.id} authenticated successfully`);
 
-    // Setup bridge connection for this client
-    this.bridgeService.createBridge(client.id, (message) => {
-      client.emit('message', message);
+    // Send connection success
+    client.emit('connected', {
+      message: 'Connected to OpenClaw Face Server',
+      protocolVersion,
+      supportedVersions: SUPPORTED_PROTOCOL_VERSIONS,
     });
 
-    // Send connection success
-    client.emit('connected', { message: 'Connected to OpenClaw Face Server' });
-    
     // Also emit a status event that the frontend can use
     client.emit('status', { isConnected: true });
+    client.emit('session', { name: sessionName, sessionKey });
+
+    // Agent stream opt-ins from `auth.streams` or the `streams` query
+    const streams =
+      parseStreams(
+        client.handshake.auth?.streams ?? client.handshake.query.streams,
+      ) ?? this.defaultStreams;
+    client.emit('streams', streamsEvent(streams));
+    client.data = {
+      device: parseDevice(
+        client.handshake.auth?.device ?? client.handshake.query.device,
+      ),
+      connectedAt: Date.now(),
+      typing: false,
+      streams,
+    };
+
+    this.voice.register(client.id, {
+      onAudio: (event) => client.emit('audio_chunk', event),
+      onVisemes: (event) => client.emit('visemes', event),
+    });
+    client.emit('voice', this.voice.settings(client.id));
+    this.expressions.register(client.id, (event) =>
+      client.emit('expression', event),
+    );
+
+    // Setup bridge connection for this client (after the events above, as
+    // a warm pooled connection reports gateway_connected immediately)
+    this.bridgeService.createBridge(
+      client.id,
+      {
+        onMessage: (message) => {
+          this.metricsService.messagesOut.inc({ type: message.type ?? 'chat' });
+          client.emit('message', message);
+          this.voice.speak(client.id, message);
+        },
+        onStatus: (status) => {
+          client.emit('message_status', status);
+          if (status.status === 'rejected') {
+            this.expressions.set(client.id, 'error');
+          }
+        },
+        onGatewayStatus: (status) => client.emit('status', status),
+        onFiltered: (event) => client.emit('filtered', event),
+        onGatewayPresence: (event) => client.emit('gateway_presence', event),
+      },
+      {
+        sessionKey,
+        subject: claims.sub,
+        streams,
+        gateway,
+        filters: claims.filters,
+      },
+    );
+
+    // Share the session live with the subject's other devices on it
+    await this.joinSessionRoom(client, claims.sub, sessionKey);
   }
 
-  handleDisconnect(client: Socket) {
+  handleDisconnect(client: ChatSocket) {
     this.logger.log(`Client disconnected: ${client.id}`);
     this.authenticatedClients.delete(client.id);
+    this.protocolVersions.delete(client.id);
+    this.rateLimits.release(client.id);
+    this.voice.release(client.id);
+    this.expressions.release(client.id);
+    this.clearTokenExpiry(client.id);
+    clearTimeout(this.typingTimers.get(client.id));
+    this.typingTimers.delete(client.id);
     this.bridgeService.closeBridge(client.id);
+
+    // The socket has already left its room
+    const { room, sessionKey } = client.data;
+    if (room && sessionKey) {
+      void this.broadcastPresence(room, sessionKey);
+    }
+  }
+
+  /**
+   * Swap in a fresh access token without reconnecting
+   */
+  @SubscribeMessage('authenticate')
+  async handleAuthenticate(
+    @ConnectedSocket() client: ChatSocket,
+    @MessageBody() payload: AuthenticateDto,
+  ): Promise<ChatAck<AuthenticatedEvent>> {
+    const current = this.authenticatedClients.get(client.id);
+    if (!current) {
+      throw new WsException('Not authenticated');
+    }
+
+    const claims = await this.authService.verifyToken(payload.token);
+    if (!claims) {
+      throw new WsException('Invalid or expired token');
+    }
+
+    // The socket's session namespace is bound to its subject
+    if (claims.sub !== current.sub) {
+      throw new WsException('Token belongs to another subject');
+    }
+
+    this.authenticatedClients.set(client.id, claims);
+    this.scheduleTokenExpiry(client, claims);
+    this.logger.log(`Client ${client.id} re-authenticated`);
+
+    const authenticated = { expiresAt: claims.exp ? claims.exp * 1000 : null };
+    client.emit('authenticated', authenticated);
+    return { ok: true, data: authenticated };
   }
 
   @SubscribeMessage('message')
   async handleMessage(
-    @ConnectedSocket() client: Socket,
-    @MessageBody() payload: { text: string },
+    @ConnectedSocket() client: ChatSocket,
+    @MessageBody() payload: SendMessageDto,
+  ): Promise<ChatAck<{ id: string }>> {
+    const claims = this.authorize(client, 'chat');
+
+    const id = await this.sendChatMessage(client, claims, payload);
+    return { ok: true, data: { id } };
+  }
+
+  /**
+   * Stream a spoken utterance; once its final chunk arrives it is
+   * transcribed and sent as a chat message
+   */
+  @SubscribeMessage('audio_chunk')
+  async handleAudioChunk(
+    @ConnectedSocket() client: ChatSocket,
+    @MessageBody() payload: AudioChunkDto,
+  ): Promise<ChatAck<TranscriptionEvent>> {
+    const claims = this.authorize(client, 'chat');
+
+    let text: string | null;
+    try {
+      text = await this.voice.listen(client.id, payload, (partial) =>
+        client.emit('transcription', { text: partial, final: false }),
+      );
+    } catch (error) {
+      if (error instanceof SpeechError) {
+        throw new WsException(error.message);
+      }
+      throw error;
+    }
+
+    if (text === null) {
+      return { ok: true };
+    }
+    if (!text) {
+      throw new WsException('No speech recognized');
+    }
+
+    const id = payload.id ?? uuidv4();
+    const transcription = { text, final: true, id };
+    client.emit('transcription', transcription);
+    await this.sendChatMessage(client, claims, {
+      text,
+      id,
+      interrupt: payload.interrupt,
+    });
+    return { ok: true, data: transcription };
+  }
+
+  /**
+   * Turn spoken responses and their lip-sync frames on or off, and pick
+   * their voice
+   */
+  @SubscribeMessage('voice')
+  handleVoice(
+    @ConnectedSocket() client: ChatSocket,
+    @MessageBody() payload: VoiceDto,
   ) {
-    if (!this.authenticatedClients.get(client.id)) {
-      client.emit('error', { message: 'Not authenticated' });
-      return;
+    this.authorize(client, 'chat');
+
+    const event: VoiceEvent = this.voice.configure(client.id, payload);
+    client.emit('voice', event);
+    return { ok: true, data: event };
+  }
+
+  @SubscribeMessage('history')
+  async handleHistory(
+    @ConnectedSocket() client: ChatSocket,
+    @MessageBody() payload: HistoryRequestDto,
+  ): Promise<ChatAck<HistoryEvent>> {
+    this.authorize(client, 'history');
+
+    try {
+      const { history, payload: raw } = await this.bridgeService.fetchHistory(
+        client.id,
+        { limit: payload.limit || 50, before: payload.before },
+      );
+
+      // Protocol v1 clients still get the raw gateway frame
+      if ((this.protocolVersions.get(client.id) ?? PROTOCOL_VERSION) >= 2) {
+        client.emit('history', history);
+      } else {
+        client.emit('message', { type: 'res', ok: true, payload: raw });
+      }
+      return { ok: true, data: history };
+    } catch (error) {
+      if (error instanceof HistoryCursorError) {
+        throw new WsException(error.message);
+      }
+      throw new WsException(gatewayError('Failed to fetch history', error));
     }
+  }
 
-    if (!payload?.text?.trim()) {
+  /**
+   * Tell the subject's other devices on the session that the user is (or
+   * stopped) typing
+   */
+  @SubscribeMessage('typing')
+  handleTyping(
+    @ConnectedSocket() client: ChatSocket,
+    @MessageBody() payload: TypingDto,
+  ) {
+    const claims = this.authenticatedClients.get(client.id);
+    if (!claims || !this.authService.hasScope(claims, 'chat')) {
       return;
     }
 
-    this.logger.log(`Message from ${client.id}: ${payload.text.substring(0, 50)}...`);
+    this.setTyping(client, payload.isTyping ?? true);
+  }
+
+  /**
+   * Abort a run (the client's latest one unless runId is given)
+   */
+  @SubscribeMessage('cancel')
+  async handleCancel(
+    @ConnectedSocket() client: ChatSocket,
+    @MessageBody() payload: CancelDto,
+  ): Promise<ChatAck<RunAck>> {
+    this.authorize(client, 'chat');
 
-    // Forward message to OpenClaw gateway via bridge
+    let runId: string | null;
+    try {
+      runId = await this.bridgeService.cancelRun(client.id, payload.runId);
+    } catch (error) {
+      throw new WsException(gatewayError('Failed to cancel run', error));
+    }
+
+    if (!runId) {
+      throw new WsException('No active run to cancel');
+    }
+    this.expressions.set(client.id, 'idle');
+    return { ok: true, data: { runId } };
+  }
+
+  /**
+   * Replay a run's output missed while disconnected, then continue with
+   * its live stream
+   */
+  @SubscribeMessage('resume')
+  async handleResume(
+    @ConnectedSocket() client: ChatSocket,
+    @MessageBody() payload: ResumeDto,
+  ): Promise<ChatAck<RunAck>> {
+    const claims = this.authorize(client, 'chat');
+
+    const sessionKey = this.bridgeService.getSessionKey(client.id);
+
+    // A run buffered by another node is replayed from there
+    const location = await this.responseBuffer.locate(
+      payload.runId,
+      sessionKey,
+    );
+    if (location && location.node !== this.cluster.nodeId) {
+      const resumed =
+        this.sessionService.nameFor(claims, location.sessionKey) !== null &&
+        (await this.cluster
+          .send<boolean>(location.node, 'runs.resume', {
+            clientId: client.id,
+            runId: location.runId,
+            seq: payload.seq,
+            streams: this.bridgeService.getStreams(client.id),
+          })
+          .catch((error) => {
+            this.logger.warn(
+              `Client ${client.id} - Resume on ${location.node} failed: ${(error as Error).message}`,
+            );
+            return false;
+          }));
+      if (!resumed) {
+        throw new WsException('Run not found');
+      }
+      return { ok: true, data: { runId: location.runId } };
+    }
+
+    const run = payload.runId
+      ? this.responseBuffer.get(payload.runId)
+      : sessionKey && this.responseBuffer.latest(sessionKey);
+
+    // Only runs in the subject's own sessions can be resumed
+    if (!run || this.sessionService.nameFor(claims, run.sessionKey) === null) {
+      throw new WsException('Run not found');
+    }
+
+    this.bridgeService.resumeRun(client.id, run, payload.seq);
+    return { ok: true, data: { runId: run.runId } };
+  }
+
+  /**
+   * Opt in to or out of tool, thinking and status messages
+   */
+  @SubscribeMessage('streams')
+  handleStreams(
+    @ConnectedSocket() client: ChatSocket,
+    @MessageBody() payload: StreamsDto,
+  ) {
+    this.authorize(client, 'chat');
+
+    const streams = new Set(this.bridgeService.getStreams(client.id));
+    AGENT_STREAMS.forEach((stream) => {
+      if (payload[stream] === true) streams.add(stream);
+      if (payload[stream] === false) streams.delete(stream);
+    });
+
+    this.bridgeService.setStreams(client.id, [...streams]);
+    client.data.streams = [...streams];
+    const event = streamsEvent(streams);
+    client.emit('streams', event);
+    return { ok: true, data: event };
+  }
+
+  @SubscribeMessage('session.create')
+  async handleSessionCreate(
+    @ConnectedSocket() client: ChatSocket,
+    @MessageBody() payload: OptionalSessionNameDto,
+  ): Promise<ChatAck<SessionEvent>> {
+    const claims = this.authorize(client, 'chat');
+
+    // Sessions are created lazily by the gateway on their first message
+    const name = payload.name ?? uuidv4().slice(0, 8);
+    return this.selectSession(client, claims, name);
+  }
+
+  @SubscribeMessage('session.select')
+  async handleSessionSelect(
+    @ConnectedSocket() client: ChatSocket,
+    @MessageBody() payload: SessionNameDto,
+  ): Promise<ChatAck<SessionEvent>> {
+    const claims = this.authorize(client, 'chat');
+
+    return this.selectSession(client, claims, payload.name);
+  }
+
+  @SubscribeMessage('session.list')
+  async handleSessionList(
+    @ConnectedSocket() client: ChatSocket,
+  ): Promise<ChatAck<SessionsEvent>> {
+    const claims = this.authorize(client, 'history');
+
+    let result: { sessions?: Record<string, unknown>[] } | undefined;
+    try {
+      result = await this.bridgeService.call<typeof result>(
+        client.id,
+        'sessions.list',
+        {},
+      );
+    } catch (error) {
+      throw new WsException(gatewayError('Failed to list sessions', error));
+    }
+
+    // Only expose the subject's own sessions
+    const sessions = (result?.sessions ?? [])
+      .map((session) => ({
+        ...session,
+        key: String(session.key),
+        name: this.sessionService.nameFor(claims, String(session.key)),
+      }))
+      .filter((session): session is SessionSummary => session.name !== null);
+
+    const event = {
+      current: await this.sessionService.current(claims.sub),
+      sessions,
+    };
+    client.emit('sessions', event);
+    return { ok: true, data: event };
+  }
+
+  @SubscribeMessage('session.reset')
+  async handleSessionReset(
+    @ConnectedSocket() client: ChatSocket,
+    @MessageBody() payload: OptionalSessionNameDto,
+  ): Promise<ChatAck<SessionResetEvent>> {
+    const claims = this.authorize(client, 'chat');
+
+    const name =
+      payload.name ?? (await this.sessionService.current(claims.sub));
+
+    try {
+      await this.bridgeService.call(client.id, 'sessions.reset', {
+        key: this.sessionService.keyFor(claims, name),
+      });
+    } catch (error) {
+      throw new WsException(gatewayError('Failed to reset session', error));
+    }
+
+    client.emit('session_reset', { name });
+    return { ok: true, data: { name } };
+  }
+
+  /**
+   * Send a system notice to every socket on the namespace, across all
+   * nodes, returning how many were connected
+   */
+  async broadcastNotice(
+    message: string,
+    level: NoticeLevel = 'info',
+  ): Promise<number> {
+    this.server.emit('notice', { message, level, sentAt: Date.now() });
+    this.logger.log(`Broadcast ${level} notice: ${message.substring(0, 50)}`);
+    return (await this.server.fetchSockets()).length;
+  }
+
+  /**
+   * Disconnect a client (closing its bridge), as an administrator; false
+   * if no such socket or bridge exists
+   */
+  closeClient(clientId: string): boolean {
+    const client = this.server.sockets.get(clientId);
+    if (!client) {
+      // A bridge left behind by a socket that is already gone
+      const orphaned = this.bridgeService.getSessionKey(clientId) !== undefined;
+      this.bridgeService.closeBridge(clientId);
+      return orphaned;
+    }
+
+    this.logger.warn(`Client ${clientId} closed by an administrator`);
+    client.emit('error', { message: 'Connection closed by an administrator' });
+    client.disconnect(true);
+    return true;
+  }
+
+  /**
+   * Check a chat message against the client's limits and forward it to
+   * the gateway, returning its id
+   */
+  private async sendChatMessage(
+    client: ChatSocket,
+    claims: TokenPayload,
+    payload: SendMessagePayload,
+  ): Promise<string> {
+    const text = payload.text.trim();
+    if (!text && !payload.attachments?.length) {
+      throw new WsException('Message is empty');
+    }
+
+    const tooLong = this.rateLimits.checkMessageLength(text);
+    if (tooLong) {
+      throw new RateLimitedException(tooLong);
+    }
+
+    // The key's filter policy may rewrite the message, or refuse it
+    const id = payload.id ?? uuidv4();
+    let filtered: FilterOutcome;
+    try {
+      filtered = this.filters.inbound(claims.filters, text, {
+        clientId: client.id,
+        messageId: id,
+      });
+    } catch (error) {
+      if (error instanceof ContentRefusedError) {
+        throw new WsException({
+          message: error.message,
+          details: [error.rule],
+        });
+      }
+      throw error;
+    }
+    if (!filtered.text && !payload.attachments?.length) {
+      throw new WsException('Message is empty');
+    }
+
+    this.logger.log(
+      `Message from ${client.id}: ${filtered.text.substring(0, 50)}...`,
+    );
+
+    const attachments = await this.loadAttachments(
+      claims,
+      payload.attachments ?? [],
+    );
+
+    // In interrupt mode a new message replaces the active run, once the
+    // gateway confirmed the abort (or its chat.abort request timed out)
+    if (payload.interrupt ?? this.interruptOnMessage) {
+      try {
+        await this.bridgeService.cancelRun(client.id);
+      } catch (error) {
+        this.logger.warn(
+          `Client ${client.id} - Interrupt failed: ${(error as Error).message}`,
+        );
+        client.emit('error', {
+          ...gatewayError('Failed to cancel run', error),
+          event: 'message',
+        });
+      }
+    }
+
+    // Runs being cancelled no longer count towards the session's limit
+    const sessionKey = this.bridgeService.getSessionKey(client.id);
+    const busy =
+      sessionKey !== undefined &&
+      this.rateLimits.checkSessionRuns(
+        this.bridgeService.activeRuns(sessionKey),
+      );
+    if (busy) {
+      throw new RateLimitedException(busy);
+    }
+
+    // Forward message to OpenClaw gateway via bridge, with the other
+    // devices on the session following its run
     this.bridgeService.sendMessage(client.id, {
       type: 'message',
-      text: payload.text.trim(),
+      id,
+      text: filtered.text,
+      ...(attachments.length > 0 && { attachments }),
+      followers: await this.followers(client),
     });
+    this.setTyping(client, false);
+    if (client.data.room) {
+      client.to(client.data.room).emit('user_message', {
+        id,
+        text: filtered.text,
+        ...(payload.attachments?.length && {
+          attachments: [...new Set(payload.attachments)],
+        }),
+        clientId: client.id,
+        device: client.data.device,
+        sentAt: Date.now(),
+      });
+    }
+
+    // Injected prefixes are policy, not an alteration of what was written
+    const rules = filtered.applied.filter(({ type }) => type !== 'prefix');
+    if (rules.length) {
+      client.emit('filtered', { direction: 'inbound', id, rules });
+    }
 
     // Emit typing indicator (bot is processing)
-    client.emit('typing', { isTyping: true });
+    (client.data.room ? this.server.to(client.data.room) : client).emit(
+      'typing',
+      { isTyping: true },
+    );
+    this.expressions.set(client.id, 'thinking');
+    return id;
   }
 
-  @SubscribeMessage('history')
-  async handleHistory(
-    @ConnectedSocket() client: Socket,
-    @MessageBody() payload: { limit?: number },
-  ) {
-    if (!this.authenticatedClients.get(client.id)) {
-      client.emit('error', { message: 'Not authenticated' });
-      return;
+  /**
+   * Content of the subject's own attachments, in the gateway's format,
+   * provided they fit within ATTACHMENT_MAX_MESSAGE_BYTES together
+   */
+  private async loadAttachments(
+    claims: TokenPayload,
+    ids: string[],
+  ): Promise<GatewayAttachment[]> {
+    const records = await Promise.all(
+      [...new Set(ids)].map(async (id) => {
+        const record = await this.attachmentsService.find(id, claims.sub);
+        if (!record) {
+          throw new WsException(`Unknown attachment: ${id}`);
+        }
+        return record;
+      }),
+    );
+
+    const { maxMessageBytes } = this.attachmentsService;
+    const total = records.reduce((sum, record) => sum + record.size, 0);
+    if (total > maxMessageBytes) {
+      throw new WsException(
+        `Attachments are limited to ${maxMessageBytes} bytes per message`,
+      );
     }
 
-    // Request history from bridge
-    this.bridgeService.sendMessage(client.id, {
-      type: 'history',
-      limit: payload?.limit || 50,
+    return Promise.all(
+      records.map((record) => this.attachmentsService.toGateway(record)),
+    );
+  }
+
+  /**
+   * Replay a run buffered here to a client connected to another node,
+   * reaching its socket through the Socket.IO adapter
+   */
+  private resumeForRemote(request: RemoteResume): boolean {
+    const run = this.responseBuffer.get(request.runId);
+    if (!run) return false;
+
+    this.bridgeService.resumeRun(request.clientId, run, request.seq, {
+      client: this.remoteClient(request.clientId),
+      streams: request.streams,
     });
+    return true;
   }
 
-  @SubscribeMessage('typing')
-  handleTyping(@ConnectedSocket() client: Socket) {
-    if (!this.authenticatedClients.get(client.id)) {
+  /**
+   * Bridge callbacks for a socket connected to another node, reaching it
+   * through the Socket.IO adapter
+   */
+  private remoteClient(clientId: string): BridgeClient {
+    const socket = this.server.to(clientId);
+    return {
+      onMessage: (message) => socket.emit('message', message),
+      onStatus: (status) => socket.emit('message_status', status),
+      onGatewayStatus: () => undefined,
+      onFiltered: (event) => socket.emit('filtered', event),
+      onGatewayPresence: () => undefined,
+    };
+  }
+
+  /**
+   * The client's session room, leaving the one it was in: both rooms are
+   * told who is now connected
+   */
+  private async joinSessionRoom(
+    client: ChatSocket,
+    subject: string,
+    sessionKey: string,
+  ): Promise<void> {
+    const room = sessionRoom(subject, sessionKey);
+    const previous = client.data.room;
+    const previousKey = client.data.sessionKey;
+    if (room === previous) return;
+
+    if (previous) {
+      this.setTyping(client, false);
+      await client.leave(previous);
+    }
+    client.data.room = room;
+    client.data.sessionKey = sessionKey;
+    await client.join(room);
+
+    await Promise.all([
+      previous && previousKey && this.broadcastPresence(previous, previousKey),
+      this.broadcastPresence(room, sessionKey),
+    ]);
+  }
+
+  /**
+   * Send the devices in a session room, across all nodes, to everyone in it
+   */
+  private async broadcastPresence(
+    room: string,
+    sessionKey: string,
+  ): Promise<void> {
+    try {
+      const sockets = await this.server.in(room).fetchSockets();
+      this.server.to(room).emit('presence', {
+        sessionKey,
+        devices: sockets
+          .map((socket) => presenceDevice(socket.id, socket.data))
+          .sort((a, b) => a.connectedAt - b.connectedAt),
+      });
+    } catch (error) {
+      this.logger.warn(
+        `Presence for ${sessionKey} failed: ${(error as Error).message}`,
+      );
+    }
+  }
+
+  /**
+   * Mark the client as typing (until it goes quiet for a while) or not,
+   * telling the other devices in its room when that changes
+   */
+  private setTyping(client: ChatSocket, isTyping: boolean): void {
+    clearTimeout(this.typingTimers.get(client.id));
+    this.typingTimers.delete(client.id);
+    if (isTyping) {
+      this.typingTimers.set(
+        client.id,
+        setTimeout(() => this.setTyping(client, false), this.typingTimeout),
+      );
+    }
+
+    const { room, device } = client.data;
+    if (!room || client.data.typing === isTyping) return;
+    client.data.typing = isTyping;
+    client
+      .to(room)
+      .emit('user_typing', { clientId: client.id, device, isTyping });
+  }
+
+  /**
+   * The other sockets in the client's session room, to view the run its
+   * message starts
+   */
+  private async followers(client: ChatSocket): Promise<RunFollower[]> {
+    const { room } = client.data;
+    if (!room) return [];
+
+    try {
+      const sockets = await this.server.in(room).fetchSockets();
+      return sockets
+        .filter((socket) => socket.id !== client.id)
+        .map((socket) =>
+          this.server.sockets.has(socket.id)
+            ? { clientId: socket.id }
+            : {
+                clientId: socket.id,
+                remote: {
+                  client: this.remoteClient(socket.id),
+                  streams: socket.data.streams ?? [],
+                },
+              },
+        );
+    } catch (error) {
+      this.logger.warn(
+        `Client ${client.id} - Listing session devices failed: ${(error as Error).message}`,
+      );
+      return [];
+    }
+  }
+
+  /**
+   * Version requested via `auth.protocolVersion` or the `protocolVersion`
+   * query parameter, or null if the server does not speak it
+   */
+  private negotiateProtocol(client: ChatSocket): number | null {
+    const requested: unknown =
+      client.handshake.auth?.protocolVersion ??
+      client.handshake.query.protocolVersion;
+    if (requested === undefined) {
+      return PROTOCOL_VERSION;
+    }
+
+    const version = Number(requested);
+    return SUPPORTED_PROTOCOL_VERSIONS.includes(version) ? version : null;
+  }
+
+  /**
+   * Claims of an authenticated client holding the scope; otherwise throws
+   * a WsException telling the client why not
+   */
+  private authorize(client: ChatSocket, scope: ApiKeyScope): TokenPayload {
+    const claims = this.authenticatedClients.get(client.id);
+    if (!claims) {
+      throw new WsException('Not authenticated');
+    }
+
+    if (!this.authService.isActive(claims)) {
+      this.logger.warn(`Client ${client.id} - Token revoked`);
+      client.emit('error', { message: 'Token revoked' });
+      client.disconnect();
+      throw new WsException('Token revoked');
+    }
+
+    if (!this.authService.hasScope(claims, scope)) {
+      throw new WsException(`Missing scope: ${scope}`);
+    }
+
+    return claims;
+  }
+
+  /**
+   * Warn the client shortly before its token expires, and disconnect it
+   * if it has not re-authenticated by then
+   */
+  private scheduleTokenExpiry(client: ChatSocket, claims: TokenPayload) {
+    this.clearTokenExpiry(client.id);
+    if (!claims.exp) return;
+
+    const expiresAt = claims.exp * 1000;
+    const remaining = expiresAt - Date.now();
+
+    // Too far off for a timer: schedule again once it is within reach
+    if (remaining > MAX_TIMER_DELAY) {
+      const rearm = setTimeout(
+        () => this.scheduleTokenExpiry(client, claims),
+        Math.min(remaining - MAX_TIMER_DELAY, MAX_TIMER_DELAY),
+      );
+      this.expiryTimers.set(client.id, [rearm]);
       return;
     }
 
-    // Notify bridge that user is typing
-    this.bridgeService.sendMessage(client.id, {
-      type: 'user_typing',
-    });
+    const warning = setTimeout(
+      () => {
+        client.emit('token_expiring', {
+          expiresAt,
+          expiresIn: Math.max(0, Math.round((expiresAt - Date.now()) / 1000)),
+        });
+      },
+      Math.max(0, remaining - this.expiryWarningMs),
+    );
+
+    const expiry = setTimeout(() => {
+      this.logger.warn(`Client ${client.id} - Token expired`);
+      client.emit('error', { message: 'Token expired' });
+      client.disconnect();
+    }, remaining);
+
+    this.expiryTimers.set(client.id, [warning, expiry]);
   }
+
+  private clearTokenExpiry(clientId: string) {
+    this.expiryTimers.get(clientId)?.forEach((timer) => clearTimeout(timer));
+    this.expiryTimers.delete(clientId);
+  }
+
+  /**
+   * Switch the client (and the subject's future connections) to a session
+   */
+  private async selectSession(
+    client: ChatSocket,
+    claims: TokenPayload,
+    name: unknown,
+  ): Promise<ChatAck<SessionEvent>> {
+    if (!this.sessionService.isValidName(name)) {
+      throw new WsException('Invalid session name');
+    }
+
+    const sessionKey = this.sessionService.keyFor(claims, name);
+    await this.sessionService.select(claims.sub, name);
+    this.bridgeService.setSessionKey(client.id, sessionKey);
+
+    const session = { name, sessionKey };
+    client.emit('session', session);
+    await this.joinSessionRoom(client, claims.sub, sessionKey);
+    return { ok: true, data: session };
+  }
+}
+
+/**
+ * Stream categories from a list or comma-separated string, or undefined
+ * if none were given (unknown names are ignored)
+ */
+function parseStreams(value: unknown): AgentStream[] | undefined {
+  if (value === undefined || value === null) return undefined;
+
+  const names: unknown[] = Array.isArray(value)
+    ? value
+    : typeof value === 'string'
+      ? value.split(',')
+      : [];
+  return AGENT_STREAMS.filter((stream) =>
+    names.some((name) => typeof name === 'string' && name.trim() === stream),
+  );
+}
+
+/**
+ * Device label from the handshake, if it gave a usable one
+ */
+function parseDevice(value: unknown): string | undefined {
+  if (typeof value !== 'string') return undefined;
+  return value.trim().slice(0, 64) || undefined;
+}
+
+/**
+ * Room joining the subject's sockets on one session, across nodes
+ */
+function sessionRoom(subject: string, sessionKey: string): string {
+  return `session:${subject}:${sessionKey}`;
+}
+
+function presenceDevice(
+  clientId: string,
+  data: Partial<ChatSocketData>,
+): PresenceDevice {
+  return {
+    clientId,
+    ...(data.device && { device: data.device }),
+    connectedAt: data.connectedAt ?? 0,
+    typing: data.typing ?? false,
+  };
+}
+
+function streamsEvent(streams: Iterable<AgentStream>): StreamsEvent {
+  const enabled = new Set(streams);
+  return {
+    tools: enabled.has('tools'),
+    thinking: enabled.has('thinking'),
+    status: enabled.has('status'),
+  };
+}
+
+/**
+ * Error event for a failed gateway call, naming the method and why it
+ * failed
+ */
+function gatewayError(message: string, error: unknown): ChatErrorEvent {
+  if (!(error instanceof GatewayRequestError)) {
+    return { message, error: (error as Error)?.message };
+  }
+
+  return {
+    message:
+      error.reason === 'not_connected' ? 'Gateway not connected' : message,
+    method: error.method,
+    reason: error.reason,
+    error: error.error,
+  };
 }
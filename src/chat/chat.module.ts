@@ -1,10 +1,38 @@
 import { Module } from '@nestjs/common';
 import { ChatGateway } from './chat.gateway';
 import { BridgeService } from './bridge.service';
+import { SessionService } from './session.service';
+import { ResponseBufferService } from './response-buffer.service';
+import { GatewayTargetService } from './gateway-target.service';
+import { RateLimitService } from './rate-limit.service';
+import { AttachmentsModule } from '../attachments/attachments.module';
 import { AuthModule } from '../auth/auth.module';
+import { AvatarModule } from '../avatar/avatar.module';
+import { DeviceModule } from '../device/device.module';
+import { FiltersModule } from '../filters/filters.module';
+import { MetricsModule } from '../metrics/metrics.module';
+import { TranscriptsModule } from '../transcripts/transcripts.module';
+import { VoiceModule } from '../voice/voice.module';
 
 @Module({
-  imports: [AuthModule],
-  providers: [ChatGateway, BridgeService],
+  imports: [
+    AttachmentsModule,
+    AuthModule,
+    AvatarModule,
+    DeviceModule,
+    FiltersModule,
+    MetricsModule,
+    TranscriptsModule,
+    VoiceModule,
+  ],
+  providers: [
+    ChatGateway,
+    BridgeService,
+    SessionService,
+    ResponseBufferService,
+    GatewayTargetService,
+    RateLimitService,
+  ],
+  exports: [BridgeService, GatewayTargetService, ChatGateway],
 })
 export class ChatModule {}
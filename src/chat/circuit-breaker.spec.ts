@@ -0,0 +1,65 @@
+import { CircuitBreaker } from './circuit-breaker';
+
+describe('CircuitBreaker', () => {
+  let breaker: CircuitBreaker;
+
+  beforeEach(() => {
+    jest.useFakeTimers();
+    breaker = new CircuitBreaker(3, 1000);
+  });
+
+  afterEach(() => {
+    jest.useRealTimers();
+  });
+
+  it('opens after the threshold of consecutive failures', () => {
+    breaker.recordFailure();
+    breaker.recordFailure();
+    expect(breaker.state).toBe('closed');
+    expect(breaker.acquire()).toBe(0);
+
+    breaker.recordFailure();
+    expect(breaker.state).toBe('open');
+    expect(breaker.acquire()).toBe(1000);
+    expect(breaker.retryIn()).toBe(1000);
+  });
+
+  it('opens straight away on a fatal failure', () => {
+    breaker.recordFailure(true);
+
+    expect(breaker.state).toBe('open');
+  });
+
+  it('lets a single probe through once the cooldown ends', () => {
+    breaker.recordFailure(true);
+    jest.advanceTimersByTime(1000);
+
+    expect(breaker.state).toBe('half-open');
+    expect(breaker.acquire()).toBe(0);
+    jest.advanceTimersByTime(400);
+    expect(breaker.acquire()).toBe(600);
+  });
+
+  it('re-opens when the probe fails', () => {
+    breaker.recordFailure(true);
+    jest.advanceTimersByTime(1000);
+    breaker.acquire();
+
+    breaker.recordFailure();
+    expect(breaker.state).toBe('open');
+    expect(breaker.acquire()).toBe(1000);
+  });
+
+  it('closes when the probe succeeds', () => {
+    breaker.recordFailure(true);
+    jest.advanceTimersByTime(1000);
+    breaker.acquire();
+
+    breaker.recordSuccess();
+    expect(breaker.state).toBe('closed');
+    expect(breaker.retryIn()).toBe(0);
+
+    breaker.recordFailure();
+    expect(breaker.state).toBe('closed');
+  });
+});
@@ -0,0 +1,64 @@
+export type CircuitState = 'closed' | 'open' | 'half-open';
+
+/**
+ * Circuit breaker shared by every pooled gateway connection. After
+ * `threshold` consecutive failures (or one fatal failure, such as the
+ * gateway rejecting our token) it opens for `cooldownMs`; then a single
+ * connection may probe the gateway while the others keep waiting.
+ */
+export class CircuitBreaker {
+  private failures = 0;
+  private openUntil = 0;
+  private probeStartedAt = 0;
+
+  constructor(
+    private readonly threshold: number,
+    private readonly cooldownMs: number,
+  ) {}
+
+  get state(): CircuitState {
+    if (this.openUntil === 0) return 'closed';
+    return Date.now() < this.openUntil ? 'open' : 'half-open';
+  }
+
+  /**
+   * Milliseconds until the breaker lets another attempt through
+   */
+  retryIn(): number {
+    return Math.max(0, this.openUntil - Date.now());
+  }
+
+  /**
+   * Ask to attempt a connection; returns how long to wait instead (0 means
+   * go ahead). In half-open state only one probe is let through at a time.
+   */
+  acquire(): number {
+    if (this.openUntil === 0) return 0;
+
+    const now = Date.now();
+    if (now < this.openUntil) return this.openUntil - now;
+
+    if (this.probeStartedAt && now - this.probeStartedAt < this.cooldownMs) {
+      return this.probeStartedAt + this.cooldownMs - now;
+    }
+
+    this.probeStartedAt = now;
+    return 0;
+  }
+
+  recordSuccess(): void {
+    this.failures = 0;
+    this.openUntil = 0;
+    this.probeStartedAt = 0;
+  }
+
+  recordFailure(fatal = false): void {
+    this.failures++;
+    this.probeStartedAt = 0;
+
+    // A failed probe re-opens the breaker straight away
+    if (fatal || this.failures >= this.threshold || this.openUntil !== 0) {
+      this.openUntil = Date.now() + this.cooldownMs;
+    }
+  }
+}
@@ -0,0 +1,36 @@
+import {
+  IsBoolean,
+  IsInstance,
+  IsOptional,
+  Matches,
+  MaxLength,
+} from 'class-validator';
+import { AudioChunkPayload } from '../protocol/chat-protocol';
+
+export class AudioChunkDto implements AudioChunkPayload {
+  // Socket.IO delivers binary attachments as Buffers
+  @IsOptional()
+  @IsInstance(Buffer, { message: 'audio must be binary' })
+  audio?: Uint8Array;
+
+  @IsOptional()
+  @MaxLength(100)
+  @Matches(/^[\w.+-]+\/[\w.+-]+(;.*)?$/, {
+    message: 'mimeType must be a MIME type',
+  })
+  mimeType?: string;
+
+  @IsOptional()
+  @IsBoolean()
+  final?: boolean;
+
+  @IsOptional()
+  @Matches(/^[A-Za-z0-9_.:-]{1,128}$/, {
+    message: 'id must be 1-128 letters, digits or _ . : -',
+  })
+  id?: string;
+
+  @IsOptional()
+  @IsBoolean()
+  interrupt?: boolean;
+}
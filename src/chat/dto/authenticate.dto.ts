@@ -0,0 +1,8 @@
+import { IsString, IsNotEmpty } from 'class-validator';
+import { AuthenticatePayload } from '../protocol/chat-protocol';
+
+export class AuthenticateDto implements AuthenticatePayload {
+  @IsString()
+  @IsNotEmpty()
+  token: string;
+}
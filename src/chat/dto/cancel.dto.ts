@@ -0,0 +1,9 @@
+import { IsNotEmpty, IsOptional, IsString } from 'class-validator';
+import { CancelPayload } from '../protocol/chat-protocol';
+
+export class CancelDto implements CancelPayload {
+  @IsOptional()
+  @IsString()
+  @IsNotEmpty()
+  runId?: string;
+}
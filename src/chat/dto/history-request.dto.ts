@@ -0,0 +1,22 @@
+import {
+  IsInt,
+  IsNotEmpty,
+  IsOptional,
+  IsString,
+  Max,
+  Min,
+} from 'class-validator';
+import { HistoryRequestPayload } from '../protocol/chat-protocol';
+
+export class HistoryRequestDto implements HistoryRequestPayload {
+  @IsOptional()
+  @IsInt()
+  @Min(1)
+  @Max(500)
+  limit?: number;
+
+  @IsOptional()
+  @IsString()
+  @IsNotEmpty()
+  before?: string;
+}
@@ -0,0 +1,14 @@
+import { IsInt, IsNotEmpty, IsOptional, IsString, Min } from 'class-validator';
+import { ResumePayload } from '../protocol/chat-protocol';
+
+export class ResumeDto implements ResumePayload {
+  @IsOptional()
+  @IsString()
+  @IsNotEmpty()
+  runId?: string;
+
+  @IsOptional()
+  @IsInt()
+  @Min(0)
+  seq?: number;
+}
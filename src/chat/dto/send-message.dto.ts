@@ -0,0 +1,32 @@
+import {
+  ArrayMaxSize,
+  IsArray,
+  IsBoolean,
+  IsString,
+  IsOptional,
+  IsUUID,
+  Matches,
+} from 'class-validator';
+import { MAX_ATTACHMENTS_PER_MESSAGE } from '../../attachments/attachments.service';
+import { SendMessagePayload } from '../protocol/chat-protocol';
+
+export class SendMessageDto implements SendMessagePayload {
+  @IsString()
+  text: string;
+
+  @IsOptional()
+  @IsArray()
+  @ArrayMaxSize(MAX_ATTACHMENTS_PER_MESSAGE)
+  @IsUUID('4', { each: true })
+  attachments?: string[];
+
+  @IsOptional()
+  @Matches(/^[A-Za-z0-9_.:-]{1,128}$/, {
+    message: 'id must be 1-128 letters, digits or _ . : -',
+  })
+  id?: string;
+
+  @IsOptional()
+  @IsBoolean()
+  interrupt?: boolean;
+}
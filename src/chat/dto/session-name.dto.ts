@@ -0,0 +1,20 @@
+import { IsOptional, Matches } from 'class-validator';
+import {
+  OptionalSessionNamePayload,
+  SessionNamePayload,
+} from '../protocol/chat-protocol';
+import { SESSION_NAME_PATTERN } from '../session.service';
+
+const SESSION_NAME_MESSAGE =
+  'name must be 1-64 letters, digits, underscores or dashes';
+
+export class SessionNameDto implements SessionNamePayload {
+  @Matches(SESSION_NAME_PATTERN, { message: SESSION_NAME_MESSAGE })
+  name: string;
+}
+
+export class OptionalSessionNameDto implements OptionalSessionNamePayload {
+  @IsOptional()
+  @Matches(SESSION_NAME_PATTERN, { message: SESSION_NAME_MESSAGE })
+  name?: string;
+}
@@ -0,0 +1,16 @@
+import { IsBoolean, IsOptional } from 'class-validator';
+import { StreamsPayload } from '../protocol/chat-protocol';
+
+export class StreamsDto implements StreamsPayload {
+  @IsOptional()
+  @IsBoolean()
+  tools?: boolean;
+
+  @IsOptional()
+  @IsBoolean()
+  thinking?: boolean;
+
+  @IsOptional()
+  @IsBoolean()
+  status?: boolean;
+}
@@ -0,0 +1,8 @@
+import { IsBoolean, IsOptional } from 'class-validator';
+import { TypingPayload } from '../protocol/chat-protocol';
+
+export class TypingDto implements TypingPayload {
+  @IsOptional()
+  @IsBoolean()
+  isTyping?: boolean;
+}
@@ -0,0 +1,18 @@
+import { IsBoolean, IsOptional, Matches } from 'class-validator';
+import { VoicePayload } from '../protocol/chat-protocol';
+
+export class VoiceDto implements VoicePayload {
+  @IsOptional()
+  @IsBoolean()
+  output?: boolean;
+
+  @IsOptional()
+  @Matches(/^[A-Za-z0-9_.:-]{1,64}$/, {
+    message: 'voice must be 1-64 letters, digits or _ . : -',
+  })
+  voice?: string;
+
+  @IsOptional()
+  @IsBoolean()
+  visemes?: boolean;
+}
@@ -0,0 +1,407 @@
+import { Logger } from '@nestjs/common';
+import WebSocket from 'ws';
+import { v4 as uuidv4 } from 'uuid';
+import { DeviceIdentityService } from '../device/device-identity.service';
+import { CircuitBreaker } from './circuit-breaker';
+import { GatewayRetryReason } from './protocol/chat-protocol';
+
+export interface GatewayMessage {
+  type: 'event' | 'res' | 'req';
+  event?: string;
+  id?: string;
+  method?: string;
+  ok?: boolean;
+  payload?: unknown;
+  error?: unknown;
+}
+
+/**
+ * A request frame sent to the gateway, answered by a `res` with its id
+ */
+export interface GatewayRequest {
+  type: 'req';
+  id: string;
+  method: string;
+  params: Record<string, unknown>;
+}
+
+export interface ReconnectBackoff {
+  baseDelay: number;
+  maxDelay: number;
+  /** 0 retries forever */
+  maxAttempts: number;
+}
+
+export interface ReconnectSchedule {
+  attempt: number;
+  maxAttempts: number;
+  nextRetryAt: number;
+  reason: GatewayRetryReason;
+}
+
+export interface GatewayConnectionOptions {
+  id: string;
+  /** Name of the gateway target */
+  gateway: string;
+  url: string;
+  token: string;
+  /** Operator scopes requested in the connect handshake */
+  scopes: string[];
+  deviceIdentityService: DeviceIdentityService;
+  breaker: CircuitBreaker;
+  backoff: ReconnectBackoff;
+  onReady: (connection: GatewayConnection) => void;
+  onMessage: (connection: GatewayConnection, message: GatewayMessage) => void;
+  onDisconnect: (connection: GatewayConnection) => void;
+  onReconnecting: (
+    connection: GatewayConnection,
+    schedule: ReconnectSchedule,
+  ) => void;
+  onGiveUp: (connection: GatewayConnection) => void;
+  onError: (connection: GatewayConnection, error: string) => void;
+}
+
+/**
+ * A single authenticated upstream socket to the OpenClaw gateway,
+ * shared by every client the pool attaches to it
+ */
+export class GatewayConnection {
+  readonly id: string;
+  readonly gateway: string;
+  readonly clients = new Set<string>();
+  idleTimeout?: NodeJS.Timeout;
+
+  private readonly logger = new Logger(GatewayConnection.name);
+  private ws: WebSocket | null = null;
+  private authenticated = false;
+  private closed = false;
+  private reconnectTimeout?: NodeJS.Timeout;
+  private connectRequestId?: string;
+  private handshakeRejected = false;
+  private attempts = 0;
+  private schedule?: ReconnectSchedule;
+
+  constructor(private readonly options: GatewayConnectionOptions) {
+    this.id = options.id;
+    this.gateway = options.gateway;
+  }
+
+  /**
+   * Whether the handshake completed and requests can be sent
+   */
+  get isReady(): boolean {
+    return (
+      this.authenticated &&
+      this.ws !== null &&
+      this.ws.readyState === WebSocket.OPEN
+    );
+  }
+
+  /**
+   * Whether the connection was closed or gave up reconnecting
+   */
+  get isClosed(): boolean {
+    return this.closed;
+  }
+
+  /**
+   * The pending reconnect, if the connection is waiting to retry
+   */
+  get pendingRetry(): ReconnectSchedule | undefined {
+    return this.schedule;
+  }
+
+  /**
+   * Connect to the OpenClaw gateway WebSocket, unless the shared circuit
+   * breaker is open
+   */
+  connect(): void {
+    if (this.closed) return;
+    this.schedule = undefined;
+
+    const wait = this.options.breaker.acquire();
+    if (wait > 0) {
+      this.scheduleConnect(wait, 'circuit_open');
+      return;
+    }
+
+    try {
+      this.logger.log(
+        `[${this.id}] Connecting to gateway: ${this.options.url}`,
+      );
+      const ws = new WebSocket(this.options.url);
+
+      ws.on('open', () => {
+        this.logger.log(
+          `[${this.id}] WebSocket connected, awaiting challenge...`,
+        );
+      });
+
+      ws.on('message', (data: WebSocket.Data) => {
+        try {
+          // Frames arrive as Buffers, ws's default binaryType
+          const message = JSON.parse(
+            (data as Buffer).toString(),
+          ) as GatewayMessage;
+          this.handleFrame(message);
+        } catch (err) {
+          this.logger.error(
+            `[${this.id}] Failed to parse gateway message: ${err}`,
+          );
+        }
+      });
+
+      ws.on('close', () => {
+        this.logger.log(`[${this.id}] Gateway connection closed`);
+        const wasReady = this.authenticated;
+        const rejected = this.handshakeRejected;
+        this.ws = null;
+        this.authenticated = false;
+        this.handshakeRejected = false;
+
+        if (wasReady) {
+          this.options.onDisconnect(this);
+        } else if (!rejected && !this.closed) {
+          this.options.breaker.recordFailure();
+        }
+
+        if (!this.closed) {
+          this.scheduleReconnect(
+            rejected
+              ? 'handshake_rejected'
+              : wasReady
+                ? 'connection_lost'
+                : 'connect_failed',
+          );
+        }
+      });
+
+      ws.on('error', (error) => {
+        this.logger.error(
+          `[${this.id}] Gateway connection error: ${error.message}`,
+        );
+        this.options.onError(this, error.message);
+      });
+
+      this.ws = ws;
+    } catch (error) {
+      this.logger.error(
+        `[${this.id}] Failed to create gateway connection: ${error}`,
+      );
+      this.options.onError(this, String(error));
+      this.options.breaker.recordFailure();
+      this.scheduleReconnect('connect_failed');
+    }
+  }
+
+  /**
+   * Retry with exponential backoff and jitter, giving up after the
+   * configured number of attempts
+   */
+  private scheduleReconnect(reason: GatewayRetryReason): void {
+    const { baseDelay, maxDelay, maxAttempts } = this.options.backoff;
+    this.attempts++;
+
+    if (maxAttempts > 0 && this.attempts > maxAttempts) {
+      this.logger.error(
+        `[${this.id}] Giving up after ${maxAttempts} reconnect attempts`,
+      );
+      this.closed = true;
+      this.schedule = undefined;
+      this.options.onGiveUp(this);
+      return;
+    }
+
+    // Keep half the delay fixed so retries never collapse to zero
+    const ceiling = Math.min(maxDelay, baseDelay * 2 ** (this.attempts - 1));
+    const delay = ceiling / 2 + Math.random() * (ceiling / 2);
+
+    this.scheduleConnect(
+      Math.max(delay, this.options.breaker.retryIn()),
+      reason,
+    );
+  }
+
+  private scheduleConnect(delay: number, reason: GatewayRetryReason): void {
+    const { maxAttempts } = this.options.backoff;
+    delay = Math.round(delay);
+
+    this.schedule = {
+      attempt: Math.max(this.attempts, 1),
+      maxAttempts,
+      nextRetryAt: Date.now() + delay,
+      reason,
+    };
+    this.logger.warn(
+      `[${this.id}] Reconnecting in ${delay}ms (attempt ${this.schedule.attempt}${maxAttempts > 0 ? `/${maxAttempts}` : ''}, ${reason})`,
+    );
+    this.reconnectTimeout = setTimeout(() => this.connect(), delay);
+    this.options.onReconnecting(this, this.schedule);
+  }
+
+  /**
+   * Send a frame to the gateway, returning false if the socket is not open
+   */
+  send(message: GatewayRequest): boolean {
+    if (!this.ws || this.ws.readyState !== WebSocket.OPEN) {
+      this.logger.warn(`[${this.id}] Cannot send - WebSocket not open`);
+      return false;
+    }
+
+    try {
+      const frame = JSON.stringify(message);
+      this.ws.send(frame);
+      this.logger.debug(`[${this.id}] Sent: ${frame.substring(0, 150)}`);
+      return true;
+    } catch (error) {
+      this.logger.error(`[${this.id}] Failed to send: ${error}`);
+      return false;
+    }
+  }
+
+  /**
+   * Close the connection for good (no reconnect)
+   */
+  close(): void {
+    this.closed = true;
+    this.schedule = undefined;
+
+    if (this.reconnectTimeout) {
+      clearTimeout(this.reconnectTimeout);
+    }
+    if (this.idleTimeout) {
+      clearTimeout(this.idleTimeout);
+    }
+
+    if (this.ws) {
+      try {
+        this.ws.close();
+      } catch {
+        // Ignore close errors
+      }
+    }
+
+    this.ws = null;
+    this.authenticated = false;
+    this.logger.log(`[${this.id}] Gateway connection released`);
+  }
+
+  private handleFrame(message: GatewayMessage): void {
+    this.logger.debug(
+      `[${this.id}] Received: ${JSON.stringify(message).substring(0, 200)}`,
+    );
+
+    // Handle connect.challenge event
+    if (message.type === 'event' && message.event === 'connect.challenge') {
+      this.handleConnectChallenge(
+        message.payload as { nonce: string; ts: number },
+      );
+      return;
+    }
+
+    // Handle connect response
+    if (message.type === 'res' && message.id === this.connectRequestId) {
+      this.connectRequestId = undefined;
+
+      const hello = message.payload as { type?: string } | undefined;
+      if (message.ok && hello?.type === 'hello-ok') {
+        this.logger.log(`[${this.id}] Gateway authentication successful!`);
+        this.authenticated = true;
+        this.attempts = 0;
+        this.options.breaker.recordSuccess();
+        this.options.onReady(this);
+        return;
+      }
+
+      // Retrying a rejected token or device right away will not help, so
+      // trip the breaker instead of hammering the gateway
+      this.logger.error(
+        `[${this.id}] Gateway handshake failed: ${JSON.stringify(message.error)}`,
+      );
+      this.handshakeRejected = true;
+      this.options.onError(
+        this,
+        `Handshake rejected: ${(message.error as { message?: string } | undefined)?.message ?? JSON.stringify(message.error)}`,
+      );
+      this.options.breaker.recordFailure(true);
+      this.ws?.close();
+      return;
+    }
+
+    this.options.onMessage(this, message);
+  }
+
+  /**
+   * Handle the connect.challenge from gateway
+   */
+  private handleConnectChallenge(payload: { nonce: string; ts: number }): void {
+    if (!this.ws) return;
+
+    this.logger.log(
+      `[${this.id}] Received connect.challenge, signing and sending connect request...`,
+    );
+
+    // Read per handshake, which reloads a rotated key file, so the new key
+    // is used from the next reconnect
+    const deviceIdentity = this.options.deviceIdentityService.getIdentity();
+    const signedAt = Date.now();
+    const scopes = this.options.scopes;
+
+    // Build the message to sign (matches gateway's expected format)
+    // Format: "v2|deviceId|clientId|clientMode|role|scopes|signedAt|token|nonce"
+    const signaturePayload = [
+      'v2',
+      deviceIdentity.deviceId,
+      'cli', // Must match client.id
+      'cli', // Must match client.mode
+      'operator',
+      scopes.join(','),
+      String(signedAt),
+      this.options.token || '',
+      payload.nonce,
+    ].join('|');
+
+    try {
+      const signature = this.options.deviceIdentityService.sign(
+        signaturePayload,
+        deviceIdentity,
+      );
+
+      this.connectRequestId = uuidv4();
+      this.send({
+        type: 'req',
+        id: this.connectRequestId,
+        method: 'connect',
+        params: {
+          minProtocol: 3,
+          maxProtocol: 3,
+          client: {
+            id: 'cli', // Use CLI client ID (no origin restrictions)
+            version: '1.0.0',
+            platform: 'linux',
+            mode: 'cli', // CLI mode
+          },
+          role: 'operator',
+          scopes: scopes,
+          caps: [],
+          commands: [],
+          permissions: {},
+          auth: {
+            token: this.options.token,
+          },
+          locale: 'en-US',
+          userAgent: 'openclaw-face-bridge/1.0.0',
+          device: {
+            id: deviceIdentity.deviceId,
+            publicKey: deviceIdentity.publicKey,
+            signature: signature,
+            signedAt: signedAt,
+            nonce: payload.nonce,
+          },
+        },
+      });
+    } catch (error) {
+      this.logger.error(`[${this.id}] Failed to sign challenge: ${error}`);
+    }
+  }
+}
@@ -0,0 +1,15 @@
+import { GatewayRequestFailure } from './protocol/chat-protocol';
+
+/**
+ * Rejection of a gateway RPC made through BridgeService.call()
+ */
+export class GatewayRequestError extends Error {
+  constructor(
+    readonly method: string,
+    readonly reason: GatewayRequestFailure,
+    readonly error?: unknown,
+  ) {
+    super(`Gateway request ${method} failed: ${reason}`);
+    this.name = GatewayRequestError.name;
+  }
+}
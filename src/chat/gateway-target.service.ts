@@ -0,0 +1,133 @@
+import { Injectable, Logger } from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import { readFileSync } from 'fs';
+
+export const GATEWAY_NAME_PATTERN = /^[A-Za-z0-9_-]{1,64}$/;
+
+const DEFAULT_OPERATOR_SCOPES = ['operator.read', 'operator.write'];
+
+/**
+ * A named upstream OpenClaw gateway
+ */
+export interface GatewayTarget {
+  name: string;
+  url: string;
+  token: string;
+  /** Operator scopes requested in the connect handshake */
+  scopes: string[];
+}
+
+interface GatewayFileEntry {
+  name?: unknown;
+  url?: unknown;
+  token?: unknown;
+  scopes?: unknown;
+}
+
+/**
+ * Gateway targets loaded from GATEWAYS_FILE, or a single "default" target
+ * from GATEWAY_WS_URL and GATEWAY_TOKEN. The first target is the default
+ * for clients and tokens that don't choose one.
+ */
+@Injectable()
+export class GatewayTargetService {
+  private readonly logger = new Logger(GatewayTargetService.name);
+  private readonly targets = new Map<string, GatewayTarget>();
+
+  constructor(private readonly configService: ConfigService) {
+    const targetsFile = this.configService.get<string>('GATEWAYS_FILE', '');
+    const targets = targetsFile ? this.loadFile(targetsFile) : [this.fromEnv()];
+
+    targets.forEach((target) => {
+      if (this.targets.has(target.name)) {
+        throw new Error(`Duplicate gateway target "${target.name}"`);
+      }
+      this.targets.set(target.name, target);
+      if (!target.token) {
+        this.logger.warn(
+          `No token configured for gateway "${target.name}" - connection may fail`,
+        );
+      }
+    });
+  }
+
+  /**
+   * Target used when neither the token nor the client picks one
+   */
+  get defaultTarget(): GatewayTarget {
+    return this.targets.values().next().value as GatewayTarget;
+  }
+
+  get(name: string): GatewayTarget | undefined {
+    return this.targets.get(name);
+  }
+
+  list(): GatewayTarget[] {
+    return [...this.targets.values()];
+  }
+
+  private fromEnv(): GatewayTarget {
+    return {
+      name: 'default',
+      url: normalizeUrl(
+        this.configService.get<string>(
+          'GATEWAY_WS_URL',
+          'ws://localhost:38191',
+        ),
+      ),
+      token: this.configService.get<string>('GATEWAY_TOKEN', ''),
+      scopes: DEFAULT_OPERATOR_SCOPES,
+    };
+  }
+
+  private loadFile(path: string): GatewayTarget[] {
+    const entries = JSON.parse(readFileSync(path, 'utf-8')) as unknown;
+    if (!Array.isArray(entries) || entries.length === 0) {
+      throw new Error(
+        `${path} must contain a non-empty JSON array of gateways`,
+      );
+    }
+
+    return entries.map((entry: GatewayFileEntry, index) =>
+      this.parseEntry(entry, `${path}[${index}]`),
+    );
+  }
+
+  private parseEntry(entry: GatewayFileEntry, where: string): GatewayTarget {
+    if (
+      typeof entry.name !== 'string' ||
+      !GATEWAY_NAME_PATTERN.test(entry.name)
+    ) {
+      throw new Error(
+        `${where}: "name" must be 1-64 letters, digits, underscores or dashes`,
+      );
+    }
+
+    if (typeof entry.url !== 'string' || !/^wss?:\/\//.test(entry.url)) {
+      throw new Error(`${where}: "url" must be a ws:// or wss:// URL`);
+    }
+
+    if (entry.token !== undefined && typeof entry.token !== 'string') {
+      throw new Error(`${where}: "token" must be a string`);
+    }
+
+    const scopes = entry.scopes ?? DEFAULT_OPERATOR_SCOPES;
+    if (
+      !Array.isArray(scopes) ||
+      !scopes.every((scope) => typeof scope === 'string' && scope)
+    ) {
+      throw new Error(`${where}: "scopes" must be a list of operator scopes`);
+    }
+
+    return {
+      name: entry.name,
+      url: normalizeUrl(entry.url),
+      token: entry.token ?? '',
+      scopes: scopes as string[],
+    };
+  }
+}
+
+function normalizeUrl(url: string): string {
+  return url.replace(/\/ws\/chat$/, '').replace(/\/$/, '');
+}
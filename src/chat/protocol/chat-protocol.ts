@@ -0,0 +1,656 @@
+/**
+ * Socket.IO protocol spoken on the /chat namespace. Frontends can import
+ * these types; inbound payloads are validated at runtime by the DTOs in
+ * ../dto, which implement the payload interfaces below.
+ */
+
+/**
+ * Bumped on breaking changes to any event below.
+ * v2: history replies arrive as a `history` event instead of a raw `res`.
+ */
+export const PROTOCOL_VERSION = 2;
+
+export const SUPPORTED_PROTOCOL_VERSIONS: readonly number[] = [1, 2];
+
+/**
+ * Optional agent stream categories a client can opt in to
+ */
+export const AGENT_STREAMS = ['tools', 'thinking', 'status'] as const;
+
+export type AgentStream = (typeof AGENT_STREAMS)[number];
+
+// Client → Server
+
+export interface SendMessagePayload {
+  /** May be empty when attachments are sent */
+  text: string;
+  /** Ids returned by POST /attachments */
+  attachments?: string[];
+  /** Client-chosen message id; reuse it when resending after a reconnect */
+  id?: string;
+  /** Cancel the client's active run first (defaults to INTERRUPT_ON_MESSAGE) */
+  interrupt?: boolean;
+}
+
+export interface HistoryRequestPayload {
+  limit?: number;
+  /** `nextCursor` of the previous page, to fetch older messages */
+  before?: string;
+}
+
+export interface CancelPayload {
+  /** Defaults to the client's most recent active run */
+  runId?: string;
+}
+
+export interface ResumePayload {
+  /** Defaults to the latest run in the current session */
+  runId?: string;
+  /** Last `seq` received; omit to get the assembled text so far */
+  seq?: number;
+}
+
+export interface SessionNamePayload {
+  name: string;
+}
+
+export interface OptionalSessionNamePayload {
+  name?: string;
+}
+
+/**
+ * Part of a spoken utterance, with its audio as binary. The chunk marked
+ * `final` ends the utterance, which is then transcribed and sent as a
+ * chat message.
+ */
+export interface AudioChunkPayload {
+  audio?: ArrayBuffer | Uint8Array;
+  /** Audio format, read from an utterance's first chunk (default audio/webm) */
+  mimeType?: string;
+  final?: boolean;
+  /** As in `message`, for the transcribed message */
+  id?: string;
+  interrupt?: boolean;
+}
+
+/**
+ * Spoken output settings; omitted fields keep their current value
+ */
+export interface VoicePayload {
+  /** Speak responses as `audio_chunk` events */
+  output?: boolean;
+  voice?: string;
+  /** Send `visemes` lip-sync frames with spoken audio */
+  visemes?: boolean;
+}
+
+export interface AuthenticatePayload {
+  token: string;
+}
+
+/**
+ * Opt in to (true) or out of (false) agent stream categories; omitted
+ * categories keep their current setting
+ */
+export type StreamsPayload = Partial<Record<AgentStream, boolean>>;
+
+/**
+ * The user is typing (the default) or stopped; typing also stops after a
+ * few idle seconds, or when the device sends its message
+ */
+export interface TypingPayload {
+  isTyping?: boolean;
+}
+
+/**
+ * Result passed to the acknowledgement callback of a client event. The
+ * matching server event (or `error`) is emitted as well.
+ */
+export type ChatAck<T = undefined> =
+  | { ok: true; data?: T }
+  | { ok: false; error: ChatErrorEvent };
+
+export type AckCallback<T = undefined> = (ack: ChatAck<T>) => void;
+
+export interface ClientToServerEvents {
+  message: (
+    payload: SendMessagePayload,
+    ack?: AckCallback<{ id: string }>,
+  ) => void;
+  history: (
+    payload?: HistoryRequestPayload,
+    ack?: AckCallback<HistoryEvent>,
+  ) => void;
+  typing: (payload?: TypingPayload) => void;
+  cancel: (payload?: CancelPayload, ack?: AckCallback<RunAck>) => void;
+  resume: (payload?: ResumePayload, ack?: AckCallback<RunAck>) => void;
+  authenticate: (
+    payload: AuthenticatePayload,
+    ack?: AckCallback<AuthenticatedEvent>,
+  ) => void;
+  streams: (payload: StreamsPayload, ack?: AckCallback<StreamsEvent>) => void;
+  audio_chunk: (
+    payload: AudioChunkPayload,
+    ack?: AckCallback<TranscriptionEvent>,
+  ) => void;
+  voice: (payload: VoicePayload, ack?: AckCallback<VoiceEvent>) => void;
+  'session.create': (
+    payload?: OptionalSessionNamePayload,
+    ack?: AckCallback<SessionEvent>,
+  ) => void;
+  'session.select': (
+    payload: SessionNamePayload,
+    ack?: AckCallback<SessionEvent>,
+  ) => void;
+  'session.list': (ack?: AckCallback<SessionsEvent>) => void;
+  'session.reset': (
+    payload?: OptionalSessionNamePayload,
+    ack?: AckCallback<SessionResetEvent>,
+  ) => void;
+}
+
+export interface RunAck {
+  runId: string;
+}
+
+// Server → Client
+
+export interface ConnectedEvent {
+  message: string;
+  protocolVersion: number;
+  supportedVersions: readonly number[];
+}
+
+export type GatewayState = 'connected' | 'reconnecting' | 'unavailable';
+
+export type GatewayRetryReason =
+  | 'connection_lost'
+  | 'connect_failed'
+  | 'handshake_rejected'
+  | 'circuit_open';
+
+/**
+ * Sent once on connect, then whenever the upstream gateway connection
+ * changes state; `isConnected` is false while the gateway is unreachable
+ */
+export interface StatusEvent {
+  isConnected: boolean;
+  state?: GatewayState;
+  attempt?: number;
+  maxAttempts?: number;
+  nextRetryAt?: number;
+  reason?: GatewayRetryReason;
+}
+
+export interface TypingEvent {
+  isTyping: boolean;
+}
+
+export type StreamsEvent = Record<AgentStream, boolean>;
+
+export interface VoiceEvent {
+  output: boolean;
+  voice: string;
+  visemes: boolean;
+  /** Format of the spoken audio */
+  mimeType: string;
+}
+
+/**
+ * Recognized text of the client's utterance: partial while it streams in,
+ * then final with the id of the chat message it was sent as
+ */
+export interface TranscriptionEvent {
+  text: string;
+  final: boolean;
+  id?: string;
+}
+
+/**
+ * One spoken sentence of a response, sent as soon as the sentence is
+ * complete
+ */
+export interface AudioChunkEvent {
+  runId: string;
+  /** Position among the run's audio chunks, from 1 */
+  seq: number;
+  /** The sentence spoken (empty on a final chunk with nothing left to say) */
+  text: string;
+  /** `seq` of the latest `response` delta once the sentence was complete */
+  responseSeq?: number;
+  audio: ArrayBuffer | Uint8Array;
+  mimeType: string;
+  durationMs: number;
+  /** Last chunk of the run's response */
+  final: boolean;
+}
+
+/**
+ * Mouth shapes for lip-sync, as in the Oculus viseme set
+ */
+export const VISEMES = [
+  'sil',
+  'PP',
+  'FF',
+  'TH',
+  'DD',
+  'kk',
+  'CH',
+  'SS',
+  'nn',
+  'RR',
+  'aa',
+  'E',
+  'ih',
+  'oh',
+  'ou',
+] as const;
+
+export type Viseme = (typeof VISEMES)[number];
+
+export interface VisemeFrame {
+  viseme: Viseme;
+  /** Milliseconds from the start of the audio chunk */
+  offsetMs: number;
+  durationMs: number;
+}
+
+/**
+ * Lip-sync timing for an `audio_chunk`, sent just before it
+ */
+export interface VisemesEvent {
+  runId: string;
+  /** `seq` of the audio chunk the frames belong to */
+  seq: number;
+  frames: VisemeFrame[];
+}
+
+export const EXPRESSIONS = [
+  'idle',
+  'thinking',
+  'speaking',
+  'tool_using',
+  'error',
+] as const;
+
+export type Expression = (typeof EXPRESSIONS)[number];
+
+/**
+ * What the face should show, derived from agent activity; sent on
+ * connect and whenever it changes
+ */
+export interface ExpressionEvent {
+  expression: Expression;
+  runId?: string;
+  /** Tool being used, with `tool_using` */
+  tool?: string;
+  /** Epoch milliseconds of the change */
+  at: number;
+}
+
+export interface SessionEvent {
+  name: string;
+  sessionKey: string;
+}
+
+export interface SessionSummary {
+  name: string;
+  key: string;
+  [field: string]: unknown;
+}
+
+export interface SessionsEvent {
+  current: string;
+  sessions: SessionSummary[];
+}
+
+export interface SessionResetEvent {
+  name: string;
+}
+
+export type HistoryRole = 'user' | 'assistant' | 'tool' | 'system';
+
+export interface HistoryToolCall {
+  id?: string;
+  name: string;
+  args?: unknown;
+}
+
+export interface HistoryMessage {
+  id: string;
+  role: HistoryRole;
+  text: string;
+  /** Epoch milliseconds, when the gateway reports one */
+  timestamp: number | null;
+  runId?: string;
+  toolCalls?: HistoryToolCall[];
+  /** Set on `tool` messages */
+  toolResult?: { toolCallId?: string; name?: string; isError: boolean };
+}
+
+/**
+ * One page of history, oldest message first
+ */
+export interface HistoryEvent {
+  messages: HistoryMessage[];
+  hasMore: boolean;
+  nextCursor: string | null;
+}
+
+export interface TokenExpiringEvent {
+  expiresAt: number;
+  expiresIn: number;
+}
+
+export type MessageDeliveryStatus = 'queued' | 'sent' | 'accepted' | 'rejected';
+
+export interface MessageStatusEvent {
+  id: string;
+  status: MessageDeliveryStatus;
+  runId?: string;
+  reason?:
+    | 'queue_full'
+    | 'expired'
+    | 'timeout'
+    | 'gateway_error'
+    | 'gateway_unavailable'
+    | 'bridge_reset';
+  error?: unknown;
+}
+
+export interface AuthenticatedEvent {
+  expiresAt: number | null;
+}
+
+export type NoticeLevel = 'info' | 'warning';
+
+/**
+ * System notice broadcast by an administrator
+ */
+export interface NoticeEvent {
+  message: string;
+  level: NoticeLevel;
+  /** Epoch milliseconds */
+  sentAt: number;
+}
+
+export type RateLimitReason =
+  | 'rate'
+  | 'message_length'
+  | 'payload_size'
+  | 'concurrent_runs';
+
+/**
+ * An event refused by a socket limit. `limit` is the bucket's refill rate
+ * (events per second), characters, bytes or runs, depending on `reason`.
+ */
+export interface RateLimitedEvent {
+  event: string;
+  reason: RateLimitReason;
+  /** Which token bucket ran dry, for `rate` */
+  scope?: 'connection' | 'subject';
+  limit: number;
+  /** Milliseconds until the event would be accepted, or null if resending it unchanged won't help */
+  retryAfter: number | null;
+}
+
+export const FILTER_RULE_TYPES = [
+  'redact',
+  'deny',
+  'max_length',
+  'prefix',
+  'sanitize',
+] as const;
+
+export type FilterRuleType = (typeof FILTER_RULE_TYPES)[number];
+
+/**
+ * A content filter rule that altered a message, and how many times
+ */
+export interface AppliedFilter {
+  rule: string;
+  type: FilterRuleType;
+  count: number;
+}
+
+/**
+ * Content altered by the token's filter policy: a chat message (by `id`)
+ * before it reached the agent, or a run's output. `seq` is that of the
+ * altered `response`, for streamed text.
+ */
+export interface FilteredEvent {
+  direction: 'inbound' | 'outbound';
+  id?: string;
+  runId?: string;
+  seq?: number;
+  rules: AppliedFilter[];
+}
+
+/**
+ * One of the subject's sockets connected to a session
+ */
+export interface PresenceDevice {
+  clientId: string;
+  /** Label from `auth.device` or the `device` query */
+  device?: string;
+  connectedAt: number;
+  typing: boolean;
+}
+
+/**
+ * Who is connected to the session, sent to its room whenever a device
+ * joins or leaves it
+ */
+export interface PresenceEvent {
+  sessionKey: string;
+  devices: PresenceDevice[];
+}
+
+/**
+ * Another device in the session started or stopped typing
+ */
+export interface UserTypingEvent {
+  clientId: string;
+  device?: string;
+  isTyping: boolean;
+}
+
+/**
+ * A chat message sent from another device in the session, after its
+ * content filters
+ */
+export interface UserMessageEvent {
+  id: string;
+  text: string;
+  /** Attachment ids */
+  attachments?: string[];
+  clientId: string;
+  device?: string;
+  sentAt: number;
+}
+
+/**
+ * An instance connected to the gateway, from the gateway's presence
+ * events; only fields fit for chat clients are kept
+ */
+export interface GatewayPresenceEntry {
+  instanceId?: string;
+  host?: string;
+  platform?: string;
+  deviceFamily?: string;
+  mode?: string;
+  lastInputSeconds?: number;
+  updatedAt?: number;
+}
+
+export interface GatewayPresenceEvent {
+  gateway: string;
+  entries: GatewayPresenceEntry[];
+}
+
+export type GatewayRequestFailure =
+  | 'gateway_error'
+  | 'timeout'
+  | 'not_connected'
+  | 'connection_lost';
+
+export interface ChatErrorEvent {
+  message: string;
+  event?: string;
+  /** Gateway method of a failed gateway request, and why it failed */
+  method?: string;
+  reason?: GatewayRequestFailure | RateLimitReason;
+  /** For refused events, as in `rate_limited` */
+  retryAfter?: number | null;
+  error?: unknown;
+  details?: string[];
+  supportedVersions?: readonly number[];
+}
+
+/**
+ * Payloads of the `message` event, relayed from the gateway
+ */
+export interface ResponseMessage {
+  type: 'response';
+  text: string;
+  delta: string;
+  content: string;
+  streaming: true;
+  runId?: string;
+  /** Per-run sequence number, for `resume` */
+  seq?: number;
+  /** Sent on resume: `text` is the whole answer so far, replace rather than append */
+  resumed?: boolean;
+  isBot: true;
+}
+
+export interface ResponseCompleteMessage {
+  type: 'response_complete';
+  runId?: string;
+  reason?: 'cancelled';
+}
+
+export interface BridgeErrorMessage {
+  type: 'error';
+  error: unknown;
+  runId?: string;
+  /** Set when the gateway connection dropped while the run was going */
+  reason?: 'connection_lost';
+}
+
+/**
+ * Agent tool calls, sent to clients that opted in to `tools`
+ */
+export interface ToolStartMessage {
+  type: 'tool_start';
+  runId?: string;
+  toolCallId?: string;
+  name: string;
+  args?: unknown;
+}
+
+export interface ToolUpdateMessage {
+  type: 'tool_update';
+  runId?: string;
+  toolCallId?: string;
+  name: string;
+  partialResult?: unknown;
+}
+
+export interface ToolResultMessage {
+  type: 'tool_result';
+  runId?: string;
+  toolCallId?: string;
+  name: string;
+  result?: unknown;
+  isError: boolean;
+}
+
+/**
+ * Agent reasoning, sent to clients that opted in to `thinking`
+ */
+export interface ThinkingMessage {
+  type: 'thinking';
+  runId?: string;
+  text: string;
+  delta: string;
+}
+
+/**
+ * Run phases and other agent streams, sent to clients that opted in to
+ * `status`
+ */
+export interface AgentStatusMessage {
+  type: 'status';
+  runId?: string;
+  stream: string;
+  phase?: string;
+  data?: unknown;
+}
+
+export interface GatewayConnectedMessage {
+  type: 'gateway_connected';
+  /** `gateway` names the gateway target the client is routed to */
+  payload: { status: 'connected'; gateway: string };
+}
+
+export interface GatewayResponseMessage {
+  type: 'res';
+  id?: string;
+  ok?: boolean;
+  payload?: unknown;
+  error?: unknown;
+}
+
+/**
+ * Raw gateway `chat` event payload, forwarded as-is
+ */
+export interface GatewayChatMessage {
+  type?: undefined;
+  runId?: string;
+  sessionKey?: string;
+  state?: string;
+  message?: unknown;
+  [field: string]: unknown;
+}
+
+export type BridgeMessage =
+  | ResponseMessage
+  | ResponseCompleteMessage
+  | BridgeErrorMessage
+  | ToolStartMessage
+  | ToolUpdateMessage
+  | ToolResultMessage
+  | ThinkingMessage
+  | AgentStatusMessage
+  | GatewayConnectedMessage
+  | GatewayResponseMessage
+  | GatewayChatMessage;
+
+export interface ServerToClientEvents {
+  connected: (event: ConnectedEvent) => void;
+  status: (event: StatusEvent) => void;
+  typing: (event: TypingEvent) => void;
+  message: (message: BridgeMessage) => void;
+  message_status: (event: MessageStatusEvent) => void;
+  streams: (event: StreamsEvent) => void;
+  voice: (event: VoiceEvent) => void;
+  transcription: (event: TranscriptionEvent) => void;
+  audio_chunk: (event: AudioChunkEvent) => void;
+  visemes: (event: VisemesEvent) => void;
+  expression: (event: ExpressionEvent) => void;
+  session: (event: SessionEvent) => void;
+  history: (event: HistoryEvent) => void;
+  sessions: (event: SessionsEvent) => void;
+  session_reset: (event: SessionResetEvent) => void;
+  token_expiring: (event: TokenExpiringEvent) => void;
+  authenticated: (event: AuthenticatedEvent) => void;
+  notice: (event: NoticeEvent) => void;
+  rate_limited: (event: RateLimitedEvent) => void;
+  filtered: (event: FilteredEvent) => void;
+  presence: (event: PresenceEvent) => void;
+  user_typing: (event: UserTypingEvent) => void;
+  user_message: (event: UserMessageEvent) => void;
+  gateway_presence: (event: GatewayPresenceEvent) => void;
+  error: (event: ChatErrorEvent) => void;
+}
@@ -0,0 +1,139 @@
+import { ConfigService } from '@nestjs/config';
+import { MetricsService } from '../metrics/metrics.service';
+import { RateLimitService } from './rate-limit.service';
+
+describe('RateLimitService', () => {
+  let metrics: MetricsService;
+  let limits: RateLimitService;
+
+  function createService(env: Record<string, unknown> = {}): RateLimitService {
+    return new RateLimitService(
+      new ConfigService({
+        WS_RATE_LIMIT_BURST: 2,
+        WS_RATE_LIMIT_PER_SECOND: 1,
+        WS_SUBJECT_RATE_LIMIT_BURST: 3,
+        WS_SUBJECT_RATE_LIMIT_PER_SECOND: 1,
+        WS_RATE_LIMIT_COSTS: 'history=2, typing=0',
+        WS_MAX_PAYLOAD_BYTES: 100,
+        WS_MAX_MESSAGE_LENGTH: 10,
+        ...env,
+      }),
+      metrics,
+    );
+  }
+
+  beforeEach(() => {
+    jest.useFakeTimers();
+    metrics = new MetricsService();
+    limits = createService();
+  });
+
+  afterEach(() => {
+    jest.useRealTimers();
+  });
+
+  describe('consume', () => {
+    it("refuses events beyond the connection's burst until it refills", () => {
+      expect(limits.consume('a', 'message', {})).toBeNull();
+      expect(limits.consume('a', 'message', {})).toBeNull();
+
+      expect(limits.consume('a', 'message', {})).toEqual({
+        event: 'message',
+        reason: 'rate',
+        scope: 'connection',
+        limit: 1,
+        retryAfter: 1000,
+      });
+      expect(limits.consume('b', 'message', {})).toBeNull();
+
+      jest.advanceTimersByTime(1000);
+      expect(limits.consume('a', 'message', {})).toBeNull();
+    });
+
+    it('charges events their configured cost', () => {
+      expect(limits.consume('a', 'history', {})).toBeNull();
+      expect(limits.consume('a', 'message', {})).toMatchObject({
+        reason: 'rate',
+      });
+
+      // Free events pass even with an empty bucket
+      expect(limits.consume('a', 'typing', {})).toBeNull();
+    });
+
+    it("shares the subject's bucket between its sockets", () => {
+      limits.register('a', 'alice');
+      limits.register('b', 'alice');
+      limits.register('c', 'bob');
+
+      limits.consume('a', 'message', {});
+      limits.consume('a', 'message', {});
+      limits.consume('b', 'message', {});
+
+      expect(limits.consume('b', 'message', {})).toMatchObject({
+        reason: 'rate',
+        scope: 'subject',
+        retryAfter: 1000,
+      });
+      expect(limits.consume('c', 'message', {})).toBeNull();
+    });
+
+    it("keeps a subject's bucket across reconnects until it refills", () => {
+      limits.register('a', 'alice');
+      ['message', 'message'].forEach((event) => limits.consume('a', event, {}));
+      limits.release('a');
+
+      limits.register('b', 'alice');
+      limits.consume('b', 'message', {});
+      expect(limits.consume('b', 'message', {})).toMatchObject({
+        scope: 'subject',
+      });
+    });
+
+    it('refuses payloads over the size cap, counting binary by length', () => {
+      expect(
+        limits.consume('a', 'audio_chunk', { audio: Buffer.alloc(80) }),
+      ).toBeNull();
+
+      expect(
+        limits.consume('a', 'audio_chunk', { audio: Buffer.alloc(100) }),
+      ).toEqual({
+        event: 'audio_chunk',
+        reason: 'payload_size',
+        limit: 100,
+        retryAfter: null,
+      });
+      expect(limits.consume('a', 'message', { text: 'x'.repeat(100) })).toEqual(
+        expect.objectContaining({ reason: 'payload_size' }),
+      );
+    });
+
+    it('counts refusals in the metrics', async () => {
+      limits.consume('a', 'message', { text: 'x'.repeat(100) });
+
+      expect(await metrics.metrics()).toContain(
+        'face_rate_limited_total{event="message",reason="payload_size"} 1',
+      );
+    });
+  });
+
+  it('refuses messages over the length cap', () => {
+    expect(limits.checkMessageLength('x'.repeat(10))).toBeNull();
+    expect(limits.checkMessageLength('x'.repeat(11))).toMatchObject({
+      event: 'message',
+      reason: 'message_length',
+      limit: 10,
+    });
+  });
+
+  it('refuses runs beyond the per-session cap, unless there is none', () => {
+    expect(limits.checkSessionRuns(1)).toBeNull();
+    expect(limits.checkSessionRuns(2)).toMatchObject({
+      reason: 'concurrent_runs',
+      limit: 2,
+      retryAfter: null,
+    });
+
+    const unlimited = createService({ MAX_RUNS_PER_SESSION: 0 });
+    expect(unlimited.checkSessionRuns(100)).toBeNull();
+  });
+});
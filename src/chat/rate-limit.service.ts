@@ -0,0 +1,220 @@
+import { Injectable } from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import { MetricsService } from '../metrics/metrics.service';
+import { RateLimitedEvent } from './protocol/chat-protocol';
+import { TokenBucket } from './token-bucket';
+
+interface ClientLimits {
+  bucket: TokenBucket;
+  subject?: string;
+}
+
+/**
+ * Limits on inbound socket events: a token bucket per connection and one
+ * per subject (shared by its sockets on this node), a payload size cap
+ * counting binary attachments such as audio at their byte length, and
+ * caps on message length and concurrent runs per session. Buckets and run
+ * counts are per node; they are not shared through the state store.
+ */
+@Injectable()
+export class RateLimitService {
+  private readonly clients = new Map<string, ClientLimits>();
+  private readonly subjects = new Map<string, TokenBucket>();
+  private readonly connectionBurst: number;
+  private readonly connectionRate: number;
+  private readonly subjectBurst: number;
+  private readonly subjectRate: number;
+  private readonly eventCosts: Map<string, number>;
+  private readonly maxPayloadBytes: number;
+  private readonly maxMessageLength: number;
+  private readonly maxRunsPerSession: number;
+
+  constructor(
+    private readonly configService: ConfigService,
+    private readonly metricsService: MetricsService,
+  ) {
+    this.connectionBurst = Number(
+      this.configService.get('WS_RATE_LIMIT_BURST', 20),
+    );
+    this.connectionRate = Number(
+      this.configService.get('WS_RATE_LIMIT_PER_SECOND', 5),
+    );
+    this.subjectBurst = Number(
+      this.configService.get('WS_SUBJECT_RATE_LIMIT_BURST', 60),
+    );
+    this.subjectRate = Number(
+      this.configService.get('WS_SUBJECT_RATE_LIMIT_PER_SECOND', 15),
+    );
+    this.eventCosts = parseEventCosts(
+      this.configService.get<string>('WS_RATE_LIMIT_COSTS', ''),
+    );
+    this.maxPayloadBytes = Number(
+      this.configService.get('WS_MAX_PAYLOAD_BYTES', 65536),
+    );
+    this.maxMessageLength = Number(
+      this.configService.get('WS_MAX_MESSAGE_LENGTH', 8000),
+    );
+    this.maxRunsPerSession = Number(
+      this.configService.get('MAX_RUNS_PER_SESSION', 2),
+    );
+  }
+
+  /**
+   * Count a client's events against its subject's bucket too
+   */
+  register(clientId: string, subject: string): void {
+    this.limitsFor(clientId).subject = subject;
+  }
+
+  release(clientId: string): void {
+    this.clients.delete(clientId);
+
+    // Subjects' buckets outlive their sockets until refilled, so
+    // reconnecting doesn't reset them
+    const active = new Set(
+      [...this.clients.values()].map((limits) => limits.subject),
+    );
+    this.subjects.forEach((bucket, subject) => {
+      if (!active.has(subject) && bucket.isFull) this.subjects.delete(subject);
+    });
+  }
+
+  /**
+   * Charge an inbound event to the client's buckets, returning why it is
+   * refused, or null to let it through
+   */
+  consume(
+    clientId: string,
+    event: string,
+    data: unknown,
+  ): RateLimitedEvent | null {
+    const bytes = payloadBytes(data);
+    if (bytes > this.maxPayloadBytes) {
+      return this.refuse({
+        event,
+        reason: 'payload_size',
+        limit: this.maxPayloadBytes,
+        retryAfter: null,
+      });
+    }
+
+    const cost = this.eventCosts.get(event) ?? 1;
+    if (cost === 0) return null;
+
+    const limits = this.limitsFor(clientId);
+    const connectionWait = limits.bucket.take(cost);
+    if (connectionWait > 0) {
+      return this.refuse({
+        event,
+        reason: 'rate',
+        scope: 'connection',
+        limit: this.connectionRate,
+        retryAfter: Number.isFinite(connectionWait) ? connectionWait : null,
+      });
+    }
+
+    if (!limits.subject) return null;
+
+    let subjectBucket = this.subjects.get(limits.subject);
+    if (!subjectBucket) {
+      subjectBucket = new TokenBucket(this.subjectBurst, this.subjectRate);
+      this.subjects.set(limits.subject, subjectBucket);
+    }
+    const subjectWait = subjectBucket.take(cost);
+    if (subjectWait > 0) {
+      return this.refuse({
+        event,
+        reason: 'rate',
+        scope: 'subject',
+        limit: this.subjectRate,
+        retryAfter: Number.isFinite(subjectWait) ? subjectWait : null,
+      });
+    }
+
+    return null;
+  }
+
+  /**
+   * Check a chat message's length against the cap
+   */
+  checkMessageLength(text: string): RateLimitedEvent | null {
+    if (text.length <= this.maxMessageLength) return null;
+
+    return this.refuse({
+      event: 'message',
+      reason: 'message_length',
+      limit: this.maxMessageLength,
+      retryAfter: null,
+    });
+  }
+
+  /**
+   * Check the runs a session still has in flight before starting another
+   */
+  checkSessionRuns(activeRuns: number): RateLimitedEvent | null {
+    if (this.maxRunsPerSession <= 0 || activeRuns < this.maxRunsPerSession) {
+      return null;
+    }
+
+    // Unknown until a run finishes; the client should wait for one
+    return this.refuse({
+      event: 'message',
+      reason: 'concurrent_runs',
+      limit: this.maxRunsPerSession,
+      retryAfter: null,
+    });
+  }
+
+  private limitsFor(clientId: string): ClientLimits {
+    let limits = this.clients.get(clientId);
+    if (!limits) {
+      limits = {
+        bucket: new TokenBucket(this.connectionBurst, this.connectionRate),
+      };
+      this.clients.set(clientId, limits);
+    }
+    return limits;
+  }
+
+  private refuse(limited: RateLimitedEvent): RateLimitedEvent {
+    this.metricsService.rateLimited.inc({
+      event: limited.event,
+      reason: limited.reason,
+    });
+    return limited;
+  }
+}
+
+/**
+ * Parse "event=cost,..." token costs (events not listed cost 1)
+ */
+function parseEventCosts(value: string): Map<string, number> {
+  const costs = new Map<string, number>();
+  value.split(',').forEach((entry) => {
+    const [event, cost] = entry.split('=').map((part) => part.trim());
+    if (event && cost && !Number.isNaN(Number(cost))) {
+      costs.set(event, Number(cost));
+    }
+  });
+  return costs;
+}
+
+/**
+ * Size of an event payload: its JSON, with binary values counted at
+ * their byte length rather than as serialized arrays
+ */
+function payloadBytes(data: unknown): number {
+  let binary = 0;
+  const json = JSON.stringify(
+    data ?? null,
+    function (this: Record<string, unknown>, key: string, value: unknown) {
+      const raw = this[key];
+      if (raw instanceof ArrayBuffer || ArrayBuffer.isView(raw)) {
+        binary += raw.byteLength;
+        return null;
+      }
+      return value;
+    },
+  );
+  return Buffer.byteLength(json) + binary;
+}
@@ -0,0 +1,16 @@
+import { WsException } from '@nestjs/websockets';
+import { RateLimitedEvent } from './protocol/chat-protocol';
+
+/**
+ * An event refused by a socket limit, reported on `rate_limited` rather
+ * than `error`
+ */
+export class RateLimitedException extends WsException {
+  constructor(readonly limited: RateLimitedEvent) {
+    super({
+      message: 'Rate limited',
+      reason: limited.reason,
+      retryAfter: limited.retryAfter,
+    });
+  }
+}
@@ -0,0 +1,172 @@
+import { ConfigService } from '@nestjs/config';
+import { MemoryStateStore } from '../state/memory-state-store';
+import { AgentEventPayload } from './agent-event';
+import { ResponseBufferService } from './response-buffer.service';
+
+function assistant(
+  runId: string,
+  data: { delta?: string; text?: string },
+): AgentEventPayload {
+  return { runId, stream: 'assistant', data };
+}
+
+function lifecycle(
+  runId: string,
+  phase: string,
+  error?: unknown,
+): AgentEventPayload {
+  return { runId, stream: 'lifecycle', data: { phase, error } };
+}
+
+/**
+ * Let the run locations reach the store
+ */
+async function settle(): Promise<void> {
+  for (let i = 0; i < 3; i++) {
+    await Promise.resolve();
+  }
+}
+
+describe('ResponseBufferService', () => {
+  let store: MemoryStateStore;
+  let buffer: ResponseBufferService;
+
+  beforeEach(() => {
+    jest.useFakeTimers();
+    store = new MemoryStateStore('node-1');
+    buffer = new ResponseBufferService(
+      new ConfigService({
+        RESPONSE_BUFFER_TTL: 1000,
+        RESPONSE_BUFFER_MAX_DELTAS: 3,
+        RESPONSE_BUFFER_MAX_RUNS: 2,
+      }),
+      store,
+    );
+  });
+
+  afterEach(async () => {
+    await store.close();
+    jest.useRealTimers();
+  });
+
+  it('assembles deltas into the run text, numbering each', () => {
+    buffer.start('run-1', 'main');
+
+    expect(buffer.record(assistant('run-1', { delta: 'Hel' }))).toBe(1);
+    expect(buffer.record(assistant('run-1', { delta: 'lo' }))).toBe(2);
+    expect(buffer.get('run-1')).toMatchObject({
+      text: 'Hello',
+      seq: 2,
+      state: 'streaming',
+      deltas: [
+        { seq: 1, delta: 'Hel', length: 3 },
+        { seq: 2, delta: 'lo', length: 5 },
+      ],
+    });
+  });
+
+  it('derives the delta from the full text when none is given', () => {
+    buffer.start('run-1', 'main');
+    buffer.record(assistant('run-1', { text: 'Hel' }));
+    buffer.record(assistant('run-1', { text: 'Hello' }));
+
+    expect(buffer.get('run-1')?.deltas.map(({ delta }) => delta)).toEqual([
+      'Hel',
+      'lo',
+    ]);
+  });
+
+  it('keeps only the latest deltas, but the whole text', () => {
+    buffer.start('run-1', 'main');
+    ['a', 'b', 'c', 'd'].forEach((delta) =>
+      buffer.record(assistant('run-1', { delta })),
+    );
+
+    const run = buffer.get('run-1');
+    expect(run?.text).toBe('abcd');
+    expect(run?.deltas.map(({ seq }) => seq)).toEqual([2, 3, 4]);
+  });
+
+  it('ignores events of runs it does not buffer', () => {
+    expect(buffer.record(assistant('unknown', { delta: 'x' }))).toBeUndefined();
+    expect(buffer.get('unknown')).toBeUndefined();
+  });
+
+  it('ends runs on their lifecycle events', () => {
+    buffer.start('run-1', 'main');
+    buffer.start('run-2', 'main');
+
+    buffer.record(lifecycle('run-1', 'end'));
+    buffer.record(lifecycle('run-2', 'error', { message: 'boom' }));
+
+    expect(buffer.get('run-1')?.state).toBe('complete');
+    expect(buffer.get('run-2')).toMatchObject({
+      state: 'error',
+      error: { message: 'boom' },
+    });
+  });
+
+  it('ignores output after a run has finished', () => {
+    buffer.start('run-1', 'main');
+    buffer.finish('run-1', 'cancelled');
+
+    buffer.record(assistant('run-1', { delta: 'late' }));
+    buffer.finish('run-1', 'complete');
+
+    expect(buffer.get('run-1')).toMatchObject({ text: '', state: 'cancelled' });
+  });
+
+  it("finds a session's latest run", () => {
+    buffer.start('run-1', 'main');
+    buffer.start('run-2', 'other');
+
+    expect(buffer.latest('main')?.runId).toBe('run-1');
+    expect(buffer.latest('unknown')).toBeUndefined();
+  });
+
+  it('forgets runs once their ttl has passed since the last update', () => {
+    buffer.start('run-1', 'main');
+    jest.advanceTimersByTime(600);
+    buffer.record(assistant('run-1', { delta: 'x' }));
+
+    jest.advanceTimersByTime(600);
+    expect(buffer.get('run-1')).toBeDefined();
+
+    jest.advanceTimersByTime(600);
+    expect(buffer.get('run-1')).toBeUndefined();
+  });
+
+  it('evicts the oldest runs beyond the cap', () => {
+    ['run-1', 'run-2', 'run-3'].forEach((runId) => buffer.start(runId, 'main'));
+
+    expect(buffer.get('run-1')).toBeUndefined();
+    expect(buffer.get('run-3')).toBeDefined();
+  });
+
+  it('moves a run to the runId the gateway gave it', async () => {
+    buffer.start('ours', 'main');
+    buffer.record(assistant('ours', { delta: 'Hi' }));
+
+    buffer.rename('ours', 'theirs');
+    await settle();
+
+    expect(buffer.get('ours')).toBeUndefined();
+    expect(buffer.get('theirs')).toMatchObject({ runId: 'theirs', text: 'Hi' });
+    await expect(buffer.locate('ours', undefined)).resolves.toBeUndefined();
+    await expect(buffer.locate('theirs', undefined)).resolves.toEqual({
+      runId: 'theirs',
+      sessionKey: 'main',
+      node: 'node-1',
+    });
+  });
+
+  it('shares where runs and the latest run of a session are buffered', async () => {
+    buffer.start('run-1', 'main');
+    await settle();
+
+    const location = { runId: 'run-1', sessionKey: 'main', node: 'node-1' };
+    await expect(buffer.locate('run-1', undefined)).resolves.toEqual(location);
+    await expect(buffer.locate(undefined, 'main')).resolves.toEqual(location);
+    await expect(buffer.locate(undefined, undefined)).resolves.toBeUndefined();
+  });
+});
@@ -0,0 +1,211 @@
+import { Injectable, Logger } from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import { StateStore } from '../state/state-store';
+import { AgentEventPayload } from './agent-event';
+
+export type BufferedRunState = 'streaming' | 'complete' | 'cancelled' | 'error';
+
+export interface BufferedDelta {
+  seq: number;
+  delta: string;
+  /** Length of the assembled text once this delta is applied */
+  length: number;
+}
+
+export interface BufferedRun {
+  runId: string;
+  sessionKey: string;
+  text: string;
+  seq: number;
+  deltas: BufferedDelta[];
+  state: BufferedRunState;
+  error?: unknown;
+  updatedAt: number;
+}
+
+/**
+ * Node buffering a run, as recorded in the state store
+ */
+export interface RunLocation {
+  runId: string;
+  sessionKey: string;
+  node: string;
+}
+
+/**
+ * Assembles the assistant text of runs started through the bridge, keyed
+ * by runId and session, so clients that reconnect mid-run can resume.
+ * Runs are forgotten RESPONSE_BUFFER_TTL ms after their last update.
+ * Which node buffers each run (and the latest run per session) is shared
+ * through the state store, so a client reconnecting elsewhere can find it.
+ */
+@Injectable()
+export class ResponseBufferService {
+  private readonly logger = new Logger(ResponseBufferService.name);
+  private readonly runs = new Map<string, BufferedRun>();
+  private readonly ttl: number;
+  private readonly maxDeltas: number;
+  private readonly maxRuns: number;
+
+  constructor(
+    private readonly configService: ConfigService,
+    private readonly store: StateStore,
+  ) {
+    this.ttl = Number(this.configService.get('RESPONSE_BUFFER_TTL', 300000));
+    this.maxDeltas = Number(
+      this.configService.get('RESPONSE_BUFFER_MAX_DELTAS', 1000),
+    );
+    this.maxRuns = Number(
+      this.configService.get('RESPONSE_BUFFER_MAX_RUNS', 1000),
+    );
+  }
+
+  /**
+   * Start buffering a run (a no-op if it is already buffered)
+   */
+  start(runId: string, sessionKey: string): void {
+    this.prune();
+    if (this.runs.has(runId)) return;
+
+    this.runs.set(runId, {
+      runId,
+      sessionKey,
+      text: '',
+      seq: 0,
+      deltas: [],
+      state: 'streaming',
+      updatedAt: Date.now(),
+    });
+
+    // Evict the oldest runs beyond the cap
+    for (const oldest of this.runs.keys()) {
+      if (this.runs.size <= this.maxRuns) break;
+      this.runs.delete(oldest);
+    }
+
+    this.share(runId, sessionKey, true);
+  }
+
+  /**
+   * Apply an agent event to its run, returning the sequence number of an
+   * assistant delta
+   */
+  record(payload: AgentEventPayload): number | undefined {
+    const run = payload.runId ? this.runs.get(payload.runId) : undefined;
+    if (!run || run.state !== 'streaming') return undefined;
+
+    if (payload.stream === 'assistant' && payload.data) {
+      const fullText = payload.data.text || '';
+      const delta = payload.data.delta || fullText.slice(run.text.length) || '';
+      if (!delta && !fullText) return undefined;
+
+      run.text = fullText || run.text + delta;
+      run.seq++;
+      run.deltas.push({ seq: run.seq, delta, length: run.text.length });
+      if (run.deltas.length > this.maxDeltas) {
+        run.deltas.shift();
+      }
+      run.updatedAt = Date.now();
+      return run.seq;
+    }
+
+    const phase = payload.data?.phase;
+    if (payload.stream === 'lifecycle' && phase === 'end') {
+      this.finish(run.runId, 'complete');
+    } else if (payload.stream === 'lifecycle' && phase === 'error') {
+      this.finish(run.runId, 'error', payload.data?.error);
+    }
+    return undefined;
+  }
+
+  /**
+   * Mark a streaming run as finished
+   */
+  finish(runId: string, state: BufferedRunState, error?: unknown): void {
+    const run = this.runs.get(runId);
+    if (!run || run.state !== 'streaming') return;
+
+    run.state = state;
+    run.error = error;
+    run.updatedAt = Date.now();
+
+    // Keep the location for as long as the run stays buffered
+    this.share(runId, run.sessionKey, false);
+  }
+
+  /**
+   * Move a run buffered under our runId to the one the gateway gave it
+   */
+  rename(runId: string, gatewayRunId: string): void {
+    const run = this.runs.get(runId);
+    if (!run || this.runs.has(gatewayRunId)) return;
+
+    this.runs.delete(runId);
+    run.runId = gatewayRunId;
+    this.runs.set(gatewayRunId, run);
+
+    this.store
+      .delete(`run:${runId}`)
+      .catch((error) =>
+        this.logger.warn(
+          `Failed to forget run ${runId}: ${(error as Error).message}`,
+        ),
+      );
+    this.share(gatewayRunId, run.sessionKey, run.state === 'streaming');
+  }
+
+  get(runId: string): BufferedRun | undefined {
+    this.prune();
+    return this.runs.get(runId);
+  }
+
+  /**
+   * Most recently started run in a session
+   */
+  latest(sessionKey: string): BufferedRun | undefined {
+    this.prune();
+    let latest: BufferedRun | undefined;
+    this.runs.forEach((run) => {
+      if (run.sessionKey === sessionKey) latest = run;
+    });
+    return latest;
+  }
+
+  /**
+   * Where a run (or a session's latest run) is buffered, on any node
+   */
+  async locate(
+    runId: string | undefined,
+    sessionKey: string | undefined,
+  ): Promise<RunLocation | undefined> {
+    if (runId) {
+      return this.store.get<RunLocation>(`run:${runId}`);
+    }
+    return sessionKey
+      ? this.store.get<RunLocation>(`session-run:${sessionKey}`)
+      : undefined;
+  }
+
+  private share(runId: string, sessionKey: string, latest: boolean): void {
+    const location: RunLocation = {
+      runId,
+      sessionKey,
+      node: this.store.nodeId,
+    };
+    Promise.all([
+      this.store.set(`run:${runId}`, location, this.ttl),
+      latest && this.store.set(`session-run:${sessionKey}`, location, this.ttl),
+    ]).catch((error) =>
+      this.logger.warn(
+        `Failed to share run ${runId}: ${(error as Error).message}`,
+      ),
+    );
+  }
+
+  private prune(): void {
+    const cutoff = Date.now() - this.ttl;
+    this.runs.forEach((run, runId) => {
+      if (run.updatedAt < cutoff) this.runs.delete(runId);
+    });
+  }
+}
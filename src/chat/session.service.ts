@@ -0,0 +1,71 @@
+import { Injectable } from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import { TokenPayload } from '../auth/interfaces/token-payload.interface';
+import { StateStore } from '../state/state-store';
+
+export const SESSION_NAME_PATTERN = /^[A-Za-z0-9_-]{1,64}$/;
+
+/**
+ * Maps per-subject session names onto gateway session keys
+ * ("<prefix>:<subject>:<name>", or "<sessionPrefix>:<name>" when the
+ * API key pins one) and remembers each subject's current session in the
+ * state store so users reconnecting to any node land back in it
+ */
+@Injectable()
+export class SessionService {
+  private readonly prefix: string;
+
+  constructor(
+    private readonly configService: ConfigService,
+    private readonly store: StateStore,
+  ) {
+    this.prefix = this.configService.get<string>('SESSION_KEY_PREFIX', 'face');
+  }
+
+  /**
+   * Whether a client-supplied session name is acceptable
+   */
+  isValidName(name: unknown): name is string {
+    return typeof name === 'string' && SESSION_NAME_PATTERN.test(name);
+  }
+
+  /**
+   * Gateway session key for a named session in the token's namespace
+   */
+  keyFor(claims: TokenPayload, name: string): string {
+    return `${this.namespace(claims)}${name}`;
+  }
+
+  /**
+   * Session name for a gateway key, or null if the key is outside the
+   * token's namespace (keys may come back as "agent:<id>:<key>")
+   */
+  nameFor(claims: TokenPayload, sessionKey: string): string | null {
+    const prefix = this.namespace(claims);
+    const index = sessionKey.indexOf(prefix);
+    if (index === -1 || (index > 0 && sessionKey[index - 1] !== ':')) {
+      return null;
+    }
+    return sessionKey.slice(index + prefix.length);
+  }
+
+  /**
+   * Name of the subject's current session
+   */
+  async current(subject: string): Promise<string> {
+    return (
+      (await this.store.get<string>(`current-session:${subject}`)) ?? 'main'
+    );
+  }
+
+  /**
+   * Make a session the subject's current one
+   */
+  async select(subject: string, name: string): Promise<void> {
+    await this.store.set(`current-session:${subject}`, name);
+  }
+
+  private namespace(claims: TokenPayload): string {
+    return `${claims.sessionPrefix ?? `${this.prefix}:${claims.sub}`}:`;
+  }
+}
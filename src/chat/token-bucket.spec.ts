@@ -0,0 +1,55 @@
+import { TokenBucket } from './token-bucket';
+
+describe('TokenBucket', () => {
+  beforeEach(() => {
+    jest.useFakeTimers();
+  });
+
+  afterEach(() => {
+    jest.useRealTimers();
+  });
+
+  it('takes tokens up to its capacity', () => {
+    const bucket = new TokenBucket(3, 1);
+
+    expect(bucket.take()).toBe(0);
+    expect(bucket.take(2)).toBe(0);
+    expect(bucket.take()).toBe(1000);
+  });
+
+  it('refills continuously at its rate', () => {
+    const bucket = new TokenBucket(2, 4);
+    bucket.take(2);
+
+    expect(bucket.take()).toBe(250);
+    jest.advanceTimersByTime(250);
+    expect(bucket.take()).toBe(0);
+    expect(bucket.take(0.5)).toBe(125);
+  });
+
+  it('never holds more than its capacity', () => {
+    const bucket = new TokenBucket(2, 10);
+    jest.advanceTimersByTime(10000);
+
+    expect(bucket.take(2)).toBe(0);
+    expect(bucket.take()).toBe(100);
+  });
+
+  it('never grants costs beyond its capacity or without a refill', () => {
+    expect(new TokenBucket(2, 1).take(3)).toBe(Infinity);
+
+    const stalled = new TokenBucket(1, 0);
+    stalled.take();
+    expect(stalled.take()).toBe(Infinity);
+  });
+
+  it('reports when it has refilled completely', () => {
+    const bucket = new TokenBucket(2, 1);
+    expect(bucket.isFull).toBe(true);
+
+    bucket.take();
+    expect(bucket.isFull).toBe(false);
+    jest.advanceTimersByTime(1000);
+    expect(bucket.isFull).toBe(true);
+  });
+});
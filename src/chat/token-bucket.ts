@@ -0,0 +1,47 @@
+/**
+ * Token bucket holding up to `capacity` tokens, refilled continuously at
+ * `ratePerSecond`
+ */
+export class TokenBucket {
+  private tokens: number;
+  private refilledAt = Date.now();
+
+  constructor(
+    readonly capacity: number,
+    readonly ratePerSecond: number,
+  ) {
+    this.tokens = capacity;
+  }
+
+  /**
+   * Take `cost` tokens; returns how many ms until they would be available
+   * instead (0 means taken)
+   */
+  take(cost = 1): number {
+    this.refill();
+    if (this.tokens >= cost) {
+      this.tokens -= cost;
+      return 0;
+    }
+
+    if (cost > this.capacity || this.ratePerSecond <= 0) return Infinity;
+    return Math.ceil(((cost - this.tokens) / this.ratePerSecond) * 1000);
+  }
+
+  /**
+   * Whether the bucket has refilled completely, so it can be forgotten
+   */
+  get isFull(): boolean {
+    this.refill();
+    return this.tokens >= this.capacity;
+  }
+
+  private refill(): void {
+    const now = Date.now();
+    this.tokens = Math.min(
+      this.capacity,
+      this.tokens + ((now - this.refilledAt) / 1000) * this.ratePerSecond,
+    );
+    this.refilledAt = now;
+  }
+}
@@ -0,0 +1,37 @@
+import { ArgumentsHost, Catch } from '@nestjs/common';
+import { BaseWsExceptionFilter, WsException } from '@nestjs/websockets';
+import { Socket } from 'socket.io';
+import { AckCallback, ChatErrorEvent } from './protocol/chat-protocol';
+import { RateLimitedException } from './rate-limited.exception';
+
+/**
+ * Report WsExceptions on the protocol's `error` event (or `rate_limited`
+ * for refused events), tagged with the event that caused them, and on the
+ * event's ack callback if it has one
+ */
+@Catch(WsException)
+export class WsExceptionFilter extends BaseWsExceptionFilter {
+  catch(exception: WsException, host: ArgumentsHost) {
+    const ws = host.switchToWs();
+    const client = ws.getClient<Socket>();
+    const error = exception.getError();
+
+    const event: ChatErrorEvent = {
+      ...(typeof error === 'string'
+        ? { message: error }
+        : { message: 'Request failed', ...error }),
+      event: ws.getPattern(),
+    };
+
+    if (exception instanceof RateLimitedException) {
+      client.emit('rate_limited', exception.limited);
+    } else {
+      client.emit('error', event);
+    }
+
+    const ack: unknown = host.getArgByIndex(2);
+    if (typeof ack === 'function') {
+      (ack as AckCallback)({ ok: false, error: event });
+    }
+  }
+}
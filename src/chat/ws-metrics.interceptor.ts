@@ -0,0 +1,23 @@
+import {
+  CallHandler,
+  ExecutionContext,
+  Injectable,
+  NestInterceptor,
+} from '@nestjs/common';
+import { Observable } from 'rxjs';
+import { MetricsService } from '../metrics/metrics.service';
+
+/**
+ * Counts inbound chat events by name before they reach their handler
+ */
+@Injectable()
+export class WsMetricsInterceptor implements NestInterceptor {
+  constructor(private readonly metricsService: MetricsService) {}
+
+  intercept(context: ExecutionContext, next: CallHandler): Observable<any> {
+    this.metricsService.messagesIn.inc({
+      event: context.switchToWs().getPattern(),
+    });
+    return next.handle();
+  }
+}
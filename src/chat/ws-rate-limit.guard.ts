@@ -0,0 +1,26 @@
+import { CanActivate, ExecutionContext, Injectable } from '@nestjs/common';
+import { Socket } from 'socket.io';
+import { RateLimitService } from './rate-limit.service';
+import { RateLimitedException } from './rate-limited.exception';
+
+/**
+ * Refuses chat events over the client's rate or payload limits before
+ * they reach their handler
+ */
+@Injectable()
+export class WsRateLimitGuard implements CanActivate {
+  constructor(private readonly rateLimits: RateLimitService) {}
+
+  canActivate(context: ExecutionContext): boolean {
+    const ws = context.switchToWs();
+    const limited = this.rateLimits.consume(
+      ws.getClient<Socket>().id,
+      ws.getPattern(),
+      ws.getData(),
+    );
+    if (limited) {
+      throw new RateLimitedException(limited);
+    }
+    return true;
+  }
+}
@@ -0,0 +1,137 @@
+import { WsException } from '@nestjs/websockets';
+import { AudioChunkDto } from './dto/audio-chunk.dto';
+import { CancelDto } from './dto/cancel.dto';
+import { HistoryRequestDto } from './dto/history-request.dto';
+import { ResumeDto } from './dto/resume.dto';
+import { SendMessageDto } from './dto/send-message.dto';
+import { SessionNameDto } from './dto/session-name.dto';
+import { VoiceDto } from './dto/voice.dto';
+import { WsValidationPipe } from './ws-validation.pipe';
+
+describe('WsValidationPipe', () => {
+  const pipe = new WsValidationPipe();
+
+  const validate = (metatype: new () => object, value: unknown) =>
+    pipe.transform(value, { type: 'body', metatype });
+
+  /**
+   * The details of the WsException a payload is refused with
+   */
+  async function refusal(
+    metatype: new () => object,
+    value: unknown,
+  ): Promise<unknown> {
+    try {
+      await validate(metatype, value);
+    } catch (error) {
+      expect(error).toBeInstanceOf(WsException);
+      return (error as WsException).getError();
+    }
+    throw new Error('Payload was accepted');
+  }
+
+  describe('v1 payloads', () => {
+    it('accepts a message with only text', async () => {
+      const message: unknown = await validate(SendMessageDto, {
+        text: 'Hello',
+      });
+
+      expect(message).toBeInstanceOf(SendMessageDto);
+      expect(message).toEqual({ text: 'Hello' });
+    });
+
+    it('accepts a history request with only a limit', async () => {
+      await expect(validate(HistoryRequestDto, { limit: 20 })).resolves.toEqual(
+        { limit: 20 },
+      );
+    });
+  });
+
+  it.each([
+    {
+      dto: SendMessageDto,
+      payload: {
+        text: 'Look',
+        attachments: ['9b2f8c1e-4d3a-4b5c-8e6f-7a8b9c0d1e2f'],
+        id: 'msg-1',
+        interrupt: true,
+      },
+    },
+    { dto: HistoryRequestDto, payload: { limit: 500, before: 'cursor' } },
+    { dto: ResumeDto, payload: { runId: 'run-1', seq: 0 } },
+    { dto: CancelDto, payload: {} },
+    {
+      dto: AudioChunkDto,
+      payload: { audio: Buffer.from([1, 2]), mimeType: 'audio/webm' },
+    },
+    {
+      dto: VoiceDto,
+      payload: { output: true, voice: 'en-US.female', visemes: false },
+    },
+    { dto: SessionNameDto, payload: { name: 'work-2' } },
+  ])('accepts valid $dto.name payloads', async ({ dto, payload }) => {
+    await expect(validate(dto, payload)).resolves.toEqual(payload);
+  });
+
+  it('refuses properties the payload does not declare', async () => {
+    await expect(
+      refusal(SendMessageDto, { text: 'Hello', sessionKey: 'other' }),
+    ).resolves.toEqual({
+      message: 'Invalid payload',
+      details: ['property sessionKey should not exist'],
+    });
+  });
+
+  it.each([
+    { dto: SendMessageDto, payload: {}, detail: 'text must be a string' },
+    {
+      dto: SendMessageDto,
+      payload: { text: 'x', attachments: ['a'] },
+      detail: 'must be a UUID',
+    },
+    {
+      dto: SendMessageDto,
+      payload: { text: 'x', id: 'a b' },
+      detail: 'id must be 1-128 letters',
+    },
+    {
+      dto: HistoryRequestDto,
+      payload: { limit: 501 },
+      detail: 'limit must not be greater than 500',
+    },
+    {
+      dto: HistoryRequestDto,
+      payload: { limit: '20' },
+      detail: 'limit must be an integer number',
+    },
+    {
+      dto: ResumeDto,
+      payload: { seq: -1 },
+      detail: 'seq must not be less than 0',
+    },
+    {
+      dto: AudioChunkDto,
+      payload: { audio: 'AAAA' },
+      detail: 'audio must be binary',
+    },
+    {
+      dto: AudioChunkDto,
+      payload: { mimeType: 'webm' },
+      detail: 'mimeType must be a MIME type',
+    },
+    {
+      dto: SessionNameDto,
+      payload: { name: '../main' },
+      detail: 'name must be 1-64 letters',
+    },
+  ])(
+    'refuses $dto.name payloads: $detail',
+    async ({ dto, payload, detail }) => {
+      const error = (await refusal(dto, payload)) as { details: string[] };
+
+      expect(error.details).toEqual(
+        expect.arrayContaining([expect.stringContaining(detail)]),
+      );
+    },
+  );
+});
@@ -0,0 +1,23 @@
+import { ValidationError, ValidationPipe } from '@nestjs/common';
+import { WsException } from '@nestjs/websockets';
+
+/**
+ * The HTTP ValidationPipe settings from main.ts, raising WsException so
+ * socket clients get an `error` event instead of a generic failure
+ */
+export class WsValidationPipe extends ValidationPipe {
+  constructor() {
+    super({
+      whitelist: true,
+      forbidNonWhitelisted: true,
+      transform: true,
+      exceptionFactory: (errors: ValidationError[]) =>
+        new WsException({
+          message: 'Invalid payload',
+          details: errors.flatMap((error) =>
+            Object.values(error.constraints ?? {}),
+          ),
+        }),
+    });
+  }
+}
@@ -0,0 +1,222 @@
+import { Injectable, Logger, OnModuleInit } from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import {
+  JsonWebKey,
+  KeyObject,
+  createHash,
+  createPrivateKey,
+  createPublicKey,
+  generateKeyPairSync,
+  sign,
+  verify,
+} from 'crypto';
+import {
+  existsSync,
+  mkdirSync,
+  readFileSync,
+  renameSync,
+  statSync,
+  writeFileSync,
+} from 'fs';
+import { dirname, extname, resolve } from 'path';
+
+export interface DeviceIdentity {
+  deviceId: string;
+  publicKey: string;
+  privateKey: KeyObject;
+}
+
+export interface DeviceKeyRotation {
+  previousDeviceId: string;
+  deviceId: string;
+  keyFile: string;
+}
+
+type KeyFileFormat = 'pem' | 'jwk';
+
+@Injectable()
+export class DeviceIdentityService implements OnModuleInit {
+  private readonly logger = new Logger(DeviceIdentityService.name);
+  private readonly keyFile: string;
+  private identity: DeviceIdentity | null = null;
+  /** Modification time of the key file the identity was loaded from */
+  private keyFileMtime?: number;
+
+  constructor(private readonly configService: ConfigService) {
+    this.keyFile = resolve(
+      this.configService.get<string>(
+        'DEVICE_KEY_FILE',
+        './data/device-key.pem',
+      ),
+    );
+  }
+
+  onModuleInit() {
+    this.identity = this.loadOrCreate();
+    this.keyFileMtime = statSync(this.keyFile).mtimeMs;
+    this.logger.log(`Device identity initialized: ${this.identity.deviceId}`);
+  }
+
+  /**
+   * Current device identity, reloaded if the key file has changed since
+   * (as when `npm run device:rotate` replaces it)
+   */
+  getIdentity(): DeviceIdentity {
+    if (!this.identity) {
+      throw new Error('Device identity not initialized');
+    }
+    this.reloadIfChanged();
+    return this.identity;
+  }
+
+  /**
+   * Sign a message with the device private key (base64url signature), or
+   * with that of an identity already fetched, so a key file replaced in
+   * between can't split the device ID and the signature
+   */
+  sign(message: string, identity = this.getIdentity()): string {
+    const { privateKey } = identity;
+    const signature = sign(null, Buffer.from(message, 'utf-8'), privateKey);
+    return toBase64Url(signature);
+  }
+
+  /**
+   * Verify a base64url signature against the device public key
+   */
+  verify(message: string, signature: string): boolean {
+    const { privateKey } = this.getIdentity();
+    return verify(
+      null,
+      Buffer.from(message, 'utf-8'),
+      createPublicKey(privateKey),
+      Buffer.from(signature, 'base64url'),
+    );
+  }
+
+  /**
+   * Replace the persisted keypair with a freshly generated one
+   */
+  rotate(): DeviceKeyRotation {
+    const { deviceId: previousDeviceId } = this.getIdentity();
+
+    const privateKey = generateKeyPairSync('ed25519').privateKey;
+    this.writeKeyFile(privateKey);
+    this.identity = toIdentity(privateKey);
+    this.keyFileMtime = statSync(this.keyFile).mtimeMs;
+
+    this.logger.log(
+      `Device key rotated: ${previousDeviceId} -> ${this.identity.deviceId}`,
+    );
+
+    return {
+      previousDeviceId,
+      deviceId: this.identity.deviceId,
+      keyFile: this.keyFile,
+    };
+  }
+
+  /**
+   * Swap in the key file's keypair if the file was replaced, keeping the
+   * current one when it can't be read
+   */
+  private reloadIfChanged(): void {
+    try {
+      const mtime = statSync(this.keyFile).mtimeMs;
+      if (mtime === this.keyFileMtime) return;
+
+      const identity = this.readKeyFile();
+      this.keyFileMtime = mtime;
+      if (!identity || identity.deviceId === this.identity?.deviceId) return;
+
+      this.logger.log(
+        `Device key changed on disk: ${this.identity?.deviceId} -> ${identity.deviceId}`,
+      );
+      this.identity = identity;
+    } catch (error) {
+      this.logger.warn(
+        `Failed to reload device key from ${this.keyFile}: ${(error as Error).message}`,
+      );
+    }
+  }
+
+  /**
+   * Load the keypair from the key file, generating it on first run
+   */
+  private loadOrCreate(): DeviceIdentity {
+    const existing = this.readKeyFile();
+    if (existing) {
+      this.logger.log(`Loaded device key from ${this.keyFile}`);
+      return existing;
+    }
+
+    const privateKey = generateKeyPairSync('ed25519').privateKey;
+    this.writeKeyFile(privateKey);
+    this.logger.log(`Generated new device key at ${this.keyFile}`);
+    return toIdentity(privateKey);
+  }
+
+  private readKeyFile(): DeviceIdentity | null {
+    if (!existsSync(this.keyFile)) {
+      return null;
+    }
+
+    const contents = readFileSync(this.keyFile, 'utf-8');
+    const privateKey =
+      this.format() === 'jwk'
+        ? createPrivateKey({
+            key: JSON.parse(contents) as JsonWebKey,
+            format: 'jwk',
+          })
+        : createPrivateKey({ key: contents, format: 'pem' });
+
+    if (privateKey.asymmetricKeyType !== 'ed25519') {
+      throw new Error(
+        `Device key at ${this.keyFile} is ${privateKey.asymmetricKeyType}, expected ed25519`,
+      );
+    }
+
+    return toIdentity(privateKey);
+  }
+
+  /**
+   * Write the private key atomically, readable by the owner only
+   */
+  private writeKeyFile(privateKey: KeyObject): void {
+    const contents =
+      this.format() === 'jwk'
+        ? JSON.stringify(privateKey.export({ format: 'jwk' }), null, 2) + '\n'
+        : (privateKey.export({ format: 'pem', type: 'pkcs8' }) as string);
+
+    mkdirSync(dirname(this.keyFile), { recursive: true, mode: 0o700 });
+
+    const tmpFile = `${this.keyFile}.${process.pid}.tmp`;
+    writeFileSync(tmpFile, contents, { mode: 0o600 });
+    renameSync(tmpFile, this.keyFile);
+  }
+
+  private format(): KeyFileFormat {
+    const ext = extname(this.keyFile).toLowerCase();
+    return ext === '.jwk' || ext === '.json' ? 'jwk' : 'pem';
+  }
+}
+
+function toIdentity(privateKey: KeyObject): DeviceIdentity {
+  // JWK "x" is the raw 32-byte public key, already base64url encoded
+  const jwk = createPublicKey(privateKey).export({ format: 'jwk' });
+  const publicKey = jwk.x as string;
+
+  // Device ID is SHA-256 hash of raw public key (hex)
+  const deviceId = createHash('sha256')
+    .update(Buffer.from(publicKey, 'base64url'))
+    .digest('hex');
+
+  return { deviceId, publicKey, privateKey };
+}
+
+function toBase64Url(buffer: Buffer): string {
+  return buffer
+    .toString('base64')
+    .replace(/\+/g, '-')
+    .replace(/\//g, '_')
+    .replace(/=+$/, '');
+}
@@ -0,0 +1,8 @@
+import { Module } from '@nestjs/common';
+import { DeviceIdentityService } from './device-identity.service';
+
+@Module({
+  providers: [DeviceIdentityService],
+  exports: [DeviceIdentityService],
+})
+export class DeviceModule {}
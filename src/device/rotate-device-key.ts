@@ -0,0 +1,52 @@
+import { Module } from '@nestjs/common';
+import { ConfigModule } from '@nestjs/config';
+import { NestFactory } from '@nestjs/core';
+import { DeviceModule } from './device.module';
+import { DeviceIdentityService } from './device-identity.service';
+
+@Module({
+  imports: [
+    ConfigModule.forRoot({
+      isGlobal: true,
+      envFilePath: '.env',
+    }),
+    DeviceModule,
+  ],
+})
+class RotateDeviceKeyModule {}
+
+/**
+ * Rotate the persisted device keypair
+ * npm run device:rotate
+ */
+async function rotate() {
+  const app = await NestFactory.createApplicationContext(
+    RotateDeviceKeyModule,
+    { logger: ['error', 'warn'] },
+  );
+
+  const deviceIdentity = app.get(DeviceIdentityService);
+  const rotation = deviceIdentity.rotate();
+
+  // Prove the new key signs and verifies before reporting success
+  const probe = `rotate|${rotation.deviceId}|${Date.now()}`;
+  const signature = deviceIdentity.sign(probe);
+  if (!deviceIdentity.verify(probe, signature)) {
+    throw new Error('New device key failed signature self-check');
+  }
+
+  console.log(`🔑 Device key rotated (${rotation.keyFile})`);
+  console.log(`   Old device ID: ${rotation.previousDeviceId}`);
+  console.log(`   New device ID: ${rotation.deviceId}`);
+  console.log(
+    '   Running servers use the new key from their next gateway handshake;',
+  );
+  console.log('   approve the new device on the gateway.');
+
+  await app.close();
+}
+
+rotate().catch((error) => {
+  console.error(`❌ Device key rotation failed: ${error}`);
+  process.exit(1);
+});
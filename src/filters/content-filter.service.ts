@@ -0,0 +1,258 @@
+import { Injectable, Logger } from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import { readFileSync } from 'fs';
+import { AppliedFilter } from '../chat/protocol/chat-protocol';
+import { MetricsService } from '../metrics/metrics.service';
+import { ContentRefusedError } from './content-refused.error';
+import {
+  applyRules,
+  compilePolicy,
+  FilterDirection,
+  FilterOutcome,
+  FilterPolicy,
+  literalPattern,
+  mergeApplied,
+} from './filter-rules';
+import { FilterStream } from './filter-stream';
+
+/**
+ * Policy for tokens whose API key names none
+ */
+export const DEFAULT_POLICY = 'default';
+
+const POLICY_NAME_PATTERN = /^[A-Za-z0-9_-]{1,64}$/;
+
+/**
+ * Shorter values are too likely to occur in ordinary text to redact
+ */
+const MIN_SECRET_LENGTH = 8;
+
+/**
+ * What filtered content belongs to, for the audit log
+ */
+export interface FilterContext {
+  clientId?: string;
+  runId?: string;
+  /** Chat message id, for inbound messages */
+  messageId?: string;
+}
+
+/**
+ * Content filter policies loaded from FILTERS_FILE: rules rewriting or
+ * refusing chat messages before they reach the agent, and rewriting the
+ * agent's output before it reaches clients. API keys pick a policy by
+ * name, falling back to "default"; without one, content passes through.
+ * Every alteration is logged and counted.
+ */
+@Injectable()
+export class ContentFilterService {
+  private readonly logger = new Logger(ContentFilterService.name);
+  private readonly policies = new Map<string, FilterPolicy>();
+  private readonly secrets = new Set<string>();
+  private secretPattern: RegExp | null = null;
+  private readonly streamMaxHold: number;
+
+  constructor(
+    private readonly configService: ConfigService,
+    private readonly metricsService: MetricsService,
+  ) {
+    this.streamMaxHold = Number(
+      this.configService.get('FILTER_STREAM_MAX_HOLD', 1000),
+    );
+
+    const policiesFile = this.configService.get<string>('FILTERS_FILE', '');
+    if (policiesFile) {
+      this.loadFile(policiesFile);
+      this.logger.log(
+        `Content filter policies: ${[...this.policies.keys()].join(', ')}`,
+      );
+    }
+
+    this.addSecrets(
+      this.configService
+        .get<string>('FILTER_SECRET_VARS', 'GATEWAY_TOKEN,JWT_SECRET,API_KEY')
+        .split(',')
+        .map((name) => name.trim())
+        .filter(Boolean)
+        .map((name) => this.configService.get<string>(name, '')),
+    );
+  }
+
+  /**
+   * Whether a token may name the policy (naming none means "default")
+   */
+  has(name: string | undefined): boolean {
+    return name === undefined || this.policies.has(name);
+  }
+
+  /**
+   * Register values the `secret` detector redacts, such as gateway tokens
+   */
+  addSecrets(values: string[]): void {
+    values
+      .filter((value) => value.length >= MIN_SECRET_LENGTH)
+      .forEach((value) => this.secrets.add(value));
+    this.secretPattern = literalPattern([...this.secrets]);
+  }
+
+  /**
+   * Apply a policy's inbound rules to a chat message; throws a
+   * ContentRefusedError when one of them refuses it
+   */
+  inbound(
+    name: string | undefined,
+    text: string,
+    context: FilterContext,
+  ): FilterOutcome {
+    const policy = this.policy(name);
+    if (!policy?.inbound.length) return { text, applied: [] };
+
+    const outcome = applyRules(policy.inbound, text);
+    this.audit(policy, 'inbound', outcome, context);
+    if (outcome.refusedBy) {
+      throw new ContentRefusedError(outcome.refusedBy.id);
+    }
+    return outcome;
+  }
+
+  /**
+   * Whether the policy has outbound rules
+   */
+  filtersOutbound(name: string | undefined): boolean {
+    return Boolean(this.policy(name)?.outbound.length);
+  }
+
+  /**
+   * A filter for a run's streamed text, or null when the policy has no
+   * outbound rules
+   */
+  outboundStream(
+    name: string | undefined,
+    context: FilterContext,
+  ): FilterStream | null {
+    const policy = this.policy(name);
+    if (!policy?.outbound.length) return null;
+
+    return new FilterStream((text) => {
+      const outcome = applyRules(policy.outbound, text);
+      this.audit(policy, 'outbound', outcome, context);
+      return outcome;
+    }, this.streamMaxHold);
+  }
+
+  /**
+   * Apply a policy's outbound rules to every string in a value (tool
+   * calls, final replies, history), returning a filtered copy
+   */
+  outbound<T>(
+    name: string | undefined,
+    value: T,
+    context: FilterContext,
+  ): { value: T; applied: AppliedFilter[] } {
+    const policy = this.policy(name);
+    if (!policy?.outbound.length) return { value, applied: [] };
+
+    const applied: AppliedFilter[] = [];
+    const filtered = mapStrings(value, (text) => {
+      const outcome = applyRules(policy.outbound, text);
+      mergeApplied(applied, outcome.applied);
+      return outcome.text;
+    }) as T;
+    this.audit(policy, 'outbound', { text: '', applied }, context);
+    return { value: filtered, applied };
+  }
+
+  private policy(name: string | undefined): FilterPolicy | undefined {
+    return this.policies.get(name ?? DEFAULT_POLICY);
+  }
+
+  /**
+   * Log and count the rules that altered or refused content (never the
+   * content itself)
+   */
+  private audit(
+    policy: FilterPolicy,
+    direction: FilterDirection,
+    outcome: FilterOutcome,
+    context: FilterContext,
+  ): void {
+    if (!outcome.applied.length && !outcome.refusedBy) return;
+
+    const prefix = context.clientId ? `[${context.clientId}] ` : '';
+    const target = [
+      context.messageId && `message ${context.messageId}`,
+      context.runId && `run ${context.runId}`,
+    ]
+      .filter(Boolean)
+      .join(', ');
+
+    outcome.applied.forEach(({ rule, type, count }) => {
+      this.metricsService.contentFiltered.inc(
+        { policy: policy.name, direction, rule, action: 'altered' },
+        count,
+      );
+      this.logger.log(
+        `${prefix}Policy "${policy.name}" ${direction} rule ${rule} (${type}) altered ${target || 'content'} ${count}x`,
+      );
+    });
+
+    if (outcome.refusedBy) {
+      const { id, type } = outcome.refusedBy;
+      this.metricsService.contentFiltered.inc({
+        policy: policy.name,
+        direction,
+        rule: id,
+        action: 'refused',
+      });
+      this.logger.warn(
+        `${prefix}Policy "${policy.name}" ${direction} rule ${id} (${type}) refused ${target || 'content'}`,
+      );
+    }
+  }
+
+  private loadFile(path: string): void {
+    const entries = JSON.parse(readFileSync(path, 'utf-8')) as unknown;
+    if (
+      typeof entries !== 'object' ||
+      entries === null ||
+      Array.isArray(entries)
+    ) {
+      throw new Error(`${path} must contain a JSON object of filter policies`);
+    }
+
+    Object.entries(entries).forEach(([name, entry]) => {
+      if (!POLICY_NAME_PATTERN.test(name)) {
+        throw new Error(
+          `${path}: policy name "${name}" must be 1-64 letters, digits, underscores or dashes`,
+        );
+      }
+      this.policies.set(
+        name,
+        compilePolicy(
+          name,
+          entry,
+          `${path}: ${name}`,
+          () => this.secretPattern,
+        ),
+      );
+    });
+  }
+}
+
+/**
+ * Copy of a JSON-like value with every string mapped
+ */
+function mapStrings(value: unknown, map: (text: string) => string): unknown {
+  if (typeof value === 'string') return map(value);
+  if (Array.isArray(value)) return value.map((item) => mapStrings(item, map));
+  if (
+    typeof value === 'object' &&
+    value !== null &&
+    Object.getPrototypeOf(value) === Object.prototype
+  ) {
+    return Object.fromEntries(
+      Object.entries(value).map(([key, item]) => [key, mapStrings(item, map)]),
+    );
+  }
+  return value;
+}
@@ -0,0 +1,9 @@
+/**
+ * A chat message refused by its content filter policy
+ */
+export class ContentRefusedError extends Error {
+  constructor(readonly rule: string) {
+    super(`Message refused by content filter rule "${rule}"`);
+    this.name = ContentRefusedError.name;
+  }
+}
@@ -0,0 +1,140 @@
+import { applyRules, compilePolicy, mergeApplied } from './filter-rules';
+
+const noSecrets = () => null;
+
+describe('compilePolicy', () => {
+  it('redacts built-in detectors and custom patterns', () => {
+    const policy = compilePolicy(
+      'default',
+      {
+        outbound: [
+          { id: 'pii', type: 'redact', detect: ['email', 'phone', 'token'] },
+          { type: 'redact', patterns: ['ACME-\\d+'], replacement: '***' },
+        ],
+      },
+      'filters.default',
+      noSecrets,
+    );
+
+    const outcome = applyRules(
+      policy.outbound,
+      'Mail jo@example.com or call +44 20 7946 0958 about ACME-42, key sk-abcdefghijklmnopqrstuv',
+    );
+
+    expect(outcome.text).toBe(
+      'Mail [redacted:email] or call [redacted:phone] about ***, key [redacted:token]',
+    );
+    expect(outcome.applied).toEqual([
+      { rule: 'pii', type: 'redact', count: 3 },
+      { rule: 'outbound[1]', type: 'redact', count: 1 },
+    ]);
+  });
+
+  it('leaves IP addresses and short numbers alone', () => {
+    const { outbound } = compilePolicy(
+      'default',
+      { outbound: [{ type: 'redact', detect: ['phone'] }] },
+      'filters.default',
+      noSecrets,
+    );
+
+    expect(applyRules(outbound, 'Host 192.168.100.200, port 8080').text).toBe(
+      'Host 192.168.100.200, port 8080',
+    );
+  });
+
+  it('redacts registered secrets', () => {
+    const { outbound } = compilePolicy(
+      'default',
+      { outbound: [{ type: 'redact', detect: ['secret'] }] },
+      'filters.default',
+      () => /hunter2/g,
+    );
+
+    expect(applyRules(outbound, 'The password is hunter2').text).toBe(
+      'The password is [redacted:secret]',
+    );
+  });
+
+  it('refuses inbound text with denied words, matched whole', () => {
+    const { inbound } = compilePolicy(
+      'default',
+      { inbound: [{ id: 'words', type: 'deny', words: ['secret plan'] }] },
+      'filters.default',
+      noSecrets,
+    );
+
+    expect(applyRules(inbound, 'Tell me the SECRET PLAN').refusedBy?.id).toBe(
+      'words',
+    );
+    expect(applyRules(inbound, 'secret planning').refusedBy).toBeUndefined();
+  });
+
+  it('masks denied words outbound', () => {
+    const { outbound } = compilePolicy(
+      'default',
+      { outbound: [{ type: 'deny', words: ['darn'] }] },
+      'filters.default',
+      noSecrets,
+    );
+
+    expect(applyRules(outbound, 'Darn it, darn').text).toBe(
+      '[redacted] it, [redacted]',
+    );
+  });
+
+  it('truncates, prefixes and sanitizes inbound text', () => {
+    const { inbound } = compilePolicy(
+      'default',
+      {
+        inbound: [
+          { type: 'sanitize', html: true },
+          { type: 'max_length', max: 8, action: 'truncate' },
+          { type: 'prefix', text: '> ' },
+        ],
+      },
+      'filters.default',
+      noSecrets,
+    );
+
+    expect(applyRules(inbound, '<b>he\u200bllo</b> world').text).toBe(
+      '> hello wo',
+    );
+  });
+
+  it('rejects invalid rules with their location', () => {
+    const compile = (entry: unknown) =>
+      compilePolicy('default', entry, 'filters.default', noSecrets);
+
+    expect(() => compile([])).toThrow('filters.default must be an object');
+    expect(() => compile({ inbound: [{ type: 'shout' }] })).toThrow(
+      'filters.default.inbound[0]: "type" must be one of',
+    );
+    expect(() =>
+      compile({ outbound: [{ type: 'max_length', max: 5 }] }),
+    ).toThrow('"max_length" rules only apply inbound');
+    expect(() =>
+      compile({ outbound: [{ type: 'deny', words: ['x'], action: 'reject' }] }),
+    ).toThrow('outbound rules cannot reject');
+    expect(() =>
+      compile({ inbound: [{ type: 'redact', patterns: ['('] }] }),
+    ).toThrow('invalid pattern "("');
+  });
+});
+
+describe('mergeApplied', () => {
+  it('sums the counts of rules applied more than once', () => {
+    const merged = mergeApplied(
+      [{ rule: 'pii', type: 'redact', count: 1 }],
+      [
+        { rule: 'pii', type: 'redact', count: 2 },
+        { rule: 'words', type: 'deny', count: 1 },
+      ],
+    );
+
+    expect(merged).toEqual([
+      { rule: 'pii', type: 'redact', count: 3 },
+      { rule: 'words', type: 'deny', count: 1 },
+    ]);
+  });
+});
@@ -0,0 +1,417 @@
+import {
+  AppliedFilter,
+  FILTER_RULE_TYPES,
+  FilterRuleType,
+} from '../chat/protocol/chat-protocol';
+
+export type FilterDirection = 'inbound' | 'outbound';
+
+/**
+ * A compiled policy rule. `apply` returns the rewritten text and how many
+ * alterations were made, or null when the rule refuses the text.
+ */
+export interface FilterRule {
+  id: string;
+  type: FilterRuleType;
+  apply: (text: string) => { text: string; count: number } | null;
+}
+
+/**
+ * Rules applied to chat messages on their way to the agent (inbound) and
+ * to the agent's output on its way to clients (outbound)
+ */
+export interface FilterPolicy {
+  name: string;
+  inbound: FilterRule[];
+  outbound: FilterRule[];
+}
+
+export interface FilterOutcome {
+  text: string;
+  /** Rules that altered the text */
+  applied: AppliedFilter[];
+  /** Rule that refused the text, leaving it unsent */
+  refusedBy?: FilterRule;
+}
+
+interface RuleFileEntry {
+  id?: unknown;
+  type?: unknown;
+  detect?: unknown;
+  patterns?: unknown;
+  words?: unknown;
+  action?: unknown;
+  replacement?: unknown;
+  max?: unknown;
+  text?: unknown;
+  html?: unknown;
+}
+
+/**
+ * A built-in kind of sensitive text, with a further check on matches
+ */
+interface Detector {
+  pattern: RegExp;
+  accept?: (match: string) => boolean;
+}
+
+/**
+ * Well-known credential formats
+ */
+const TOKEN_PATTERNS = [
+  // JSON Web Tokens
+  /\beyJ[\w-]{8,}\.[\w-]{8,}\.[\w-]{8,}/,
+  // OpenAI, Anthropic, Stripe and similar prefixed keys
+  /\b(?:sk|pk|rk)[-_][\w-]{16,}/,
+  /\bgh[pousr]_[A-Za-z0-9]{30,}/,
+  /\bgithub_pat_\w{22,}/,
+  /\b(?:AKIA|ASIA)[0-9A-Z]{16}\b/,
+  /\bxox[abprs]-[\w-]{10,}/,
+  /\bAIza[\w-]{35}/,
+  /\bBearer\s+[\w.~+/-]{16,}=*/,
+];
+
+const DETECTORS: Record<string, Detector> = {
+  email: {
+    pattern: /[\w.%+-]+@[A-Za-z0-9-]+(?:\.[A-Za-z0-9-]+)*\.[A-Za-z]{2,}/g,
+  },
+  phone: {
+    pattern:
+      /(?<![\w+.])(?:\+\d{1,3}[\s.-]?)?(?:\(\d{1,4}\)[\s.-]?)?\d{2,4}(?:[\s.-]?\d{2,4}){1,4}(?!\w)/g,
+    // Between 9 and 15 digits, and not an IPv4 address
+    accept: (match) => {
+      const digits = match.replace(/\D/g, '').length;
+      return (
+        digits >= 9 && digits <= 15 && !/^\d{1,3}(?:\.\d{1,3}){3}$/.test(match)
+      );
+    },
+  },
+  token: {
+    pattern: new RegExp(
+      TOKEN_PATTERNS.map((pattern) => pattern.source).join('|'),
+      'g',
+    ),
+  },
+};
+
+/**
+ * Detector names accepted by `redact` rules; `secret` matches the values
+ * registered with the filter service
+ */
+const DETECTOR_NAMES = [...Object.keys(DETECTORS), 'secret'];
+
+/**
+ * Control and invisible formatting characters (zero-width and bidi
+ * overrides), other than tabs and line breaks
+ */
+const UNSAFE_CHARACTERS =
+  // eslint-disable-next-line no-control-regex
+  /[\u0000-\u0008\u000B\u000C\u000E-\u001F\u007F\u200B-\u200F\u202A-\u202E\u2060-\u2064\u2066-\u2069\uFEFF]/g;
+
+const HTML_TAG = /<\/?[A-Za-z][^<>]*>/g;
+
+/**
+ * Compile a FILTERS_FILE policy: `{ inbound?: Rule[], outbound?: Rule[] }`.
+ * `secrets` returns a pattern matching the registered secrets, if any.
+ */
+export function compilePolicy(
+  name: string,
+  entry: unknown,
+  where: string,
+  secrets: () => RegExp | null,
+): FilterPolicy {
+  if (!isObject(entry)) {
+    throw new Error(`${where} must be an object with "inbound" or "outbound"`);
+  }
+
+  const rules = (direction: FilterDirection): FilterRule[] => {
+    const entries = entry[direction] ?? [];
+    if (!Array.isArray(entries)) {
+      throw new Error(`${where}.${direction} must be a list of rules`);
+    }
+    return entries.map((rule: RuleFileEntry, index) =>
+      compileRule(
+        rule,
+        direction,
+        index,
+        `${where}.${direction}[${index}]`,
+        secrets,
+      ),
+    );
+  };
+
+  return { name, inbound: rules('inbound'), outbound: rules('outbound') };
+}
+
+/**
+ * Run text through rules in order, stopping at the first that refuses it
+ */
+export function applyRules(rules: FilterRule[], text: string): FilterOutcome {
+  const applied: AppliedFilter[] = [];
+  for (const rule of rules) {
+    const result = rule.apply(text);
+    if (!result) return { text, applied, refusedBy: rule };
+
+    if (result.count > 0) {
+      applied.push({ rule: rule.id, type: rule.type, count: result.count });
+    }
+    text = result.text;
+  }
+  return { text, applied };
+}
+
+/**
+ * Sum the counts of rules applied more than once
+ */
+export function mergeApplied(
+  into: AppliedFilter[],
+  applied: AppliedFilter[],
+): AppliedFilter[] {
+  applied.forEach((filter) => {
+    const existing = into.find((other) => other.rule === filter.rule);
+    if (existing) {
+      existing.count += filter.count;
+    } else {
+      into.push({ ...filter });
+    }
+  });
+  return into;
+}
+
+/**
+ * A pattern matching any of the values literally
+ */
+export function literalPattern(values: string[]): RegExp | null {
+  if (values.length === 0) return null;
+  return new RegExp(
+    [...values]
+      .sort((a, b) => b.length - a.length)
+      .map(escapeRegExp)
+      .join('|'),
+    'g',
+  );
+}
+
+function compileRule(
+  entry: RuleFileEntry,
+  direction: FilterDirection,
+  index: number,
+  where: string,
+  secrets: () => RegExp | null,
+): FilterRule {
+  if (!isObject(entry)) {
+    throw new Error(`${where} must be an object`);
+  }
+  if (entry.id !== undefined && (typeof entry.id !== 'string' || !entry.id)) {
+    throw new Error(`${where}: "id" must be a string`);
+  }
+  if (
+    entry.replacement !== undefined &&
+    typeof entry.replacement !== 'string'
+  ) {
+    throw new Error(`${where}: "replacement" must be a string`);
+  }
+
+  const type = entry.type as FilterRuleType;
+  if (!FILTER_RULE_TYPES.includes(type)) {
+    throw new Error(
+      `${where}: "type" must be one of ${FILTER_RULE_TYPES.join(', ')}`,
+    );
+  }
+  if (
+    direction === 'outbound' &&
+    (type === 'max_length' || type === 'prefix')
+  ) {
+    throw new Error(`${where}: "${type}" rules only apply inbound`);
+  }
+
+  const id = entry.id ?? `${direction}[${index}]`;
+  const replacement = entry.replacement;
+
+  switch (type) {
+    case 'redact':
+      return {
+        id,
+        type,
+        apply: redactRule(entry, where, replacement, secrets),
+      };
+    case 'deny':
+      return {
+        id,
+        type,
+        apply: denyRule(entry, direction, where, replacement),
+      };
+    case 'max_length':
+      return { id, type, apply: maxLengthRule(entry, where) };
+    case 'prefix': {
+      if (typeof entry.text !== 'string' || !entry.text) {
+        throw new Error(`${where}: "text" is required`);
+      }
+      const prefix = entry.text;
+      return { id, type, apply: (text) => ({ text: prefix + text, count: 1 }) };
+    }
+    case 'sanitize': {
+      if (entry.html !== undefined && typeof entry.html !== 'boolean') {
+        throw new Error(`${where}: "html" must be a boolean`);
+      }
+      const patterns = entry.html
+        ? [UNSAFE_CHARACTERS, HTML_TAG]
+        : [UNSAFE_CHARACTERS];
+      return {
+        id,
+        type,
+        apply: (text) => {
+          let count = 0;
+          patterns.forEach((pattern) => {
+            text = text.replace(pattern, () => {
+              count++;
+              return '';
+            });
+          });
+          return { text, count };
+        },
+      };
+    }
+  }
+}
+
+/**
+ * Replace matches of the built-in detectors and custom patterns, by
+ * default with `[redacted:<detector>]`
+ */
+function redactRule(
+  entry: RuleFileEntry,
+  where: string,
+  replacement: string | undefined,
+  secrets: () => RegExp | null,
+): FilterRule['apply'] {
+  const detect = entry.detect ?? [];
+  if (
+    !isStringList(detect) ||
+    !detect.every((name) => DETECTOR_NAMES.includes(name))
+  ) {
+    throw new Error(
+      `${where}: "detect" must be a list of ${DETECTOR_NAMES.join(', ')}`,
+    );
+  }
+
+  const patterns = entry.patterns ?? [];
+  if (!isStringList(patterns)) {
+    throw new Error(
+      `${where}: "patterns" must be a list of regular expressions`,
+    );
+  }
+  if (detect.length === 0 && patterns.length === 0) {
+    throw new Error(`${where}: "detect" or "patterns" is required`);
+  }
+
+  const custom = patterns.map((source) => {
+    try {
+      return new RegExp(source, 'g');
+    } catch {
+      throw new Error(`${where}: invalid pattern ${JSON.stringify(source)}`);
+    }
+  });
+
+  return (text) => {
+    let count = 0;
+    const replace = (detector: Detector, kind: string) => {
+      text = text.replace(detector.pattern, (match) => {
+        if (!match || (detector.accept && !detector.accept(match))) {
+          return match;
+        }
+        count++;
+        return replacement ?? `[redacted:${kind}]`;
+      });
+    };
+
+    detect.forEach((name) => {
+      if (name !== 'secret') {
+        replace(DETECTORS[name], name);
+        return;
+      }
+      const pattern = secrets();
+      if (pattern) replace({ pattern }, name);
+    });
+    custom.forEach((pattern) => replace({ pattern }, 'pattern'));
+    return { text, count };
+  };
+}
+
+/**
+ * Refuse (inbound only) or mask text containing any of the words or
+ * phrases, matched whole and case-insensitively
+ */
+function denyRule(
+  entry: RuleFileEntry,
+  direction: FilterDirection,
+  where: string,
+  replacement: string | undefined,
+): FilterRule['apply'] {
+  if (!isStringList(entry.words) || entry.words.length === 0) {
+    throw new Error(`${where}: "words" must be a non-empty list`);
+  }
+
+  const action =
+    entry.action ?? (direction === 'inbound' ? 'reject' : 'redact');
+  if (action !== 'reject' && action !== 'redact') {
+    throw new Error(`${where}: "action" must be reject or redact`);
+  }
+  if (direction === 'outbound' && action === 'reject') {
+    throw new Error(`${where}: outbound rules cannot reject`);
+  }
+
+  const pattern = new RegExp(
+    `(?<![\\p{L}\\p{N}_])(?:${entry.words.map(escapeRegExp).join('|')})(?![\\p{L}\\p{N}_])`,
+    'giu',
+  );
+
+  if (action === 'reject') {
+    return (text) => (text.search(pattern) === -1 ? { text, count: 0 } : null);
+  }
+  return (text) => {
+    let count = 0;
+    text = text.replace(pattern, () => {
+      count++;
+      return replacement ?? '[redacted]';
+    });
+    return { text, count };
+  };
+}
+
+function maxLengthRule(
+  entry: RuleFileEntry,
+  where: string,
+): FilterRule['apply'] {
+  const max = entry.max;
+  if (typeof max !== 'number' || !Number.isInteger(max) || max <= 0) {
+    throw new Error(`${where}: "max" must be a positive integer`);
+  }
+
+  const action = entry.action ?? 'reject';
+  if (action !== 'reject' && action !== 'truncate') {
+    throw new Error(`${where}: "action" must be reject or truncate`);
+  }
+
+  return (text) => {
+    if (text.length <= max) return { text, count: 0 };
+    return action === 'truncate'
+      ? { text: text.slice(0, max), count: 1 }
+      : null;
+  };
+}
+
+function isObject(value: unknown): value is Record<string, unknown> {
+  return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
+
+function isStringList(value: unknown): value is string[] {
+  return (
+    Array.isArray(value) &&
+    value.every((item) => typeof item === 'string' && item)
+  );
+}
+
+function escapeRegExp(value: string): string {
+  return value.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+}
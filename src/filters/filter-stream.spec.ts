@@ -0,0 +1,40 @@
+import { FilterOutcome } from './filter-rules';
+import { FilterStream } from './filter-stream';
+
+const upperCase = (text: string): FilterOutcome => ({
+  text: text.toUpperCase(),
+  applied: [],
+});
+
+describe('FilterStream', () => {
+  it('holds text back until its sentence ends', () => {
+    const stream = new FilterStream(upperCase);
+
+    expect(stream.push('Call me on').text).toBe('');
+    expect(stream.push(' 555. Then').text).toBe('CALL ME ON 555.');
+    expect(stream.push(' bye\nAnd').text).toBe(' THEN BYE\n');
+    expect(stream.flush().text).toBe('AND');
+    expect(stream.text).toBe('CALL ME ON 555. THEN BYE\nAND');
+    expect(stream.received).toBe(28);
+  });
+
+  it('catches a match split across deltas', () => {
+    const stream = new FilterStream((text) => ({
+      text: text.replace(/\d{3}-\d{4}/g, '[redacted]'),
+      applied: [],
+    }));
+
+    stream.push('Dial 555-');
+    stream.push('1234 now. ');
+    stream.flush();
+
+    expect(stream.text).toBe('Dial [redacted] now. ');
+  });
+
+  it('cuts at a word break once too much text is held', () => {
+    const stream = new FilterStream(upperCase, 10);
+
+    expect(stream.push('no sentence end').text).toBe('NO SENTENCE ');
+    expect(stream.flush().text).toBe('END');
+  });
+});
@@ -0,0 +1,60 @@
+import { sentenceBoundaries } from '../voice/sentence-chunker';
+import { FilterOutcome } from './filter-rules';
+
+/**
+ * Filters streamed text a sentence or line at a time, so a match split
+ * across deltas (a phone number, a token) is still caught. Text is held
+ * back until its sentence ends, or until `maxHold` characters pile up
+ * without one, when it is cut at the last word break.
+ */
+export class FilterStream {
+  private pending = '';
+  /** Filtered text released so far */
+  text = '';
+  /** Characters of unfiltered text received so far */
+  received = 0;
+
+  constructor(
+    private readonly filter: (text: string) => FilterOutcome,
+    private readonly maxHold = 1000,
+  ) {}
+
+  /**
+   * Add streamed text, returning the filtered text it released (possibly
+   * none)
+   */
+  push(delta: string): FilterOutcome {
+    this.received += delta.length;
+    this.pending += delta;
+    return this.release(this.cut());
+  }
+
+  /**
+   * Whatever is held back once the stream has ended
+   */
+  flush(): FilterOutcome {
+    return this.release(this.pending.length);
+  }
+
+  private release(end: number): FilterOutcome {
+    if (end === 0) return { text: '', applied: [] };
+
+    const outcome = this.filter(this.pending.slice(0, end));
+    this.pending = this.pending.slice(end);
+    this.text += outcome.text;
+    return outcome;
+  }
+
+  /**
+   * Length of the pending text that can be filtered now: up to the last
+   * sentence or line end
+   */
+  private cut(): number {
+    const last = sentenceBoundaries(this.pending).pop();
+    const end = last ? last.index + last[0].length : 0;
+    if (end > 0 || this.pending.length <= this.maxHold) return end;
+
+    const space = this.pending.search(/\s\S*$/);
+    return space > 0 ? space + 1 : this.pending.length;
+  }
+}
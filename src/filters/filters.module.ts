@@ -0,0 +1,10 @@
+import { Module } from '@nestjs/common';
+import { MetricsModule } from '../metrics/metrics.module';
+import { ContentFilterService } from './content-filter.service';
+
+@Module({
+  imports: [MetricsModule],
+  providers: [ContentFilterService],
+  exports: [ContentFilterService],
+})
+export class FiltersModule {}
@@ -1,21 +1,60 @@
-import { Controller, Get } from '@nestjs/common';
+import { Controller, Get, ServiceUnavailableException } from '@nestjs/common';
+import { BridgeService } from '../chat/bridge.service';
 
 @Controller('health')
 export class HealthController {
+  constructor(private readonly bridgeService: BridgeService) {}
+
   @Get()
   check() {
+    const stats = this.bridgeService.getStats();
+
     return {
       status: 'ok',
       timestamp: new Date().toISOString(),
       service: 'openclaw-face-server',
+      uptime: Math.round(process.uptime()),
+      bridges: {
+        active: stats.activeBridges,
+        authenticated: stats.authenticatedBridges,
+        queuedMessages: stats.queuedMessages,
+      },
+      gateway: {
+        connections: stats.connections,
+        readyConnections: stats.readyConnections,
+        circuit: stats.circuit,
+        lastError: stats.lastGatewayError,
+      },
+      gateways: stats.gateways,
     };
   }
 
+  /**
+   * Ready only while every gateway target accepts our handshake, so
+   * orchestrators stop routing chat traffic to instances that cannot
+   * serve it. `gateway` is the default target's check. An open circuit
+   * breaker is reported in each check's `circuit` but does not fail it.
+   */
   @Get('ready')
-  ready() {
+  async ready() {
+    const gateways = await this.bridgeService.checkGateways();
+    const [gateway] = Object.values(gateways);
+    const timestamp = new Date().toISOString();
+
+    if (!Object.values(gateways).every((check) => check.ok)) {
+      throw new ServiceUnavailableException({
+        status: 'not_ready',
+        timestamp,
+        gateway,
+        gateways,
+      });
+    }
+
     return {
       status: 'ready',
-      timestamp: new Date().toISOString(),
+      timestamp,
+      gateway,
+      gateways,
     };
   }
 }
@@ -2,6 +2,8 @@ import { NestFactory } from '@nestjs/core';
 import { ValidationPipe } from '@nestjs/common';
 import { ConfigService } from '@nestjs/config';
 import { AppModule } from './app.module';
+import { StateIoAdapter } from './state/state-io.adapter';
+import { StateStore } from './state/state-store';
 
 async function bootstrap() {
   const app = await NestFactory.create(AppModule);
@@ -16,6 +18,9 @@ async function bootstrap() {
     }),
   );
 
+  // Share Socket.IO rooms and broadcasts between nodes
+  app.useWebSocketAdapter(new StateIoAdapter(app, app.get(StateStore)));
+
   // CORS
   const allowedOrigins = configService
     .get<string>('ALLOWED_ORIGINS', '')
@@ -35,5 +40,13 @@ async function bootstrap() {
   console.log(`📡 WebSocket endpoint: ws://localhost:${port}/chat`);
   console.log(`🔐 Auth endpoint: POST http://localhost:${port}/auth/token`);
   console.log(`❤️  Health endpoint: GET http://localhost:${port}/health`);
+  console.log(`📊 Metrics endpoint: GET http://localhost:${port}/metrics`);
+  console.log(
+    `📎 Attachments endpoint: POST http://localhost:${port}/attachments`,
+  );
+  console.log(
+    `📜 Transcript endpoints: GET http://localhost:${port}/transcripts`,
+  );
+  console.log(`🛠️  Admin endpoints: http://localhost:${port}/admin`);
 }
 bootstrap();
@@ -0,0 +1,116 @@
+import { Injectable } from '@nestjs/common';
+import {
+  collectDefaultMetrics,
+  Counter,
+  Gauge,
+  Histogram,
+  Registry,
+} from 'prom-client';
+
+const LATENCY_BUCKETS = [0.1, 0.25, 0.5, 1, 2.5, 5, 10, 30, 60, 120, 300];
+
+/**
+ * Prometheus metrics for the chat gateway and the gateway bridge. Gauges
+ * are refreshed by collectors that run just before each scrape.
+ */
+@Injectable()
+export class MetricsService {
+  readonly registry = new Registry();
+
+  readonly connectedClients = new Gauge({
+    name: 'face_connected_clients',
+    help: 'Authenticated Socket.IO chat clients',
+    registers: [this.registry],
+  });
+
+  readonly gatewaySockets = new Gauge({
+    name: 'face_gateway_sockets',
+    help: 'Pooled gateway sockets by gateway target and state',
+    labelNames: ['gateway', 'state'],
+    registers: [this.registry],
+  });
+
+  readonly queueDepth = new Gauge({
+    name: 'face_message_queue_depth',
+    help: 'Chat messages queued while waiting for the gateway',
+    registers: [this.registry],
+  });
+
+  readonly handshakes = new Counter({
+    name: 'face_gateway_handshakes_total',
+    help: 'Gateway connect handshakes by gateway target and result',
+    labelNames: ['gateway', 'result'],
+    registers: [this.registry],
+  });
+
+  readonly reconnects = new Counter({
+    name: 'face_gateway_reconnects_total',
+    help: 'Scheduled gateway reconnects by gateway target and reason',
+    labelNames: ['gateway', 'reason'],
+    registers: [this.registry],
+  });
+
+  readonly messagesIn = new Counter({
+    name: 'face_messages_in_total',
+    help: 'Socket.IO events received from chat clients by event',
+    labelNames: ['event'],
+    registers: [this.registry],
+  });
+
+  readonly messagesOut = new Counter({
+    name: 'face_messages_out_total',
+    help: 'Bridge messages sent to chat clients by type',
+    labelNames: ['type'],
+    registers: [this.registry],
+  });
+
+  readonly rateLimited = new Counter({
+    name: 'face_rate_limited_total',
+    help: 'Socket.IO events refused by rate and size limits by event and reason',
+    labelNames: ['event', 'reason'],
+    registers: [this.registry],
+  });
+
+  readonly contentFiltered = new Counter({
+    name: 'face_content_filtered_total',
+    help: 'Content filter rule hits by policy, direction, rule and action',
+    labelNames: ['policy', 'direction', 'rule', 'action'],
+    registers: [this.registry],
+  });
+
+  readonly runDuration = new Histogram({
+    name: 'face_agent_run_duration_seconds',
+    help: 'Time from the agent request to the end of the run',
+    labelNames: ['outcome'],
+    buckets: LATENCY_BUCKETS,
+    registers: [this.registry],
+  });
+
+  readonly firstDelta = new Histogram({
+    name: 'face_agent_first_delta_seconds',
+    help: 'Time from the agent request to the first assistant delta',
+    buckets: LATENCY_BUCKETS,
+    registers: [this.registry],
+  });
+
+  private readonly collectors: (() => void)[] = [];
+
+  constructor() {
+    collectDefaultMetrics({ register: this.registry });
+  }
+
+  /**
+   * Run a callback before every scrape, to set gauges from live state
+   */
+  addCollector(collector: () => void): void {
+    this.collectors.push(collector);
+  }
+
+  /**
+   * Current metrics in Prometheus text format
+   */
+  metrics(): Promise<string> {
+    this.collectors.forEach((collector) => collector());
+    return this.registry.metrics();
+  }
+}
@@ -0,0 +1,97 @@
+import { ConfigService } from '@nestjs/config';
+import { ClusterService } from './cluster.service';
+import { MemoryStateStore } from './memory-state-store';
+
+/**
+ * The same store as seen by another node
+ */
+function asNode(store: MemoryStateStore, nodeId: string): MemoryStateStore {
+  return Object.assign(Object.create(store) as MemoryStateStore, { nodeId });
+}
+
+describe('ClusterService', () => {
+  const config = new ConfigService({
+    CLUSTER_HEARTBEAT_INTERVAL: 60000,
+    CLUSTER_REQUEST_TIMEOUT: 100,
+  });
+  let store: MemoryStateStore;
+  let nodeA: ClusterService;
+  let nodeB: ClusterService;
+
+  beforeEach(async () => {
+    store = new MemoryStateStore('a');
+    nodeA = new ClusterService(config, store);
+    nodeB = new ClusterService(config, asNode(store, 'b'));
+    await nodeA.onModuleInit();
+    await nodeB.onModuleInit();
+  });
+
+  afterEach(async () => {
+    await nodeA.onModuleDestroy();
+    await nodeB.onModuleDestroy();
+    await store.close();
+  });
+
+  it('lists nodes by their heartbeat', async () => {
+    const nodes = await nodeA.nodes();
+
+    expect(nodes.map(({ nodeId }) => nodeId).sort()).toEqual(['a', 'b']);
+  });
+
+  it('runs commands on another node and returns the result', async () => {
+    nodeB.on('echo', (payload) => ({ node: nodeB.nodeId, payload }));
+
+    await expect(nodeA.send('b', 'echo', { n: 1 })).resolves.toEqual({
+      node: 'b',
+      payload: { n: 1 },
+    });
+  });
+
+  it('runs commands for itself without the store', async () => {
+    const publish = jest.spyOn(store, 'publish');
+    nodeA.on('echo', (payload) => payload);
+
+    await expect(nodeA.send('a', 'echo', 'hi')).resolves.toBe('hi');
+    expect(publish).not.toHaveBeenCalled();
+  });
+
+  it('passes handler failures back to the sender', async () => {
+    nodeB.on('fail', () => {
+      throw new Error('No such bridge');
+    });
+
+    await expect(nodeA.send('b', 'fail', {})).rejects.toThrow('No such bridge');
+    await expect(nodeA.send('b', 'missing', {})).rejects.toThrow(
+      'Unknown cluster command: missing',
+    );
+  });
+
+  it('gives up on nodes that do not answer', async () => {
+    await expect(nodeA.send('gone', 'echo', {})).rejects.toThrow(
+      'Node gone did not answer echo',
+    );
+  });
+
+  it('fails at once when the request cannot be published', async () => {
+    jest.useFakeTimers();
+    jest
+      .spyOn(store, 'publish')
+      .mockRejectedValueOnce(new Error('store unavailable'));
+
+    await expect(nodeA.send('b', 'echo', {})).rejects.toThrow(
+      'store unavailable',
+    );
+    // The request's timeout is gone with it, so nothing rejects later
+    expect(jest.getTimerCount()).toBe(0);
+    jest.useRealTimers();
+  });
+
+  it('gathers results from every node, leaving out failures', async () => {
+    nodeA.on('whoami', () => 'a');
+    nodeB.on('whoami', () => {
+      throw new Error('busy');
+    });
+
+    await expect(nodeA.gather('whoami', {})).resolves.toEqual(['a']);
+  });
+});
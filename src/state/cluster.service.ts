@@ -0,0 +1,216 @@
+import {
+  Injectable,
+  Logger,
+  OnModuleDestroy,
+  OnModuleInit,
+} from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import { v4 as uuidv4 } from 'uuid';
+import { StateStore } from './state-store';
+
+export type ClusterCommandHandler = (payload: unknown) => unknown;
+
+export interface ClusterNode {
+  nodeId: string;
+  startedAt: number;
+}
+
+interface ClusterRequest {
+  type: 'request';
+  id: string;
+  from: string;
+  command: string;
+  payload: unknown;
+}
+
+interface ClusterReply {
+  type: 'reply';
+  id: string;
+  result?: unknown;
+  error?: string;
+}
+
+interface PendingCommand {
+  resolve: (result: unknown) => void;
+  reject: (error: Error) => void;
+  timeout: NodeJS.Timeout;
+}
+
+/**
+ * Node membership and request/reply commands between face server nodes,
+ * carried over the state store's pub/sub. Each node heartbeats a
+ * "node:<id>" key and listens on its own "cluster:<id>" channel.
+ */
+@Injectable()
+export class ClusterService implements OnModuleInit, OnModuleDestroy {
+  private readonly logger = new Logger(ClusterService.name);
+  private readonly handlers = new Map<string, ClusterCommandHandler>();
+  private readonly pending = new Map<string, PendingCommand>();
+  private readonly startedAt = Date.now();
+  private readonly heartbeatInterval: number;
+  private readonly requestTimeout: number;
+  private heartbeat?: NodeJS.Timeout;
+
+  constructor(
+    private readonly configService: ConfigService,
+    private readonly store: StateStore,
+  ) {
+    this.heartbeatInterval = Number(
+      this.configService.get('CLUSTER_HEARTBEAT_INTERVAL', 10000),
+    );
+    this.requestTimeout = Number(
+      this.configService.get('CLUSTER_REQUEST_TIMEOUT', 5000),
+    );
+  }
+
+  get nodeId(): string {
+    return this.store.nodeId;
+  }
+
+  async onModuleInit(): Promise<void> {
+    await this.store.subscribe(`cluster:${this.nodeId}`, (message) =>
+      this.handleMessage(message as ClusterRequest | ClusterReply | null),
+    );
+    await this.beat();
+    this.heartbeat = setInterval(() => {
+      this.beat().catch((error) =>
+        this.logger.warn(`Heartbeat failed: ${(error as Error).message}`),
+      );
+    }, this.heartbeatInterval);
+  }
+
+  async onModuleDestroy(): Promise<void> {
+    clearInterval(this.heartbeat);
+    await this.store.delete(`node:${this.nodeId}`).catch(() => undefined);
+  }
+
+  /**
+   * Handle a command sent to this node
+   */
+  on(command: string, handler: ClusterCommandHandler): void {
+    this.handlers.set(command, handler);
+  }
+
+  /**
+   * Nodes whose heartbeat hasn't lapsed
+   */
+  async nodes(): Promise<ClusterNode[]> {
+    const entries = await this.store.entries<ClusterNode>('node:');
+    return entries.map(([, node]) => node);
+  }
+
+  /**
+   * Run a command on a node and resolve with its handler's result
+   */
+  async send<T = unknown>(
+    nodeId: string,
+    command: string,
+    payload: unknown,
+  ): Promise<T> {
+    if (nodeId === this.nodeId) {
+      return (await this.dispatch(command, payload)) as T;
+    }
+
+    const id = uuidv4();
+    const result = new Promise<unknown>((resolve, reject) => {
+      const timeout = setTimeout(() => {
+        this.pending.delete(id);
+        reject(new Error(`Node ${nodeId} did not answer ${command}`));
+      }, this.requestTimeout);
+      this.pending.set(id, { resolve, reject, timeout });
+    });
+
+    const request: ClusterRequest = {
+      type: 'request',
+      id,
+      from: this.nodeId,
+      command,
+      payload,
+    };
+    try {
+      await this.store.publish(`cluster:${nodeId}`, request);
+    } catch (error) {
+      // Nothing will answer; don't leave the timeout to reject unheard
+      clearTimeout(this.pending.get(id)?.timeout);
+      this.pending.delete(id);
+      throw error;
+    }
+    return (await result) as T;
+  }
+
+  /**
+   * Run a command on every live node. Nodes that fail or don't answer in
+   * time are left out of the results.
+   */
+  async gather<T = unknown>(command: string, payload: unknown): Promise<T[]> {
+    const nodes = await this.nodes();
+    const results = await Promise.allSettled(
+      nodes.map((node) => this.send<T>(node.nodeId, command, payload)),
+    );
+
+    return results.flatMap((result) => {
+      if (result.status === 'rejected') {
+        this.logger.warn(
+          `${command} failed: ${(result.reason as Error).message}`,
+        );
+        return [];
+      }
+      return [result.value];
+    });
+  }
+
+  private async beat(): Promise<void> {
+    const node: ClusterNode = {
+      nodeId: this.nodeId,
+      startedAt: this.startedAt,
+    };
+    await this.store.set(
+      `node:${this.nodeId}`,
+      node,
+      this.heartbeatInterval * 3,
+    );
+  }
+
+  private dispatch(command: string, payload: unknown): Promise<unknown> {
+    const handler = this.handlers.get(command);
+    if (!handler) {
+      return Promise.reject(new Error(`Unknown cluster command: ${command}`));
+    }
+    // A handler that throws fails the command like one that rejects
+    return new Promise((resolve) => resolve(handler(payload)));
+  }
+
+  private handleMessage(message: ClusterRequest | ClusterReply | null): void {
+    if (message?.type === 'reply') {
+      const pending = this.pending.get(message.id);
+      if (!pending) return;
+
+      clearTimeout(pending.timeout);
+      this.pending.delete(message.id);
+      if (message.error !== undefined) {
+        pending.reject(new Error(message.error));
+      } else {
+        pending.resolve(message.result);
+      }
+      return;
+    }
+
+    if (message?.type !== 'request') return;
+
+    this.dispatch(message.command, message.payload)
+      .then(
+        (result): ClusterReply => ({ type: 'reply', id: message.id, result }),
+        (error): ClusterReply => ({
+          type: 'reply',
+          id: message.id,
+          error: error instanceof Error ? error.message : String(error),
+        }),
+      )
+      .then((reply) => this.store.publish(`cluster:${message.from}`, reply))
+      .catch((error) =>
+        this.logger.error(
+          `Failed to answer ${message.command} from ${message.from}: ${(error as Error).message}`,
+        ),
+      );
+  }
+}
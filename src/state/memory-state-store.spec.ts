@@ -0,0 +1,74 @@
+import { MemoryStateStore } from './memory-state-store';
+
+describe('MemoryStateStore', () => {
+  let store: MemoryStateStore;
+
+  beforeEach(() => {
+    store = new MemoryStateStore('node-1');
+  });
+
+  afterEach(async () => {
+    jest.useRealTimers();
+    await store.close();
+  });
+
+  it('stores copies of values', async () => {
+    const value = { list: [1, 2], at: new Date(0) };
+    await store.set('key', value);
+    value.list.push(3);
+
+    expect(await store.get('key')).toEqual({
+      list: [1, 2],
+      at: '1970-01-01T00:00:00.000Z',
+    });
+    await store.delete('key');
+    expect(await store.get('key')).toBeUndefined();
+  });
+
+  it('forgets values once their ttl lapses', async () => {
+    jest.useFakeTimers();
+    await store.set('short', 1, 1000);
+    await store.set('long', 2);
+
+    jest.advanceTimersByTime(1000);
+
+    expect(await store.get('short')).toBeUndefined();
+    expect(await store.get('long')).toBe(2);
+  });
+
+  it('lists live entries by prefix', async () => {
+    jest.useFakeTimers();
+    await store.set('node:a', 'a');
+    await store.set('node:b', 'b', 500);
+    await store.set('run:c', 'c');
+    jest.advanceTimersByTime(500);
+
+    expect(await store.entries('node:')).toEqual([['node:a', 'a']]);
+  });
+
+  it('only replaces values that still hold what was expected', async () => {
+    await store.set('family', 'jti-1');
+
+    expect(await store.compareAndSet('family', 'jti-1', 'jti-2')).toBe(true);
+    expect(await store.compareAndSet('family', 'jti-1', 'jti-3')).toBe(false);
+    expect(await store.get('family')).toBe('jti-2');
+    expect(await store.compareAndSet('missing', 'jti-1', 'jti-2')).toBe(false);
+    expect(await store.compareAndSet('missing', undefined, 'jti-1')).toBe(true);
+    expect(await store.compareAndSet('missing', undefined, 'jti-2')).toBe(
+      false,
+    );
+  });
+
+  it('delivers published copies to subscribers asynchronously', async () => {
+    const received: unknown[] = [];
+    await store.subscribe('channel', (message) => received.push(message));
+
+    const message = { n: 1 };
+    await store.publish('channel', message);
+    message.n = 2;
+    expect(received).toEqual([]);
+
+    await new Promise((resolve) => setImmediate(resolve));
+    expect(received).toEqual([{ n: 1 }]);
+  });
+});
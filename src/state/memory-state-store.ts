@@ -0,0 +1,95 @@
+import { EventEmitter } from 'events';
+import { StateMessageHandler, StateStore } from './state-store';
+
+/**
+ * Process-local store for a single face server node
+ */
+export class MemoryStateStore extends StateStore {
+  private readonly values = new Map<
+    string,
+    { value: unknown; expiresAt?: number }
+  >();
+  private readonly channels = new EventEmitter().setMaxListeners(0);
+
+  constructor(readonly nodeId: string) {
+    super();
+  }
+
+  get<T>(key: string): Promise<T | undefined> {
+    const entry = this.values.get(key);
+    if (!entry) return Promise.resolve(undefined);
+    if (entry.expiresAt !== undefined && entry.expiresAt <= Date.now()) {
+      this.values.delete(key);
+      return Promise.resolve(undefined);
+    }
+    return Promise.resolve(entry.value as T);
+  }
+
+  set(key: string, value: unknown, ttl?: number): Promise<void> {
+    // Round-trip through JSON so callers see what a shared store returns
+    this.values.set(key, {
+      value: JSON.parse(JSON.stringify(value)),
+      expiresAt: ttl ? Date.now() + ttl : undefined,
+    });
+    return Promise.resolve();
+  }
+
+  delete(key: string): Promise<void> {
+    this.values.delete(key);
+    return Promise.resolve();
+  }
+
+  compareAndSet(
+    key: string,
+    expected: unknown,
+    value: unknown,
+    ttl?: number,
+  ): Promise<boolean> {
+    // Checked and set in one synchronous step, so nothing can interleave
+    const entry = this.values.get(key);
+    const current =
+      entry && (entry.expiresAt === undefined || entry.expiresAt > Date.now())
+        ? entry.value
+        : undefined;
+    // A missing key matches an undefined expectation, as in Redis
+    if (JSON.stringify(current) !== JSON.stringify(expected)) {
+      return Promise.resolve(false);
+    }
+
+    this.values.set(key, {
+      value: JSON.parse(JSON.stringify(value)),
+      expiresAt: ttl ? Date.now() + ttl : undefined,
+    });
+    return Promise.resolve(true);
+  }
+
+  async entries<T>(prefix: string): Promise<Array<[string, T]>> {
+    const entries: Array<[string, T]> = [];
+    for (const key of [...this.values.keys()]) {
+      if (!key.startsWith(prefix)) continue;
+      const value = await this.get<T>(key);
+      if (value !== undefined) entries.push([key, value]);
+    }
+    return entries;
+  }
+
+  publish(channel: string, message: unknown): Promise<void> {
+    const copy: unknown = JSON.parse(JSON.stringify(message));
+    setImmediate(() => this.channels.emit(channel, copy));
+    return Promise.resolve();
+  }
+
+  subscribe(channel: string, handler: StateMessageHandler): Promise<void> {
+    this.channels.on(channel, handler);
+    return Promise.resolve();
+  }
+
+  createAdapter(): undefined {
+    return undefined;
+  }
+
+  close(): Promise<void> {
+    this.channels.removeAllListeners();
+    return Promise.resolve();
+  }
+}
@@ -0,0 +1,83 @@
+import { RedisStateStore } from './redis-state-store';
+
+jest.mock('ioredis', () => jest.requireActual<object>('ioredis-mock'));
+
+describe('RedisStateStore', () => {
+  let store: RedisStateStore;
+  let prefix = 0;
+
+  beforeEach(() => {
+    // ioredis-mock shares data between clients; keep each test to its own
+    store = new RedisStateStore(
+      'node-1',
+      'redis://localhost:6379',
+      `t${++prefix}:`,
+    );
+  });
+
+  afterEach(async () => {
+    await store.close();
+  });
+
+  it('stores values as JSON', async () => {
+    await store.set('key', { list: [1, 2] });
+
+    expect(await store.get('key')).toEqual({ list: [1, 2] });
+    await store.delete('key');
+    expect(await store.get('key')).toBeUndefined();
+  });
+
+  it('forgets values once their ttl lapses', async () => {
+    await store.set('short', 1, 20);
+    await store.set('long', 2);
+    await new Promise((resolve) => setTimeout(resolve, 40));
+
+    expect(await store.get('short')).toBeUndefined();
+    expect(await store.get('long')).toBe(2);
+  });
+
+  it('only replaces values that still hold what was expected', async () => {
+    await store.set('family', 'jti-1');
+
+    expect(await store.compareAndSet('family', 'jti-1', 'jti-2')).toBe(true);
+    expect(await store.compareAndSet('family', 'jti-1', 'jti-3')).toBe(false);
+    expect(await store.get('family')).toBe('jti-2');
+  });
+
+  it('treats a missing key as matching only an undefined expectation', async () => {
+    expect(await store.compareAndSet('missing', 'jti-1', 'jti-2')).toBe(false);
+    expect(await store.compareAndSet('missing', undefined, 'jti-1', 200)).toBe(
+      true,
+    );
+    expect(await store.compareAndSet('missing', undefined, 'jti-2')).toBe(
+      false,
+    );
+    expect(await store.get('missing')).toBe('jti-1');
+
+    await new Promise((resolve) => setTimeout(resolve, 250));
+    expect(await store.get('missing')).toBeUndefined();
+  });
+
+  it('lists entries by prefix without the key prefix', async () => {
+    await store.set('node:a', 'a');
+    await store.set('node:b', 'b');
+    await store.set('run:c', 'c');
+
+    const entries = await store.entries<string>('node:');
+    expect(entries.sort()).toEqual([
+      ['node:a', 'a'],
+      ['node:b', 'b'],
+    ]);
+  });
+
+  it('delivers published messages to subscribers', async () => {
+    const received: unknown[] = [];
+    await store.subscribe('channel', (message) => received.push(message));
+    await store.subscribe('channel', (message) => received.push(message));
+
+    await store.publish('channel', { n: 1 });
+    await new Promise((resolve) => setTimeout(resolve, 10));
+
+    expect(received).toEqual([{ n: 1 }, { n: 1 }]);
+  });
+});
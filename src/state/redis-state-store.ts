@@ -0,0 +1,171 @@
+import { Logger } from '@nestjs/common';
+import { createAdapter } from '@socket.io/redis-adapter';
+import Redis from 'ioredis';
+import { StateMessageHandler, StateStore } from './state-store';
+
+/**
+ * SET the key to ARGV[2] (expiring after ARGV[3] ms, if given) only when it
+ * holds ARGV[1], or is missing and ARGV[1] is empty; returns 1 if it was set
+ */
+const COMPARE_AND_SET = `
+if (redis.call('GET', KEYS[1]) or '') ~= ARGV[1] then
+  return 0
+end
+if ARGV[3] ~= '' then
+  redis.call('SET', KEYS[1], ARGV[2], 'PX', ARGV[3])
+else
+  redis.call('SET', KEYS[1], ARGV[2])
+end
+return 1
+`;
+
+/**
+ * Store shared through a Redis-compatible server (Redis, Valkey, KeyDB).
+ * Keys and channels are namespaced by keyPrefix so several deployments
+ * can share one server.
+ */
+export class RedisStateStore extends StateStore {
+  private readonly logger = new Logger(RedisStateStore.name);
+  private readonly client: Redis;
+  private readonly subscriber: Redis;
+  private readonly adapterSubscriber: Redis;
+  private readonly handlers = new Map<string, StateMessageHandler[]>();
+
+  constructor(
+    readonly nodeId: string,
+    url: string,
+    private readonly keyPrefix: string,
+  ) {
+    super();
+    this.client = new Redis(url);
+    this.subscriber = this.client.duplicate();
+    this.adapterSubscriber = this.client.duplicate();
+
+    [this.client, this.subscriber, this.adapterSubscriber].forEach((redis) =>
+      redis.on('error', (error) =>
+        this.logger.error(`Redis connection error: ${error.message}`),
+      ),
+    );
+
+    this.subscriber.on('message', (channel: string, raw: string) => {
+      const handlers = this.handlers.get(channel);
+      if (!handlers) return;
+
+      let message: unknown;
+      try {
+        message = JSON.parse(raw);
+      } catch {
+        this.logger.warn(`Ignoring malformed message on ${channel}`);
+        return;
+      }
+      handlers.forEach((handler) => handler(message));
+    });
+  }
+
+  async get<T>(key: string): Promise<T | undefined> {
+    const raw = await this.client.get(this.keyPrefix + key);
+    return raw === null ? undefined : (JSON.parse(raw) as T);
+  }
+
+  async set(key: string, value: unknown, ttl?: number): Promise<void> {
+    const raw = JSON.stringify(value);
+    if (ttl) {
+      await this.client.set(this.keyPrefix + key, raw, 'PX', Math.ceil(ttl));
+    } else {
+      await this.client.set(this.keyPrefix + key, raw);
+    }
+  }
+
+  async delete(key: string): Promise<void> {
+    await this.client.del(this.keyPrefix + key);
+  }
+
+  async compareAndSet(
+    key: string,
+    expected: unknown,
+    value: unknown,
+    ttl?: number,
+  ): Promise<boolean> {
+    const set = await this.client.eval(
+      COMPARE_AND_SET,
+      1,
+      this.keyPrefix + key,
+      // Serialized values are never empty, so '' stands for a missing key
+      expected === undefined ? '' : JSON.stringify(expected),
+      JSON.stringify(value),
+      ttl ? Math.ceil(ttl) : '',
+    );
+    return set === 1;
+  }
+
+  async entries<T>(prefix: string): Promise<Array<[string, T]>> {
+    const keys: string[] = [];
+    let cursor = '0';
+    do {
+      const [next, batch] = await this.client.scan(
+        cursor,
+        'MATCH',
+        `${escapePattern(this.keyPrefix + prefix)}*`,
+        'COUNT',
+        100,
+      );
+      cursor = next;
+      keys.push(...batch);
+    } while (cursor !== '0');
+
+    const unique = [...new Set(keys)];
+    if (unique.length === 0) return [];
+
+    // Keys may expire between SCAN and MGET
+    const values = await this.client.mget(...unique);
+    return unique.flatMap((key, index): Array<[string, T]> => {
+      const raw = values[index];
+      return raw === null
+        ? []
+        : [[key.slice(this.keyPrefix.length), JSON.parse(raw) as T]];
+    });
+  }
+
+  async publish(channel: string, message: unknown): Promise<void> {
+    await this.client.publish(
+      this.keyPrefix + channel,
+      JSON.stringify(message),
+    );
+  }
+
+  async subscribe(
+    channel: string,
+    handler: StateMessageHandler,
+  ): Promise<void> {
+    const name = this.keyPrefix + channel;
+    const handlers = this.handlers.get(name);
+    if (handlers) {
+      handlers.push(handler);
+      return;
+    }
+
+    this.handlers.set(name, [handler]);
+    await this.subscriber.subscribe(name);
+  }
+
+  createAdapter() {
+    return createAdapter(this.client, this.adapterSubscriber, {
+      key: `${this.keyPrefix}socket.io`,
+    });
+  }
+
+  async close(): Promise<void> {
+    await Promise.all(
+      [this.client, this.subscriber, this.adapterSubscriber].map((redis) =>
+        redis.quit().catch(() => redis.disconnect()),
+      ),
+    );
+  }
+}
+
+/**
+ * Escape glob metacharacters so a literal prefix can be used with MATCH
+ */
+function escapePattern(value: string): string {
+  return value.replace(/[*?[\]\\]/g, '\\$&');
+}
@@ -0,0 +1,27 @@
+import { INestApplicationContext } from '@nestjs/common';
+import { IoAdapter } from '@nestjs/platform-socket.io';
+import { Server, ServerOptions } from 'socket.io';
+import { StateStore } from './state-store';
+
+/**
+ * Socket.IO adapter that lets the state store share rooms and broadcasts
+ * between nodes, so server.emit() and server.to(socketId) reach sockets
+ * connected to any node
+ */
+export class StateIoAdapter extends IoAdapter {
+  constructor(
+    app: INestApplicationContext,
+    private readonly store: StateStore,
+  ) {
+    super(app);
+  }
+
+  createIOServer(port: number, options?: ServerOptions): Server {
+    const server = super.createIOServer(port, options) as Server;
+    const adapter = this.store.createAdapter();
+    if (adapter) {
+      server.adapter(adapter);
+    }
+    return server;
+  }
+}
@@ -0,0 +1,57 @@
+import { ServerOptions } from 'socket.io';
+
+export type StateMessageHandler = (message: unknown) => void;
+
+/**
+ * Key/value state and pub/sub shared by every face server node. Values
+ * are JSON-serializable; channels deliver to subscribers on all nodes,
+ * including the publisher.
+ */
+export abstract class StateStore {
+  /** Identifies this process among the nodes sharing the store */
+  abstract readonly nodeId: string;
+
+  abstract get<T>(key: string): Promise<T | undefined>;
+
+  /**
+   * Store a value, forgotten after ttl ms if one is given
+   */
+  abstract set(key: string, value: unknown, ttl?: number): Promise<void>;
+
+  abstract delete(key: string): Promise<void>;
+
+  /**
+   * Atomically replace a value, but only if it currently equals expected
+   * (undefined expecting the key to be missing); resolves with whether it
+   * was replaced
+   */
+  abstract compareAndSet(
+    key: string,
+    expected: unknown,
+    value: unknown,
+    ttl?: number,
+  ): Promise<boolean>;
+
+  /**
+   * Every live entry whose key starts with prefix
+   */
+  abstract entries<T>(prefix: string): Promise<Array<[string, T]>>;
+
+  abstract publish(channel: string, message: unknown): Promise<void>;
+
+  abstract subscribe(
+    channel: string,
+    handler: StateMessageHandler,
+  ): Promise<void>;
+
+  /**
+   * Socket.IO adapter sharing rooms and broadcasts across nodes, or
+   * undefined to keep the default in-process adapter
+   */
+  abstract createAdapter(): ServerOptions['adapter'] | undefined;
+
+  /**
+   * Release connections held by the store
+   */
+  abstract close(): Promise<void>;
+}
@@ -0,0 +1,50 @@
+import { Global, Inject, Module, OnModuleDestroy } from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import { hostname } from 'os';
+import { ClusterService } from './cluster.service';
+import { MemoryStateStore } from './memory-state-store';
+import { RedisStateStore } from './redis-state-store';
+import { StateStore } from './state-store';
+
+/**
+ * Shared state for running several face server nodes. STATE_STORE picks
+ * the backend: "memory" (default, single node) or "redis".
+ */
+@Global()
+@Module({
+  providers: [
+    {
+      provide: StateStore,
+      inject: [ConfigService],
+      useFactory: (config: ConfigService): StateStore => {
+        const nodeId = config.get<string>(
+          'NODE_ID',
+          `${hostname()}-${process.pid}`,
+        );
+        const backend = config.get<string>('STATE_STORE', 'memory');
+
+        switch (backend) {
+          case 'memory':
+            return new MemoryStateStore(nodeId);
+          case 'redis':
+            return new RedisStateStore(
+              nodeId,
+              config.get<string>('REDIS_URL', 'redis://localhost:6379'),
+              config.get<string>('REDIS_KEY_PREFIX', 'face:'),
+            );
+          default:
+            throw new Error(`Unknown STATE_STORE: ${backend}`);
+        }
+      },
+    },
+    ClusterService,
+  ],
+  exports: [StateStore, ClusterService],
+})
+export class StateModule implements OnModuleDestroy {
+  constructor(@Inject(StateStore) private readonly store: StateStore) {}
+
+  async onModuleDestroy(): Promise<void> {
+    await this.store.close();
+  }
+}
@@ -0,0 +1,7 @@
+import { IsIn, IsOptional } from 'class-validator';
+
+export class ExportTranscriptQueryDto {
+  @IsOptional()
+  @IsIn(['json', 'markdown'])
+  format: 'json' | 'markdown' = 'json';
+}
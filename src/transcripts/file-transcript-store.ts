@@ -0,0 +1,101 @@
+import { Logger } from '@nestjs/common';
+import { appendFile, FileHandle, mkdir, open, readdir } from 'fs/promises';
+import { join } from 'path';
+import { createInterface } from 'readline';
+import { TranscriptEntry, TranscriptStore } from './transcript-store';
+
+const EXTENSION = '.jsonl';
+
+/**
+ * Transcripts as JSON Lines files, one per session, named by the
+ * base64url session key. Appends to a file are serialized, so entries
+ * keep the order they were recorded in.
+ */
+export class FileTranscriptStore extends TranscriptStore {
+  private readonly logger = new Logger(FileTranscriptStore.name);
+  private readonly writes = new Map<string, Promise<void>>();
+  private ready?: Promise<void>;
+
+  constructor(private readonly dir: string) {
+    super();
+  }
+
+  append(entry: TranscriptEntry): Promise<void> {
+    const path = this.pathFor(entry.sessionKey);
+    const write = (this.writes.get(path) ?? this.init())
+      .catch(() => undefined)
+      .then(() => appendFile(path, `${JSON.stringify(entry)}\n`, 'utf-8'));
+
+    this.writes.set(path, write);
+    void write
+      .catch(() => undefined)
+      .then(() => {
+        if (this.writes.get(path) === write) this.writes.delete(path);
+      });
+    return write;
+  }
+
+  async sessions(): Promise<string[]> {
+    await this.init();
+    const files = await readdir(this.dir);
+    return files
+      .filter((file) => file.endsWith(EXTENSION))
+      .map((file) =>
+        Buffer.from(file.slice(0, -EXTENSION.length), 'base64url').toString(
+          'utf-8',
+        ),
+      );
+  }
+
+  async read(sessionKey: string): Promise<TranscriptEntry[]> {
+    const entries: TranscriptEntry[] = [];
+    for await (const entry of this.scan(sessionKey)) entries.push(entry);
+    return entries;
+  }
+
+  async *scan(sessionKey: string): AsyncIterable<TranscriptEntry> {
+    const path = this.pathFor(sessionKey);
+    await this.writes.get(path)?.catch(() => undefined);
+
+    let handle: FileHandle;
+    try {
+      handle = await open(path, 'r');
+    } catch (error) {
+      if ((error as NodeJS.ErrnoException).code === 'ENOENT') return;
+      throw error;
+    }
+
+    const stream = handle.createReadStream({ encoding: 'utf-8' });
+    const lines = createInterface({ input: stream, crlfDelay: Infinity });
+    let index = 0;
+    try {
+      for await (const line of lines) {
+        index++;
+        if (!line.trim()) continue;
+        let entry: TranscriptEntry;
+        try {
+          entry = JSON.parse(line) as TranscriptEntry;
+        } catch {
+          this.logger.warn(`Skipping malformed line ${index} of ${path}`);
+          continue;
+        }
+        yield entry;
+      }
+    } finally {
+      lines.close();
+      stream.destroy();
+    }
+  }
+
+  private init(): Promise<void> {
+    this.ready ??= mkdir(this.dir, { recursive: true }).then(() => undefined);
+    return this.ready;
+  }
+
+  private pathFor(sessionKey: string): string {
+    return join(
+      this.dir,
+      `${Buffer.from(sessionKey, 'utf-8').toString('base64url')}${EXTENSION}`,
+    );
+  }
+}
@@ -0,0 +1,24 @@
+import { TranscriptEntry, TranscriptStore } from './transcript-store';
+
+/**
+ * Transcripts kept in process memory, lost on restart
+ */
+export class MemoryTranscriptStore extends TranscriptStore {
+  private readonly transcripts = new Map<string, TranscriptEntry[]>();
+
+  append(entry: TranscriptEntry): Promise<void> {
+    const entries = this.transcripts.get(entry.sessionKey) ?? [];
+    entries.push({ ...entry });
+    this.transcripts.set(entry.sessionKey, entries);
+    return Promise.resolve();
+  }
+
+  sessions(): Promise<string[]> {
+    return Promise.resolve([...this.transcripts.keys()]);
+  }
+
+  read(sessionKey: string): Promise<TranscriptEntry[]> {
+    const entries = this.transcripts.get(sessionKey) ?? [];
+    return Promise.resolve(entries.map((entry) => ({ ...entry })));
+  }
+}
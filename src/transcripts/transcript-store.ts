@@ -0,0 +1,53 @@
+export type TranscriptRole = 'user' | 'assistant';
+
+/**
+ * How an assistant response ended
+ */
+export type TranscriptOutcome = 'complete' | 'cancelled' | 'error';
+
+/**
+ * One recorded message of a conversation
+ */
+export interface TranscriptEntry {
+  sessionKey: string;
+  role: TranscriptRole;
+  runId: string;
+  /** Client message id, on user messages */
+  messageId?: string;
+  text: string;
+  /** Files sent with a user message */
+  attachments?: Array<{ fileName: string; mimeType: string }>;
+  /** Set on assistant responses */
+  outcome?: TranscriptOutcome;
+  error?: unknown;
+  /** Token subject that started the run */
+  subject: string | null;
+  gateway: string;
+  at: number;
+}
+
+/**
+ * Durable record of the conversations relayed through the face server,
+ * one append-only list of entries per session key
+ */
+export abstract class TranscriptStore {
+  abstract append(entry: TranscriptEntry): Promise<void>;
+
+  /**
+   * Every session key with recorded entries
+   */
+  abstract sessions(): Promise<string[]>;
+
+  /**
+   * A session's entries in the order they were recorded
+   */
+  abstract read(sessionKey: string): Promise<TranscriptEntry[]>;
+
+  /**
+   * A session's entries in the order they were recorded, one at a time,
+   * so a caller that stops early needn't load the whole session
+   */
+  async *scan(sessionKey: string): AsyncIterable<TranscriptEntry> {
+    yield* await this.read(sessionKey);
+  }
+}
@@ -0,0 +1,96 @@
+import {
+  Controller,
+  ForbiddenException,
+  Get,
+  NotFoundException,
+  Param,
+  Query,
+  Req,
+  Res,
+  UseGuards,
+} from '@nestjs/common';
+import { AuthGuard } from '@nestjs/passport';
+import type { Response } from 'express';
+import { TokenPayload } from '../auth/interfaces/token-payload.interface';
+import { ExportTranscriptQueryDto } from './dto/export-transcript-query.dto';
+import { ListTranscriptsQueryDto } from './dto/list-transcripts-query.dto';
+import { SearchTranscriptsQueryDto } from './dto/search-transcripts-query.dto';
+import { TranscriptsService } from './transcripts.service';
+
+/**
+ * Recorded conversations. Tokens with the history scope see the
+ * conversations their subject started; the admin scope sees all of them.
+ */
+@Controller('transcripts')
+@UseGuards(AuthGuard('jwt'))
+export class TranscriptsController {
+  constructor(private readonly transcriptsService: TranscriptsService) {}
+
+  /**
+   * List conversations, most recently updated first
+   * GET /transcripts?limit=50&offset=0
+   */
+  @Get()
+  list(
+    @Query() query: ListTranscriptsQueryDto,
+    @Req() req: { user: TokenPayload },
+  ) {
+    return this.transcriptsService.conversations(this.subjectFor(req.user), {
+      limit: query.limit,
+      offset: query.offset,
+    });
+  }
+
+  /**
+   * Full-text search of recorded messages
+   * GET /transcripts/search?q=...&sessionKey=...&limit=50
+   */
+  @Get('search')
+  search(
+    @Query() query: SearchTranscriptsQueryDto,
+    @Req() req: { user: TokenPayload },
+  ) {
+    return this.transcriptsService.search(query.q, this.subjectFor(req.user), {
+      limit: query.limit,
+      sessionKey: query.sessionKey,
+    });
+  }
+
+  /**
+   * Download a conversation as JSON or Markdown
+   * GET /transcripts/:sessionKey/export?format=json|markdown
+   */
+  @Get(':sessionKey/export')
+  async export(
+    @Param('sessionKey') sessionKey: string,
+    @Query() query: ExportTranscriptQueryDto,
+    @Req() req: { user: TokenPayload },
+    @Res({ passthrough: true }) res: Response,
+  ) {
+    const entries = await this.transcriptsService.conversation(
+      sessionKey,
+      this.subjectFor(req.user),
+    );
+    if (!entries) {
+      throw new NotFoundException(`No transcript for session ${sessionKey}`);
+    }
+
+    const fileName = sessionKey.replace(/[^A-Za-z0-9_.-]+/g, '_');
+    if (query.format === 'markdown') {
+      res.attachment(`${fileName}.md`).type('text/markdown');
+      return this.transcriptsService.toMarkdown(sessionKey, entries);
+    }
+
+    res.attachment(`${fileName}.json`);
+    return { sessionKey, exportedAt: Date.now(), messages: entries };
+  }
+
+  /**
+   * Subject whose conversations the token may read, undefined for all
+   */
+  private subjectFor(user: TokenPayload): string | undefined {
+    if (user.scopes.includes('admin')) return undefined;
+    if (user.scopes.includes('history')) return user.sub;
+    throw new ForbiddenException('Missing scope: history');
+  }
+}
@@ -0,0 +1,38 @@
+import { Module } from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import { FileTranscriptStore } from './file-transcript-store';
+import { MemoryTranscriptStore } from './memory-transcript-store';
+import { TranscriptStore } from './transcript-store';
+import { TranscriptsController } from './transcripts.controller';
+import { TranscriptsService } from './transcripts.service';
+
+/**
+ * Conversation transcripts. TRANSCRIPT_STORE picks the backend: "file"
+ * (default, JSON Lines under TRANSCRIPTS_DIR) or "memory".
+ */
+@Module({
+  providers: [
+    {
+      provide: TranscriptStore,
+      inject: [ConfigService],
+      useFactory: (config: ConfigService): TranscriptStore => {
+        const backend = config.get<string>('TRANSCRIPT_STORE', 'file');
+
+        switch (backend) {
+          case 'file':
+            return new FileTranscriptStore(
+              config.get<string>('TRANSCRIPTS_DIR', './data/transcripts'),
+            );
+          case 'memory':
+            return new MemoryTranscriptStore();
+          default:
+            throw new Error(`Unknown TRANSCRIPT_STORE: ${backend}`);
+        }
+      },
+    },
+    TranscriptsService,
+  ],
+  controllers: [TranscriptsController],
+  exports: [TranscriptsService],
+})
+export class TranscriptsModule {}
@@ -0,0 +1,291 @@
+import { BadRequestException } from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import { appendFileSync, mkdtempSync, rmSync } from 'fs';
+import { tmpdir } from 'os';
+import { join } from 'path';
+import { FileTranscriptStore } from './file-transcript-store';
+import { MemoryTranscriptStore } from './memory-transcript-store';
+import { TranscriptEntry, TranscriptStore } from './transcript-store';
+import { TranscriptsService } from './transcripts.service';
+
+function entry(
+  sessionKey: string,
+  at: number,
+  overrides: Partial<TranscriptEntry> = {},
+): TranscriptEntry {
+  return {
+    sessionKey,
+    role: 'user',
+    runId: `run-${at}`,
+    text: `message ${at}`,
+    subject: 'alice',
+    gateway: 'main',
+    at,
+    ...overrides,
+  };
+}
+
+describe('TranscriptsService', () => {
+  let store: TranscriptStore;
+  let transcripts: TranscriptsService;
+
+  function createService(env: Record<string, unknown> = {}) {
+    return new TranscriptsService(new ConfigService(env), store);
+  }
+
+  async function seed(...entries: TranscriptEntry[]): Promise<void> {
+    for (const item of entries) await store.append(item);
+  }
+
+  beforeEach(() => {
+    store = new MemoryTranscriptStore();
+    transcripts = createService();
+  });
+
+  it('records entries with the time they were relayed', async () => {
+    jest.spyOn(Date, 'now').mockReturnValue(1000);
+    try {
+      const { sessionKey, role, runId, text, subject, gateway } = entry(
+        'main',
+        1,
+      );
+      transcripts.record({ sessionKey, role, runId, text, subject, gateway });
+    } finally {
+      jest.restoreAllMocks();
+    }
+
+    await expect(store.read('main')).resolves.toEqual([
+      { ...entry('main', 1), at: 1000 },
+    ]);
+  });
+
+  describe('conversations', () => {
+    beforeEach(async () => {
+      await seed(
+        entry('old', 1, { text: 'hello there' }),
+        entry('old', 2, { role: 'assistant', text: 'hi', gateway: 'other' }),
+        entry('new', 3, { subject: null }),
+        entry('new', 4, { subject: 'bob' }),
+      );
+    });
+
+    it('lists summaries, most recently updated first', async () => {
+      await expect(
+        transcripts.conversations(undefined, { limit: 10, offset: 0 }),
+      ).resolves.toEqual({
+        conversations: [
+          expect.objectContaining({ sessionKey: 'new', subject: 'bob' }),
+          {
+            sessionKey: 'old',
+            subject: 'alice',
+            gateway: 'other',
+            messages: 2,
+            startedAt: 1,
+            updatedAt: 2,
+            preview: 'hello there',
+          },
+        ],
+        total: 2,
+      });
+    });
+
+    it("lists only the subject's conversations", async () => {
+      const { conversations, total } = await transcripts.conversations('bob', {
+        limit: 10,
+        offset: 0,
+      });
+
+      expect(conversations.map(({ sessionKey }) => sessionKey)).toEqual([
+        'new',
+      ]);
+      expect(total).toBe(1);
+    });
+
+    it('pages through the list', async () => {
+      const { conversations, total } = await transcripts.conversations(
+        undefined,
+        { limit: 1, offset: 1 },
+      );
+
+      expect(conversations.map(({ sessionKey }) => sessionKey)).toEqual([
+        'old',
+      ]);
+      expect(total).toBe(2);
+    });
+  });
+
+  it("returns a conversation only to its owner, or to everyone's", async () => {
+    await seed(entry('main', 1));
+
+    await expect(transcripts.conversation('main', 'alice')).resolves.toEqual([
+      entry('main', 1),
+    ]);
+    await expect(transcripts.conversation('main', undefined)).resolves.toEqual([
+      entry('main', 1),
+    ]);
+    await expect(transcripts.conversation('main', 'bob')).resolves.toBeNull();
+    await expect(
+      transcripts.conversation('unknown', undefined),
+    ).resolves.toBeNull();
+  });
+
+  describe('search', () => {
+    beforeEach(async () => {
+      await seed(
+        entry('main', 1, { text: 'The Quick brown fox' }),
+        entry('main', 2, { role: 'assistant', text: 'A quick reply' }),
+        entry('other', 3, { subject: 'bob', text: 'quick fox' }),
+        entry('other', 4, { subject: null, text: 'slow fox' }),
+      );
+    });
+
+    it('finds messages containing every term, newest first', async () => {
+      const { results, truncated } = await transcripts.search(
+        '  QUICK  fox ',
+        undefined,
+        { limit: 10 },
+      );
+
+      expect(results).toEqual([
+        {
+          sessionKey: 'other',
+          role: 'user',
+          runId: 'run-3',
+          at: 3,
+          snippet: 'quick fox',
+        },
+        expect.objectContaining({ sessionKey: 'main', at: 1 }),
+      ]);
+      expect(truncated).toBe(false);
+    });
+
+    it("searches only the subject's conversations", async () => {
+      const { results } = await transcripts.search('fox', 'alice', {
+        limit: 10,
+      });
+
+      expect(results.map(({ at }) => at)).toEqual([1]);
+    });
+
+    it('narrows the search to a session and the newest results', async () => {
+      const { results } = await transcripts.search('quick', undefined, {
+        limit: 1,
+        sessionKey: 'main',
+      });
+
+      expect(results.map(({ at }) => at)).toEqual([2]);
+    });
+
+    it('cuts the snippet around the first term', async () => {
+      await seed(entry('long', 5, { text: `${'a'.repeat(100)} needle` }));
+
+      const { results } = await transcripts.search('needle', undefined, {
+        limit: 1,
+      });
+
+      expect(results[0].snippet).toBe(`…${'a'.repeat(59)} needle`);
+    });
+
+    it('refuses a blank query', async () => {
+      await expect(
+        transcripts.search(' \t ', undefined, { limit: 10 }),
+      ).rejects.toThrow(BadRequestException);
+    });
+
+    it('stops scanning at the match cap', async () => {
+      const capped = createService({ TRANSCRIPT_SEARCH_MAX_MATCHES: 2 });
+
+      await expect(
+        capped.search('fox', undefined, { limit: 10 }),
+      ).resolves.toEqual({
+        results: [
+          expect.objectContaining({ at: 3 }),
+          expect.objectContaining({ at: 1 }),
+        ],
+        truncated: true,
+      });
+      await expect(
+        capped.search('quick', undefined, { limit: 10, sessionKey: 'main' }),
+      ).resolves.toMatchObject({ truncated: false });
+    });
+  });
+
+  it('renders a conversation as Markdown', () => {
+    const markdown = transcripts.toMarkdown('main', [
+      entry('main', 0, {
+        text: 'Look at this',
+        attachments: [{ fileName: 'a.png', mimeType: 'image/png' }],
+      }),
+      entry('main', 1000, {
+        role: 'assistant',
+        text: 'Nice',
+        outcome: 'cancelled',
+      }),
+    ]);
+
+    expect(markdown).toBe(
+      [
+        '# Conversation main',
+        '',
+        '- Subject: alice',
+        '- Started: 1970-01-01T00:00:00.000Z',
+        '',
+        '## User (1970-01-01T00:00:00.000Z)',
+        '',
+        'Look at this',
+        '',
+        '- Attachment: a.png (image/png)',
+        '',
+        '## Assistant (1970-01-01T00:00:01.000Z)',
+        '',
+        'Nice',
+        '',
+        '_Response cancelled_',
+        '',
+      ].join('\n'),
+    );
+  });
+
+  describe('with the file store', () => {
+    let dir: string;
+
+    beforeEach(() => {
+      dir = mkdtempSync(join(tmpdir(), 'transcripts-'));
+      store = new FileTranscriptStore(dir);
+      transcripts = createService({ TRANSCRIPT_SEARCH_MAX_MATCHES: 1 });
+    });
+
+    afterEach(() => {
+      rmSync(dir, { recursive: true, force: true });
+    });
+
+    it('reads sessions back in order, skipping malformed lines', async () => {
+      await seed(entry('face:web:main', 1), entry('face:web:main', 2));
+      const file = join(
+        dir,
+        `${Buffer.from('face:web:main').toString('base64url')}.jsonl`,
+      );
+      appendFileSync(file, 'not json\n\n');
+      await seed(entry('face:web:main', 3));
+
+      await expect(store.sessions()).resolves.toEqual(['face:web:main']);
+      await expect(store.read('face:web:main')).resolves.toEqual([
+        entry('face:web:main', 1),
+        entry('face:web:main', 2),
+        entry('face:web:main', 3),
+      ]);
+      await expect(store.read('unknown')).resolves.toEqual([]);
+    });
+
+    it('stops reading a session once the search is capped', async () => {
+      await seed(entry('main', 1), entry('main', 2), entry('main', 3));
+
+      await expect(
+        transcripts.search('message', 'alice', { limit: 10 }),
+      ).resolves.toEqual({
+        results: [expect.objectContaining({ at: 1 })],
+        truncated: true,
+      });
+    });
+  });
+});
@@ -0,0 +1,256 @@
+import { BadRequestException, Injectable, Logger } from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import {
+  TranscriptEntry,
+  TranscriptRole,
+  TranscriptStore,
+} from './transcript-store';
+
+const PREVIEW_LENGTH = 120;
+const SNIPPET_CONTEXT = 60;
+
+/**
+ * A recorded conversation, for listings
+ */
+export interface ConversationSummary {
+  sessionKey: string;
+  /** Subject that started the conversation */
+  subject: string | null;
+  /** Gateway of the latest entry */
+  gateway: string;
+  messages: number;
+  startedAt: number;
+  updatedAt: number;
+  /** Start of the first user message */
+  preview: string;
+}
+
+/**
+ * A recorded message matching a search
+ */
+export interface TranscriptMatch {
+  sessionKey: string;
+  role: TranscriptRole;
+  runId: string;
+  messageId?: string;
+  at: number;
+  /** Text around the first matching term */
+  snippet: string;
+}
+
+/**
+ * Messages matching a search. Truncated once a search found more than
+ * TRANSCRIPT_SEARCH_MAX_MATCHES, the results then being the newest of
+ * those found so far.
+ */
+export interface TranscriptSearchResults {
+  results: TranscriptMatch[];
+  truncated: boolean;
+}
+
+/**
+ * Records relayed conversations into the transcript store, and lists,
+ * searches and exports them. Conversations belong to the subject that
+ * started them; passing no subject sees every conversation.
+ */
+@Injectable()
+export class TranscriptsService {
+  private readonly logger = new Logger(TranscriptsService.name);
+  private readonly searchMaxMatches: number;
+
+  constructor(
+    private readonly configService: ConfigService,
+    private readonly store: TranscriptStore,
+  ) {
+    this.searchMaxMatches = Number(
+      this.configService.get('TRANSCRIPT_SEARCH_MAX_MATCHES', 1000),
+    );
+  }
+
+  /**
+   * Append an entry in the background, logging failures
+   */
+  record(entry: Omit<TranscriptEntry, 'at'>): void {
+    this.store.append({ ...entry, at: Date.now() }).catch((error) => {
+      this.logger.error(
+        `Failed to record ${entry.role} message of run ${entry.runId}: ${(error as Error).message}`,
+      );
+    });
+  }
+
+  /**
+   * Conversations, most recently updated first
+   */
+  async conversations(
+    subject: string | undefined,
+    options: { limit: number; offset: number },
+  ): Promise<{ conversations: ConversationSummary[]; total: number }> {
+    const summaries: ConversationSummary[] = [];
+    for (const sessionKey of await this.store.sessions()) {
+      const entries = await this.visibleEntries(sessionKey, subject);
+      if (entries.length) summaries.push(summarize(sessionKey, entries));
+    }
+
+    summaries.sort((a, b) => b.updatedAt - a.updatedAt);
+    return {
+      conversations: summaries.slice(
+        options.offset,
+        options.offset + options.limit,
+      ),
+      total: summaries.length,
+    };
+  }
+
+  /**
+   * Messages containing every term of the query (case-insensitive),
+   * newest first. Sessions are read line by line, and the scan stops at
+   * TRANSCRIPT_SEARCH_MAX_MATCHES matches.
+   */
+  async search(
+    query: string,
+    subject: string | undefined,
+    options: { limit: number; sessionKey?: string },
+  ): Promise<TranscriptSearchResults> {
+    const terms = query.trim().toLowerCase().split(/\s+/).filter(Boolean);
+    if (!terms.length) throw new BadRequestException('Search query is empty');
+
+    const sessionKeys = options.sessionKey
+      ? [options.sessionKey]
+      : await this.store.sessions();
+
+    const matches: TranscriptMatch[] = [];
+    for (const sessionKey of sessionKeys) {
+      for await (const entry of this.scanVisible(sessionKey, subject)) {
+        const text = entry.text.toLowerCase();
+        if (!terms.every((term) => text.includes(term))) continue;
+        if (matches.length === this.searchMaxMatches) {
+          return { results: newest(matches, options.limit), truncated: true };
+        }
+
+        matches.push({
+          sessionKey,
+          role: entry.role,
+          runId: entry.runId,
+          ...(entry.messageId && { messageId: entry.messageId }),
+          at: entry.at,
+          snippet: snippet(entry.text, text.indexOf(terms[0])),
+        });
+      }
+    }
+
+    return { results: newest(matches, options.limit), truncated: false };
+  }
+
+  /**
+   * A conversation's entries, or null if it has none the subject may see
+   */
+  async conversation(
+    sessionKey: string,
+    subject: string | undefined,
+  ): Promise<TranscriptEntry[] | null> {
+    const entries = await this.visibleEntries(sessionKey, subject);
+    return entries.length ? entries : null;
+  }
+
+  /**
+   * Render a conversation as Markdown, one section per message
+   */
+  toMarkdown(sessionKey: string, entries: TranscriptEntry[]): string {
+    const lines = [`# Conversation ${sessionKey}`, ''];
+    const { subject, startedAt } = summarize(sessionKey, entries);
+    if (subject) lines.push(`- Subject: ${subject}`);
+    lines.push(`- Started: ${new Date(startedAt).toISOString()}`, '');
+
+    entries.forEach((entry) => {
+      const heading = entry.role === 'user' ? 'User' : 'Assistant';
+      lines.push(`## ${heading} (${new Date(entry.at).toISOString()})`, '');
+      if (entry.text) lines.push(entry.text, '');
+      entry.attachments?.forEach((attachment) =>
+        lines.push(
+          `- Attachment: ${attachment.fileName} (${attachment.mimeType})`,
+        ),
+      );
+      if (entry.attachments?.length) lines.push('');
+      if (entry.outcome && entry.outcome !== 'complete') {
+        lines.push(`_Response ${entry.outcome}_`, '');
+      }
+    });
+
+    return lines.join('\n');
+  }
+
+  private async visibleEntries(
+    sessionKey: string,
+    subject: string | undefined,
+  ): Promise<TranscriptEntry[]> {
+    const entries = await this.store.read(sessionKey);
+    if (subject === undefined || ownerOf(entries) === subject) return entries;
+    return [];
+  }
+
+  /**
+   * A session's entries as they are read, if the subject may see them.
+   * Entries before the first one with a subject wait until the owner is
+   * known.
+   */
+  private async *scanVisible(
+    sessionKey: string,
+    subject: string | undefined,
+  ): AsyncIterable<TranscriptEntry> {
+    if (subject === undefined) {
+      yield* this.store.scan(sessionKey);
+      return;
+    }
+
+    const unowned: TranscriptEntry[] = [];
+    let owner: string | null = null;
+    for await (const entry of this.store.scan(sessionKey)) {
+      if (owner === null) {
+        if (entry.subject === null) {
+          unowned.push(entry);
+          continue;
+        }
+        owner = entry.subject;
+        if (owner !== subject) return;
+        yield* unowned;
+      }
+      yield entry;
+    }
+  }
+}
+
+function ownerOf(entries: TranscriptEntry[]): string | null {
+  return entries.find((entry) => entry.subject !== null)?.subject ?? null;
+}
+
+function summarize(
+  sessionKey: string,
+  entries: TranscriptEntry[],
+): ConversationSummary {
+  const first = entries[0];
+  const last = entries[entries.length - 1];
+  const firstMessage = entries.find((entry) => entry.role === 'user');
+
+  return {
+    sessionKey,
+    subject: ownerOf(entries),
+    gateway: last.gateway,
+    messages: entries.length,
+    startedAt: first.at,
+    updatedAt: last.at,
+    preview: (firstMessage?.text ?? '').slice(0, PREVIEW_LENGTH),
+  };
+}
+
+function newest(matches: TranscriptMatch[], limit: number): TranscriptMatch[] {
+  return matches.sort((a, b) => b.at - a.at).slice(0, limit);
+}
+
+/**
+ * Up to SNIPPET_CONTEXT characters either side of a match
+ */
+function snippet(text: string, index: number): string {
+  const start = Math.max(0, index - SNIPPET_CONTEXT);
+  const end = Math.min(text.length, index + SNIPPET_CONTEXT);
+  return `${start > 0 ? '…' : ''}${text.slice(start, end)}${end < text.length ? '…' : ''}`;
+}
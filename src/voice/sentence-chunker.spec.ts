@@ -0,0 +1,68 @@
+import { SentenceChunker, sentenceBoundaries } from './sentence-chunker';
+
+describe('SentenceChunker', () => {
+  it('releases each sentence as soon as it is complete', () => {
+    const chunker = new SentenceChunker();
+
+    expect(chunker.push('Hello there, how')).toEqual([]);
+    expect(chunker.push(' are you? I am fine')).toEqual([
+      'Hello there, how are you?',
+    ]);
+    expect(chunker.push('. Thanks!\nBye')).toEqual(['I am fine.', 'Thanks!']);
+    expect(chunker.flush()).toBe('Bye');
+    expect(chunker.flush()).toBe('');
+  });
+
+  it('waits for whitespace after closing punctuation and quotes', () => {
+    const chunker = new SentenceChunker();
+
+    expect(chunker.push('She said "no way."')).toEqual([]);
+    expect(chunker.push(' Then left')).toEqual(['She said "no way."']);
+  });
+
+  it('joins short fragments to the next sentence', () => {
+    const chunker = new SentenceChunker(300, 8);
+
+    expect(chunker.push('Yes. It works now. ')).toEqual(['Yes. It works now.']);
+  });
+
+  it('does not end sentences at abbreviations', () => {
+    const chunker = new SentenceChunker();
+
+    expect(chunker.push('Ask Dr. Smith about it, e.g. today. ')).toEqual([
+      'Ask Dr. Smith about it, e.g. today.',
+    ]);
+  });
+
+  it('splits at line breaks whatever their length', () => {
+    const chunker = new SentenceChunker();
+
+    expect(chunker.push('- one\n- two\n')).toEqual(['- one', '- two']);
+  });
+
+  it('cuts long text without a boundary at a word break', () => {
+    const chunker = new SentenceChunker(20);
+
+    expect(chunker.push('a run on sentence that never seems to end')).toEqual([
+      'a run on sentence',
+      'that never seems to',
+    ]);
+    expect(chunker.flush()).toBe('end');
+  });
+});
+
+describe('sentenceBoundaries', () => {
+  it('finds sentence and line ends in order', () => {
+    const ends = sentenceBoundaries('Hi! "Really?" Yes.\n\nNo').map((match) => [
+      match.index,
+      match[0],
+    ]);
+
+    expect(ends).toEqual([
+      [2, '!'],
+      [11, '?"'],
+      [17, '.'],
+      [18, '\n\n'],
+    ]);
+  });
+});
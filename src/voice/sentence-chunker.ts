@@ -0,0 +1,100 @@
+/**
+ * Words whose trailing period doesn't end a sentence
+ */
+const ABBREVIATIONS = new Set([
+  'mr',
+  'mrs',
+  'ms',
+  'dr',
+  'prof',
+  'st',
+  'vs',
+  'etc',
+  'e.g',
+  'i.e',
+  'approx',
+  'no',
+]);
+
+/**
+ * Sentence-ending punctuation (and any closing quotes or brackets)
+ * followed by whitespace, or a line break
+ */
+const BOUNDARY = /[.!?…。！？]+["'”’)\]]*(?=\s)|\n+/g;
+
+/**
+ * Sentence and line ends in some text, in order
+ */
+export function sentenceBoundaries(text: string): RegExpExecArray[] {
+  return [...text.matchAll(BOUNDARY)];
+}
+
+/**
+ * Splits streamed text into sentences as soon as each one is complete,
+ * so it can be spoken before the rest arrives. Fragments shorter than
+ * `minLength` are joined to the next sentence, and text running past
+ * `maxLength` without a boundary is cut at a word break.
+ */
+export class SentenceChunker {
+  private pending = '';
+
+  constructor(
+    private readonly maxLength = 300,
+    private readonly minLength = 8,
+  ) {}
+
+  /**
+   * Add streamed text, returning the sentences it completed
+   */
+  push(text: string): string[] {
+    this.pending += text;
+    const sentences: string[] = [];
+
+    let sentence: string | null;
+    while ((sentence = this.next()) !== null) {
+      if (sentence) sentences.push(sentence);
+    }
+    return sentences;
+  }
+
+  /**
+   * Whatever is left once the stream has ended
+   */
+  flush(): string {
+    const rest = this.pending.trim();
+    this.pending = '';
+    return rest;
+  }
+
+  /**
+   * Take the first complete sentence off the pending text ('' for
+   * whitespace only), or null if there is none yet
+   */
+  private next(): string | null {
+    for (const match of sentenceBoundaries(this.pending)) {
+      const end = match.index + match[0].length;
+      const candidate = this.pending.slice(0, end).trim();
+      if (candidate.length < this.minLength && !match[0].startsWith('\n')) {
+        continue;
+      }
+      if (match[0].startsWith('.') && isAbbreviation(candidate)) continue;
+
+      this.pending = this.pending.slice(end);
+      return candidate;
+    }
+
+    if (this.pending.length <= this.maxLength) return null;
+
+    // No boundary in sight: cut at the last word break that fits
+    const space = this.pending.lastIndexOf(' ', this.maxLength);
+    const end = space > 0 ? space : this.maxLength;
+    const candidate = this.pending.slice(0, end).trim();
+    this.pending = this.pending.slice(end);
+    return candidate;
+  }
+}
+
+function isAbbreviation(sentence: string): boolean {
+  const word = /(\S+)\.$/.exec(sentence)?.[1];
+  return word !== undefined && ABBREVIATIONS.has(word.toLowerCase());
+}
@@ -0,0 +1,32 @@
+export interface RecognitionOptions {
+  /** Format of the audio written to the recognition */
+  mimeType: string;
+  /** Called with the transcript so far, when the provider has one */
+  onPartial: (text: string) => void;
+}
+
+/**
+ * One utterance being transcribed as its audio streams in
+ */
+export interface SpeechRecognition {
+  write(audio: Buffer): void;
+
+  /**
+   * Final transcript, once all of the utterance's audio is written
+   */
+  finish(): Promise<string>;
+
+  /**
+   * Discard the utterance
+   */
+  abort(): void;
+}
+
+/**
+ * Speech-to-text backend, selected with STT_PROVIDER
+ */
+export abstract class SpeechToTextProvider {
+  abstract readonly name: string;
+
+  abstract start(options: RecognitionOptions): SpeechRecognition;
+}
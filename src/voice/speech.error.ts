@@ -0,0 +1,9 @@
+/**
+ * An utterance that could not be accepted or transcribed
+ */
+export class SpeechError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = SpeechError.name;
+  }
+}
@@ -0,0 +1,113 @@
+import {
+  RecognitionOptions,
+  SpeechRecognition,
+  SpeechToTextProvider,
+} from './speech-to-text.provider';
+import {
+  SynthesisOptions,
+  SynthesizedSpeech,
+  TextToSpeechProvider,
+} from './text-to-speech.provider';
+
+const SAMPLE_RATE = 8000;
+const MS_PER_CHARACTER = 60;
+
+/**
+ * Deterministic speech-to-text for development and tests: audio that is
+ * UTF-8 text "transcribes" to that text, anything else to a note of its
+ * size and format
+ */
+export class StubSpeechToText extends SpeechToTextProvider {
+  readonly name = 'stub';
+
+  start({ mimeType, onPartial }: RecognitionOptions): SpeechRecognition {
+    const chunks: Buffer[] = [];
+
+    return {
+      write: (audio) => {
+        chunks.push(audio);
+        const text = asText(Buffer.concat(chunks));
+        if (text) onPartial(text);
+      },
+      finish: () => {
+        const audio = Buffer.concat(chunks);
+        return Promise.resolve(
+          asText(audio) ?? `[${audio.length} bytes of ${mimeType}]`,
+        );
+      },
+      abort: () => {
+        chunks.length = 0;
+      },
+    };
+  }
+}
+
+/**
+ * Deterministic text-to-speech for development and tests: a WAV tone
+ * lasting MS_PER_CHARACTER per character, pitched by the text and voice
+ */
+export class StubTextToSpeech extends TextToSpeechProvider {
+  readonly name = 'stub';
+  readonly mimeType = 'audio/wav';
+
+  synthesize(
+    text: string,
+    options: SynthesisOptions,
+  ): Promise<SynthesizedSpeech> {
+    const durationMs = text.length * MS_PER_CHARACTER;
+    const samples = Math.round((SAMPLE_RATE * durationMs) / 1000);
+    const frequency =
+      200 +
+      ([...`${options.voice}:${text}`].reduce(
+        (sum, character) => sum + (character.codePointAt(0) ?? 0),
+        0,
+      ) %
+        200);
+
+    const pcm = Buffer.alloc(samples * 2);
+    for (let i = 0; i < samples; i++) {
+      pcm.writeInt16LE(
+        Math.round(
+          Math.sin((2 * Math.PI * frequency * i) / SAMPLE_RATE) * 3000,
+        ),
+        i * 2,
+      );
+    }
+
+    return Promise.resolve({
+      audio: Buffer.concat([wavHeader(pcm.length), pcm]),
+      durationMs,
+    });
+  }
+}
+
+/**
+ * Audio that is printable UTF-8, as trimmed text, or null
+ */
+function asText(audio: Buffer): string | null {
+  const text = audio.toString('utf-8');
+  if (!Buffer.from(text, 'utf-8').equals(audio)) return null;
+  // eslint-disable-next-line no-control-regex
+  if (/[\u0000-\u0008\u000e-\u001f\u007f]/.test(text)) return null;
+  return text.trim();
+}
+
+/**
+ * RIFF header for mono 16-bit PCM at SAMPLE_RATE
+ */
+function wavHeader(dataBytes: number): Buffer {
+  const header = Buffer.alloc(44);
+  header.write('RIFF', 0, 'latin1');
+  header.writeUInt32LE(36 + dataBytes, 4);
+  header.write('WAVEfmt ', 8, 'latin1');
+  header.writeUInt32LE(16, 16);
+  header.writeUInt16LE(1, 20);
+  header.writeUInt16LE(1, 22);
+  header.writeUInt32LE(SAMPLE_RATE, 24);
+  header.writeUInt32LE(SAMPLE_RATE * 2, 28);
+  header.writeUInt16LE(2, 32);
+  header.writeUInt16LE(16, 34);
+  header.write('data', 36, 'latin1');
+  header.writeUInt32LE(dataBytes, 40);
+  return header;
+}
@@ -0,0 +1,27 @@
+import { VisemeFrame } from '../chat/protocol/chat-protocol';
+
+export interface SynthesisOptions {
+  voice: string;
+}
+
+export interface SynthesizedSpeech {
+  audio: Buffer;
+  durationMs: number;
+  /** Lip-sync timing, from providers that report it */
+  visemes?: VisemeFrame[];
+}
+
+/**
+ * Text-to-speech backend, selected with TTS_PROVIDER
+ */
+export abstract class TextToSpeechProvider {
+  abstract readonly name: string;
+
+  /** Format of the audio it produces */
+  abstract readonly mimeType: string;
+
+  abstract synthesize(
+    text: string,
+    options: SynthesisOptions,
+  ): Promise<SynthesizedSpeech>;
+}
@@ -0,0 +1,35 @@
+import { estimateVisemes } from './visemes';
+
+describe('estimateVisemes', () => {
+  it('shares the duration among letters, digraphs and pauses', () => {
+    expect(estimateVisemes('the map', 600)).toEqual([
+      { viseme: 'TH', offsetMs: 0, durationMs: 100 },
+      { viseme: 'E', offsetMs: 100, durationMs: 100 },
+      { viseme: 'sil', offsetMs: 200, durationMs: 100 },
+      { viseme: 'PP', offsetMs: 300, durationMs: 100 },
+      { viseme: 'aa', offsetMs: 400, durationMs: 100 },
+      { viseme: 'PP', offsetMs: 500, durationMs: 100 },
+    ]);
+  });
+
+  it('merges repeated mouth shapes', () => {
+    expect(estimateVisemes('Bomb', 400)).toEqual([
+      { viseme: 'PP', offsetMs: 0, durationMs: 100 },
+      { viseme: 'oh', offsetMs: 100, durationMs: 100 },
+      { viseme: 'PP', offsetMs: 200, durationMs: 200 },
+    ]);
+  });
+
+  it('covers the whole duration when it does not divide evenly', () => {
+    const frames = estimateVisemes('hello world', 1000);
+    const last = frames[frames.length - 1];
+
+    expect(frames[0].offsetMs).toBe(0);
+    expect(last.offsetMs + last.durationMs).toBe(1000);
+  });
+
+  it('returns no frames for empty text or no duration', () => {
+    expect(estimateVisemes('', 500)).toEqual([]);
+    expect(estimateVisemes('hi', 0)).toEqual([]);
+  });
+});
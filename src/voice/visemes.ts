@@ -0,0 +1,83 @@
+import { Viseme, VisemeFrame } from '../chat/protocol/chat-protocol';
+
+/**
+ * Letter pairs with a mouth shape of their own, checked before single
+ * letters
+ */
+const DIGRAPHS: Record<string, Viseme> = {
+  th: 'TH',
+  ch: 'CH',
+  sh: 'CH',
+  ph: 'FF',
+  ng: 'nn',
+  oo: 'ou',
+};
+
+const LETTERS: Record<string, Viseme> = {
+  p: 'PP',
+  b: 'PP',
+  m: 'PP',
+  f: 'FF',
+  v: 'FF',
+  t: 'DD',
+  d: 'DD',
+  k: 'kk',
+  g: 'kk',
+  c: 'kk',
+  q: 'kk',
+  x: 'kk',
+  h: 'kk',
+  j: 'CH',
+  s: 'SS',
+  z: 'SS',
+  n: 'nn',
+  l: 'nn',
+  r: 'RR',
+  a: 'aa',
+  e: 'E',
+  i: 'ih',
+  y: 'ih',
+  o: 'oh',
+  u: 'ou',
+  w: 'ou',
+};
+
+/**
+ * Approximate lip-sync frames for speech of `text` lasting `durationMs`,
+ * for providers that don't report viseme timing: each letter, digraph or
+ * pause gets an equal share of the time, and repeated shapes are merged
+ */
+export function estimateVisemes(
+  text: string,
+  durationMs: number,
+): VisemeFrame[] {
+  const visemes: Viseme[] = [];
+  const lower = text.toLowerCase();
+  for (let i = 0; i < lower.length; i++) {
+    const digraph = DIGRAPHS[lower.slice(i, i + 2)];
+    if (digraph) {
+      visemes.push(digraph);
+      i++;
+    } else {
+      visemes.push(LETTERS[lower[i]] ?? 'sil');
+    }
+  }
+  if (visemes.length === 0 || durationMs <= 0) return [];
+
+  const step = durationMs / visemes.length;
+  const frames: VisemeFrame[] = [];
+  visemes.forEach((viseme, index) => {
+    const last = frames[frames.length - 1];
+    if (last?.viseme === viseme) {
+      last.durationMs = Math.round((index + 1) * step) - last.offsetMs;
+      return;
+    }
+    const offsetMs = Math.round(index * step);
+    frames.push({
+      viseme,
+      offsetMs,
+      durationMs: Math.round((index + 1) * step) - offsetMs,
+    });
+  });
+  return frames;
+}
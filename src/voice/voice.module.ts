@@ -0,0 +1,47 @@
+import { Module } from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import { SpeechToTextProvider } from './speech-to-text.provider';
+import { StubSpeechToText, StubTextToSpeech } from './stub-speech.provider';
+import { TextToSpeechProvider } from './text-to-speech.provider';
+import { VoiceService } from './voice.service';
+
+/**
+ * Speech recognition and synthesis for chat clients. STT_PROVIDER and
+ * TTS_PROVIDER pick the backends; "stub" (the default) is deterministic
+ * and runs locally, for development and tests.
+ */
+@Module({
+  providers: [
+    {
+      provide: SpeechToTextProvider,
+      inject: [ConfigService],
+      useFactory: (config: ConfigService): SpeechToTextProvider => {
+        const provider = config.get<string>('STT_PROVIDER', 'stub');
+
+        switch (provider) {
+          case 'stub':
+            return new StubSpeechToText();
+          default:
+            throw new Error(`Unknown STT_PROVIDER: ${provider}`);
+        }
+      },
+    },
+    {
+      provide: TextToSpeechProvider,
+      inject: [ConfigService],
+      useFactory: (config: ConfigService): TextToSpeechProvider => {
+        const provider = config.get<string>('TTS_PROVIDER', 'stub');
+
+        switch (provider) {
+          case 'stub':
+            return new StubTextToSpeech();
+          default:
+            throw new Error(`Unknown TTS_PROVIDER: ${provider}`);
+        }
+      },
+    },
+    VoiceService,
+  ],
+  exports: [VoiceService],
+})
+export class VoiceModule {}
@@ -0,0 +1,196 @@
+import { ConfigService } from '@nestjs/config';
+import {
+  AudioChunkEvent,
+  BridgeMessage,
+  VisemesEvent,
+} from '../chat/protocol/chat-protocol';
+import { SpeechError } from './speech.error';
+import { StubSpeechToText, StubTextToSpeech } from './stub-speech.provider';
+import { VoiceService } from './voice.service';
+
+function response(runId: string, delta: string, seq: number): BridgeMessage {
+  return {
+    type: 'response',
+    text: '',
+    delta,
+    content: delta,
+    streaming: true,
+    runId,
+    seq,
+    isBot: true,
+  };
+}
+
+/**
+ * Let queued syntheses run
+ */
+async function settle(): Promise<void> {
+  for (let i = 0; i < 5; i++) {
+    await new Promise((resolve) => setImmediate(resolve));
+  }
+}
+
+describe('VoiceService', () => {
+  let speechToText: StubSpeechToText;
+  let textToSpeech: StubTextToSpeech;
+  let voice: VoiceService;
+  let audio: AudioChunkEvent[];
+  let visemes: VisemesEvent[];
+
+  beforeEach(() => {
+    speechToText = new StubSpeechToText();
+    textToSpeech = new StubTextToSpeech();
+    voice = new VoiceService(
+      new ConfigService({ VOICE_MAX_UTTERANCE_BYTES: 32 }),
+      speechToText,
+      textToSpeech,
+    );
+    audio = [];
+    visemes = [];
+    voice.register('client-1', {
+      onAudio: (event) => audio.push(event),
+      onVisemes: (event) => visemes.push(event),
+    });
+  });
+
+  afterEach(() => {
+    voice.release('client-1');
+  });
+
+  describe('listen', () => {
+    it('transcribes an utterance streamed in chunks', async () => {
+      const partials: string[] = [];
+      const onPartial = (text: string) => partials.push(text);
+
+      await expect(
+        voice.listen('client-1', { audio: Buffer.from('turn on ') }, onPartial),
+      ).resolves.toBeNull();
+      await expect(
+        voice.listen(
+          'client-1',
+          { audio: Buffer.from('the lights'), final: true },
+          onPartial,
+        ),
+      ).resolves.toBe('turn on the lights');
+      expect(partials).toEqual(['turn on', 'turn on the lights']);
+    });
+
+    it('refuses clients without voice', async () => {
+      await expect(
+        voice.listen('unknown', { final: true }, () => undefined),
+      ).rejects.toThrow(new SpeechError('Voice is not available'));
+    });
+
+    it('discards utterances over the size limit', async () => {
+      await expect(
+        voice.listen(
+          'client-1',
+          { audio: Buffer.alloc(33, 'a') },
+          () => undefined,
+        ),
+      ).rejects.toThrow(new SpeechError('Utterance exceeds 32 bytes'));
+
+      // The next chunk starts a new utterance
+      await expect(
+        voice.listen(
+          'client-1',
+          { audio: Buffer.from('hi'), final: true },
+          () => undefined,
+        ),
+      ).resolves.toBe('hi');
+    });
+
+    it('reports recognition failures as speech errors', async () => {
+      jest.spyOn(speechToText, 'start').mockReturnValue({
+        write: () => undefined,
+        finish: () => Promise.reject(new Error('provider down')),
+        abort: () => undefined,
+      });
+
+      await expect(
+        voice.listen('client-1', { final: true }, () => undefined),
+      ).rejects.toThrow(new SpeechError('Speech recognition failed'));
+    });
+  });
+
+  describe('speak', () => {
+    beforeEach(() => {
+      voice.configure('client-1', { output: true, visemes: true });
+    });
+
+    it('speaks each sentence of a response as it completes', async () => {
+      voice.speak('client-1', response('run-1', 'The sky is ', 1));
+      voice.speak('client-1', response('run-1', 'blue. Grass is', 2));
+      voice.speak('client-1', response('run-1', ' green', 3));
+      voice.speak('client-1', { type: 'response_complete', runId: 'run-1' });
+      await settle();
+
+      expect(
+        audio.map(({ seq, text, responseSeq, final }) => ({
+          seq,
+          text,
+          responseSeq,
+          final,
+        })),
+      ).toEqual([
+        { seq: 1, text: 'The sky is blue.', responseSeq: 2, final: false },
+        { seq: 2, text: 'Grass is green', responseSeq: 3, final: true },
+      ]);
+      expect(audio[0]).toMatchObject({
+        mimeType: 'audio/wav',
+        durationMs: 16 * 60,
+      });
+      expect(visemes.map(({ seq }) => seq)).toEqual([1, 2]);
+      expect(visemes[0].frames[0]).toEqual({
+        viseme: 'TH',
+        offsetMs: 0,
+        durationMs: expect.any(Number) as number,
+      });
+    });
+
+    it('sends a silent final chunk when nothing is left to say', async () => {
+      voice.speak('client-1', response('run-1', 'All done here. ', 1));
+      voice.speak('client-1', { type: 'response_complete', runId: 'run-1' });
+      await settle();
+
+      expect(audio[1]).toMatchObject({ text: '', durationMs: 0, final: true });
+      expect(visemes).toHaveLength(1);
+    });
+
+    it('stops speaking runs that fail or are cancelled', async () => {
+      voice.speak('client-1', response('run-1', 'Half a thought', 1));
+      voice.speak('client-1', { type: 'error', error: {}, runId: 'run-1' });
+      voice.speak('client-1', response('run-2', 'Another one', 1));
+      voice.speak('client-1', {
+        type: 'response_complete',
+        runId: 'run-2',
+        reason: 'cancelled',
+      });
+      await settle();
+
+      expect(audio).toEqual([]);
+    });
+
+    it('skips sentences the provider fails to synthesize', async () => {
+      jest
+        .spyOn(textToSpeech, 'synthesize')
+        .mockRejectedValueOnce(new Error('provider down'));
+
+      voice.speak('client-1', response('run-1', 'Lost sentence. Kept one', 1));
+      voice.speak('client-1', { type: 'response_complete', runId: 'run-1' });
+      await settle();
+
+      expect(audio.map(({ seq, text }) => [seq, text])).toEqual([
+        [1, 'Kept one'],
+      ]);
+    });
+
+    it('stays quiet for clients with output off', async () => {
+      voice.configure('client-1', { output: false });
+      voice.speak('client-1', response('run-1', 'Hello there. ', 1));
+      await settle();
+
+      expect(audio).toEqual([]);
+    });
+  });
+});
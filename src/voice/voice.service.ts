@@ -0,0 +1,345 @@
+import { Injectable, Logger } from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import {
+  AudioChunkEvent,
+  BridgeMessage,
+  VisemesEvent,
+  VoiceEvent,
+} from '../chat/protocol/chat-protocol';
+import { SentenceChunker } from './sentence-chunker';
+import { SpeechError } from './speech.error';
+import {
+  SpeechRecognition,
+  SpeechToTextProvider,
+} from './speech-to-text.provider';
+import {
+  SynthesizedSpeech,
+  TextToSpeechProvider,
+} from './text-to-speech.provider';
+import { estimateVisemes } from './visemes';
+
+/**
+ * Where a client's spoken output goes
+ */
+export interface VoiceOutput {
+  onAudio: (event: AudioChunkEvent) => void;
+  onVisemes: (event: VisemesEvent) => void;
+}
+
+/**
+ * A client utterance being transcribed
+ */
+interface Utterance {
+  recognition: SpeechRecognition;
+  bytes: number;
+  idleTimeout: NodeJS.Timeout;
+}
+
+/**
+ * A run whose response is being spoken to a client
+ */
+interface SpokenRun {
+  chunker: SentenceChunker;
+  /** Characters of the response received so far */
+  received: number;
+  /** `seq` of the latest response delta */
+  responseSeq?: number;
+  /** Audio chunks sent so far */
+  seq: number;
+  /** Synthesis of the run's sentences, one after another */
+  queue: Promise<void>;
+  cancelled: boolean;
+}
+
+interface VoiceClient {
+  send: VoiceOutput;
+  output: boolean;
+  voice: string;
+  visemes: boolean;
+  utterance?: Utterance;
+  runs: Map<string, SpokenRun>;
+}
+
+/**
+ * Voice input and spoken output for chat clients. Utterances streamed as
+ * audio chunks are transcribed by the speech-to-text provider; responses
+ * are split into sentences as their deltas arrive, and each sentence is
+ * synthesized and sent as soon as it is complete.
+ */
+@Injectable()
+export class VoiceService {
+  private readonly logger = new Logger(VoiceService.name);
+  private readonly clients = new Map<string, VoiceClient>();
+  private readonly outputDefault: boolean;
+  private readonly defaultVoice: string;
+  private readonly maxUtteranceBytes: number;
+  private readonly utteranceTimeout: number;
+  private readonly sentenceMaxLength: number;
+
+  constructor(
+    private readonly configService: ConfigService,
+    private readonly speechToText: SpeechToTextProvider,
+    private readonly textToSpeech: TextToSpeechProvider,
+  ) {
+    this.outputDefault =
+      this.configService.get<string>('VOICE_OUTPUT_DEFAULT', 'false') ===
+      'true';
+    this.defaultVoice = this.configService.get<string>('TTS_VOICE', 'default');
+    this.maxUtteranceBytes = Number(
+      this.configService.get('VOICE_MAX_UTTERANCE_BYTES', 5242880),
+    );
+    this.utteranceTimeout = Number(
+      this.configService.get('VOICE_UTTERANCE_TIMEOUT', 30000),
+    );
+    this.sentenceMaxLength = Number(
+      this.configService.get('VOICE_SENTENCE_MAX_LENGTH', 300),
+    );
+    this.logger.log(
+      `Voice providers: speech-to-text "${this.speechToText.name}", text-to-speech "${this.textToSpeech.name}"`,
+    );
+  }
+
+  /**
+   * Start handling a client's voice, sending synthesized audio (and its
+   * lip-sync frames) through `send`
+   */
+  register(clientId: string, send: VoiceOutput): void {
+    this.clients.set(clientId, {
+      send,
+      output: this.outputDefault,
+      voice: this.defaultVoice,
+      visemes: false,
+      runs: new Map(),
+    });
+  }
+
+  release(clientId: string): void {
+    const client = this.clients.get(clientId);
+    if (!client) return;
+
+    this.discardUtterance(client);
+    client.runs.forEach((run) => (run.cancelled = true));
+    this.clients.delete(clientId);
+  }
+
+  /**
+   * Turn spoken output and its lip-sync frames on or off and pick its
+   * voice; omitted fields keep their current setting
+   */
+  configure(
+    clientId: string,
+    settings: { output?: boolean; voice?: string; visemes?: boolean },
+  ): VoiceEvent {
+    const client = this.clients.get(clientId);
+    if (client) {
+      client.output = settings.output ?? client.output;
+      client.voice = settings.voice ?? client.voice;
+      client.visemes = settings.visemes ?? client.visemes;
+      if (!client.output) {
+        client.runs.forEach((run) => (run.cancelled = true));
+        client.runs.clear();
+      }
+    }
+    return this.settings(clientId);
+  }
+
+  settings(clientId: string): VoiceEvent {
+    const client = this.clients.get(clientId);
+    return {
+      output: client?.output ?? this.outputDefault,
+      voice: client?.voice ?? this.defaultVoice,
+      visemes: client?.visemes ?? false,
+      mimeType: this.textToSpeech.mimeType,
+    };
+  }
+
+  /**
+   * Add a chunk to the client's current utterance (starting one if
+   * needed). Resolves with the transcript once a final chunk ends the
+   * utterance, otherwise with null.
+   */
+  async listen(
+    clientId: string,
+    chunk: { audio?: Uint8Array; mimeType?: string; final?: boolean },
+    onPartial: (text: string) => void,
+  ): Promise<string | null> {
+    const client = this.clients.get(clientId);
+    if (!client) {
+      throw new SpeechError('Voice is not available');
+    }
+
+    const utterance =
+      client.utterance ??
+      this.startUtterance(clientId, client, chunk.mimeType, onPartial);
+
+    if (chunk.audio?.length) {
+      utterance.bytes += chunk.audio.length;
+      if (utterance.bytes > this.maxUtteranceBytes) {
+        this.discardUtterance(client);
+        throw new SpeechError(
+          `Utterance exceeds ${this.maxUtteranceBytes} bytes`,
+        );
+      }
+      utterance.recognition.write(Buffer.from(chunk.audio));
+    }
+
+    if (!chunk.final) {
+      utterance.idleTimeout.refresh();
+      return null;
+    }
+
+    clearTimeout(utterance.idleTimeout);
+    client.utterance = undefined;
+    try {
+      return (await utterance.recognition.finish()).trim();
+    } catch (error) {
+      this.logger.error(
+        `[${clientId}] Speech recognition failed: ${(error as Error).message}`,
+      );
+      throw new SpeechError('Speech recognition failed');
+    }
+  }
+
+  /**
+   * Follow a message sent to the client, speaking the responses of
+   * clients with spoken output on
+   */
+  speak(clientId: string, message: BridgeMessage): void {
+    const client = this.clients.get(clientId);
+    if (!client?.output) return;
+
+    if (message.type === 'response' && message.runId) {
+      // A resumed run's text was (or will no longer be) spoken already
+      if (message.resumed) return;
+
+      const runId = message.runId;
+      const run = this.runFor(client, runId);
+      const delta = message.delta || message.text.slice(run.received);
+      run.received += delta.length;
+      run.responseSeq = message.seq ?? run.responseSeq;
+      run.chunker
+        .push(delta)
+        .forEach((sentence) =>
+          this.enqueue(clientId, client, runId, run, sentence, false),
+        );
+      return;
+    }
+
+    if (
+      (message.type === 'response_complete' || message.type === 'error') &&
+      message.runId
+    ) {
+      const run = client.runs.get(message.runId);
+      if (!run) return;
+      client.runs.delete(message.runId);
+
+      if (message.type === 'error' || message.reason === 'cancelled') {
+        run.cancelled = true;
+        return;
+      }
+      this.enqueue(
+        clientId,
+        client,
+        message.runId,
+        run,
+        run.chunker.flush(),
+        true,
+      );
+    }
+  }
+
+  private startUtterance(
+    clientId: string,
+    client: VoiceClient,
+    mimeType: string | undefined,
+    onPartial: (text: string) => void,
+  ): Utterance {
+    const utterance: Utterance = {
+      recognition: this.speechToText.start({
+        mimeType: mimeType ?? 'audio/webm',
+        onPartial,
+      }),
+      bytes: 0,
+      idleTimeout: setTimeout(() => {
+        this.logger.warn(`[${clientId}] Utterance abandoned`);
+        this.discardUtterance(client);
+      }, this.utteranceTimeout),
+    };
+    client.utterance = utterance;
+    return utterance;
+  }
+
+  private discardUtterance(client: VoiceClient): void {
+    if (!client.utterance) return;
+    clearTimeout(client.utterance.idleTimeout);
+    client.utterance.recognition.abort();
+    client.utterance = undefined;
+  }
+
+  private runFor(client: VoiceClient, runId: string): SpokenRun {
+    let run = client.runs.get(runId);
+    if (!run) {
+      run = {
+        chunker: new SentenceChunker(this.sentenceMaxLength),
+        received: 0,
+        seq: 0,
+        queue: Promise.resolve(),
+        cancelled: false,
+      };
+      client.runs.set(runId, run);
+    }
+    return run;
+  }
+
+  /**
+   * Synthesize a sentence after the run's earlier ones and send it; the
+   * final chunk is sent even when there is nothing left to say
+   */
+  private enqueue(
+    clientId: string,
+    client: VoiceClient,
+    runId: string,
+    run: SpokenRun,
+    text: string,
+    final: boolean,
+  ): void {
+    const responseSeq = run.responseSeq;
+    run.queue = run.queue.then(async () => {
+      if (run.cancelled) return;
+
+      let speech: SynthesizedSpeech = { audio: Buffer.alloc(0), durationMs: 0 };
+      if (text) {
+        try {
+          speech = await this.textToSpeech.synthesize(text, {
+            voice: client.voice,
+          });
+        } catch (error) {
+          this.logger.error(
+            `[${clientId}] Speech synthesis failed: ${(error as Error).message}`,
+          );
+          if (!final) return;
+        }
+      }
+      if (run.cancelled) return;
+
+      run.seq++;
+      if (client.visemes && speech.durationMs > 0) {
+        client.send.onVisemes({
+          runId,
+          seq: run.seq,
+          frames: speech.visemes ?? estimateVisemes(text, speech.durationMs),
+        });
+      }
+      client.send.onAudio({
+        runId,
+        seq: run.seq,
+        text,
+        ...(responseSeq !== undefined && { responseSeq }),
+        audio: speech.audio,
+        mimeType: this.textToSpeech.mimeType,
+        durationMs: speech.durationMs,
+        final,
+      });
+    });
+  }
+}